@@ -2,16 +2,25 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { AuthModule } from './auth/auth.module';
+import { AppLogger } from './common/app-logger';
 import { DatabaseModule } from './database/database.module';
+import { EvalModule } from './eval/eval.module';
+import { LlmModule } from './llm/llm.module';
+import { MetricsModule } from './metrics/metrics.module';
 import { RagModule } from './rag/rag.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({ isGlobal: true }),
     DatabaseModule,
+    MetricsModule,
+    AuthModule,
+    LlmModule,
     RagModule,
+    EvalModule,
   ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [AppService, AppLogger],
 })
 export class AppModule {}
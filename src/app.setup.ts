@@ -0,0 +1,42 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { ValidationError } from 'class-validator';
+import { ApiExceptionFilter } from './common/api-exception.filter';
+import { validationException } from './common/errors';
+import { requestContextMiddleware } from './common/request-context';
+
+function flattenErrors(
+  errors: ValidationError[],
+  prefix = '',
+): Array<{ field: string; errors: string[] }> {
+  return errors.flatMap((error) => {
+    const field = prefix + error.property;
+    return [
+      ...(error.constraints
+        ? [{ field, errors: Object.values(error.constraints) }]
+        : []),
+      ...flattenErrors(error.children ?? [], `${field}.`),
+    ];
+  });
+}
+
+/**
+ * Request ids, validation and error handling shared by main.ts and the e2e
+ * tests.
+ */
+export function configureApp(app: INestApplication): void {
+  app.use(requestContextMiddleware);
+  app.useGlobalPipes(
+    new ValidationPipe({
+      transform: true,
+      whitelist: true,
+      exceptionFactory: (errors) => {
+        const details = flattenErrors(errors);
+        return validationException(
+          details.flatMap((d) => d.errors).join('; '),
+          details,
+        );
+      },
+    }),
+  );
+  app.useGlobalFilters(new ApiExceptionFilter());
+}
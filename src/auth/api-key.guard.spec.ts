@@ -0,0 +1,98 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeysService } from './api-keys.service';
+import {
+  IS_PUBLIC_KEY,
+  PROVISIONING_ONLY_KEY,
+  SCOPES_KEY,
+} from './auth.decorators';
+import { AuthenticatedRequest, AuthContext } from './auth.types';
+
+describe('ApiKeyGuard', () => {
+  const keys: Record<string, AuthContext> = {
+    rk_reader: { workspaceId: 'ws-1', keyId: 'k1', scopes: ['read'] },
+    rk_admin: { workspaceId: 'ws-2', keyId: 'k2', scopes: ['admin'] },
+  };
+  const apiKeys = {
+    verify: (key: string) => Promise.resolve(keys[key] ?? null),
+  } as unknown as ApiKeysService;
+
+  function run(
+    request: Partial<AuthenticatedRequest>,
+    metadata: Record<string, unknown> = {},
+    env: Record<string, string> = {},
+  ) {
+    const reflector = {
+      getAllAndOverride: (key: string) => metadata[key],
+    } as unknown as Reflector;
+    const config = {
+      get: (key: string) => env[key],
+    } as unknown as ConfigService;
+    const req = { headers: {}, query: {}, ...request } as AuthenticatedRequest;
+    const context = {
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => req }),
+    } as unknown as ExecutionContext;
+    const guard = new ApiKeyGuard(reflector, apiKeys, config);
+    return guard.canActivate(context).then((allowed) => ({ allowed, req }));
+  }
+
+  it('resolves the workspace from a bearer or header key', async () => {
+    const bearer = await run({
+      headers: { authorization: 'Bearer rk_reader' },
+    });
+    expect(bearer.req.auth?.workspaceId).toBe('ws-1');
+    const header = await run({ headers: { 'x-api-key': 'rk_admin' } });
+    expect(header.req.auth?.workspaceId).toBe('ws-2');
+  });
+
+  it('rejects missing and unknown keys unless the route is public', async () => {
+    await expect(run({})).rejects.toThrow(UnauthorizedException);
+    await expect(
+      run({ headers: { authorization: 'Bearer rk_nope' } }),
+    ).rejects.toThrow('Invalid or revoked API key');
+    await expect(run({}, { [IS_PUBLIC_KEY]: true })).resolves.toMatchObject({
+      allowed: true,
+    });
+  });
+
+  it('enforces route scopes, with admin implying the others', async () => {
+    await expect(
+      run(
+        { headers: { 'x-api-key': 'rk_reader' } },
+        { [SCOPES_KEY]: ['ingest'] },
+      ),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      run(
+        { headers: { 'x-api-key': 'rk_admin' } },
+        { [SCOPES_KEY]: ['ingest'] },
+      ),
+    ).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('lets only the provisioning key reach provisioning routes', async () => {
+    const provisioning = { [PROVISIONING_ONLY_KEY]: true };
+    const env = { PROVISIONING_KEY: 'pk_deployment' };
+    await expect(
+      run({ headers: { 'x-api-key': 'rk_admin' } }, provisioning, env),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      run({ headers: { 'x-api-key': 'rk_admin' } }, provisioning),
+    ).rejects.toThrow('Requires the deployment provisioning key');
+    const { allowed, req } = await run(
+      { headers: { authorization: 'Bearer pk_deployment' } },
+      provisioning,
+      env,
+    );
+    expect(allowed).toBe(true);
+    expect(req.auth).toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { createHash, timingSafeEqual } from 'crypto';
+import { DEFAULT_WORKSPACE_ID } from '../database/database.service';
+import { ApiKeysService } from './api-keys.service';
+import {
+  IS_PUBLIC_KEY,
+  PROVISIONING_ONLY_KEY,
+  SCOPES_KEY,
+} from './auth.decorators';
+import { AuthenticatedRequest, hasScope, Scope } from './auth.types';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Global guard: every route needs an API key unless marked @Public().
+ * Keys are read from `Authorization: Bearer`, `X-API-Key`, or the
+ * `api_key` query parameter (EventSource cannot set headers). Routes
+ * marked @ProvisioningOnly() take the deployment's PROVISIONING_KEY instead.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly disabled: boolean;
+  private readonly provisioningKey: string | undefined;
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeys: ApiKeysService,
+    config: ConfigService,
+  ) {
+    this.disabled = config.get<string>('AUTH_DISABLED') === 'true';
+    this.provisioningKey = config.get<string>('PROVISIONING_KEY') || undefined;
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+
+    if (this.disabled) {
+      // Local development only: act as an admin of the default workspace
+      request.auth = {
+        workspaceId: DEFAULT_WORKSPACE_ID,
+        keyId: null,
+        scopes: ['admin'],
+      };
+      return true;
+    }
+
+    const key = this.extractKey(request);
+    if (!key) throw new UnauthorizedException('Missing API key');
+    if (
+      this.reflector.getAllAndOverride<boolean>(PROVISIONING_ONLY_KEY, targets)
+    ) {
+      // Workspace keys, admin ones included, only act within their workspace
+      if (
+        !this.provisioningKey ||
+        !timingSafeEqual(digest(key), digest(this.provisioningKey))
+      ) {
+        throw new ForbiddenException(
+          'Requires the deployment provisioning key',
+        );
+      }
+      return true;
+    }
+    const auth = await this.apiKeys.verify(key);
+    if (!auth) throw new UnauthorizedException('Invalid or revoked API key');
+
+    const required = this.reflector.getAllAndOverride<Scope[] | undefined>(
+      SCOPES_KEY,
+      targets,
+    ) ?? ['read'];
+    const missing = required.filter((scope) => !hasScope(auth.scopes, scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `API key is missing scope: ${missing.join(', ')}`,
+      );
+    }
+
+    request.auth = auth;
+    return true;
+  }
+
+  private extractKey(request: AuthenticatedRequest): string | null {
+    const header = request.headers.authorization;
+    if (header?.startsWith('Bearer ')) return header.slice(7).trim();
+    const apiKeyHeader = request.headers['x-api-key'];
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader) return apiKeyHeader;
+    const query = request.query.api_key;
+    return typeof query === 'string' && query ? query : null;
+  }
+}
@@ -0,0 +1,103 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import {
+  DatabaseService,
+  DEFAULT_WORKSPACE_ID,
+} from '../database/database.service';
+import { ApiKeySummary, AuthContext, Scope } from './auth.types';
+
+const KEY_PREFIX = 'rk_';
+const KEY_COLUMNS = `id, workspace_id, name, key_prefix, scopes, created_at,
+  last_used_at, revoked_at`;
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Keys are random 32-byte tokens shown once at creation; only their
+ * SHA-256 is stored, which is enough for tokens with that much entropy.
+ */
+@Injectable()
+export class ApiKeysService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly config: ConfigService,
+  ) {}
+
+  /** Registers BOOTSTRAP_API_KEY as an admin key of the default workspace. */
+  async onApplicationBootstrap(): Promise<void> {
+    const key = this.config.get<string>('BOOTSTRAP_API_KEY');
+    if (!key) return;
+    const { rows } = await this.db.query(
+      `INSERT INTO api_keys (workspace_id, name, key_prefix, key_hash, scopes)
+       VALUES ($1, 'bootstrap', $2, $3, '{admin}')
+       ON CONFLICT (key_hash) DO NOTHING
+       RETURNING id`,
+      [DEFAULT_WORKSPACE_ID, key.slice(0, 11), hashKey(key)],
+    );
+    if (rows.length > 0) this.logger.log('Registered bootstrap API key');
+  }
+
+  async create(
+    workspaceId: string,
+    name: string,
+    scopes: Scope[],
+  ): Promise<ApiKeySummary & { key: string }> {
+    const key = KEY_PREFIX + randomBytes(32).toString('base64url');
+    const { rows } = await this.db.query<ApiKeySummary>(
+      `INSERT INTO api_keys (workspace_id, name, key_prefix, key_hash, scopes)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${KEY_COLUMNS}`,
+      [workspaceId, name, key.slice(0, 11), hashKey(key), scopes],
+    );
+    return { ...rows[0], key };
+  }
+
+  async list(workspaceId: string): Promise<{ keys: ApiKeySummary[] }> {
+    const { rows } = await this.db.query<ApiKeySummary>(
+      `SELECT ${KEY_COLUMNS} FROM api_keys
+       WHERE workspace_id = $1
+       ORDER BY created_at DESC`,
+      [workspaceId],
+    );
+    return { keys: rows };
+  }
+
+  async revoke(workspaceId: string, id: string): Promise<ApiKeySummary> {
+    const { rows } = await this.db.query<ApiKeySummary>(
+      `UPDATE api_keys SET revoked_at = COALESCE(revoked_at, now())
+       WHERE workspace_id = $1 AND id = $2
+       RETURNING ${KEY_COLUMNS}`,
+      [workspaceId, id],
+    );
+    if (rows.length === 0)
+      throw new NotFoundException(`API key ${id} not found`);
+    return rows[0];
+  }
+
+  /** Resolves a presented key, or null if it is unknown or revoked. */
+  async verify(key: string): Promise<AuthContext | null> {
+    const { rows } = await this.db.query<{
+      id: string;
+      workspace_id: string;
+      scopes: Scope[];
+    }>(
+      `UPDATE api_keys SET last_used_at = now()
+       WHERE key_hash = $1 AND revoked_at IS NULL
+       RETURNING id, workspace_id, scopes`,
+      [hashKey(key)],
+    );
+    const row = rows[0];
+    if (!row) return null;
+    return { workspaceId: row.workspace_id, keyId: row.id, scopes: row.scopes };
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuthenticatedRequest, Scope } from './auth.types';
+
+export const IS_PUBLIC_KEY = 'auth:public';
+export const SCOPES_KEY = 'auth:scopes';
+export const PROVISIONING_ONLY_KEY = 'auth:provisioning';
+
+/** Skips API-key authentication (health checks and the like). */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/** Scopes a key needs for a route or controller; `read` when not set. */
+export const RequireScopes = (...scopes: Scope[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
+
+/**
+ * Routes that act across workspaces (creating one, rebuilding the shared
+ * vector index) and so need the deployment's PROVISIONING_KEY; no
+ * workspace API key is accepted.
+ */
+export const ProvisioningOnly = () => SetMetadata(PROVISIONING_ONLY_KEY, true);
+
+/** The caller's workspace, as resolved from its API key by ApiKeyGuard. */
+export const WorkspaceId = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): string => {
+    const request = ctx.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!request.auth) throw new UnauthorizedException('Not authenticated');
+    return request.auth.workspaceId;
+  },
+);
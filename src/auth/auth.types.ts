@@ -0,0 +1,37 @@
+import { Request } from 'express';
+
+/** `admin` implies every other scope. */
+export const SCOPES = ['read', 'ingest', 'admin'] as const;
+export type Scope = (typeof SCOPES)[number];
+
+export interface AuthContext {
+  workspaceId: string;
+  /** Null when authentication is disabled for local development. */
+  keyId: string | null;
+  scopes: Scope[];
+}
+
+export interface AuthenticatedRequest extends Request {
+  auth?: AuthContext;
+}
+
+export interface ApiKeySummary {
+  id: string;
+  workspace_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: Scope[];
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export function hasScope(granted: Scope[], required: Scope): boolean {
+  return granted.includes('admin') || granted.includes(required);
+}
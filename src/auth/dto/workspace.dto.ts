@@ -0,0 +1,30 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Scope, SCOPES } from '../auth.types';
+
+export class CreateWorkspaceDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
+
+export class CreateApiKeyDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name: string = '';
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(SCOPES, { each: true })
+  scopes: Scope[] = ['read'];
+}
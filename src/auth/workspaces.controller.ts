@@ -0,0 +1,61 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import {
+  ProvisioningOnly,
+  RequireScopes,
+  WorkspaceId,
+} from './auth.decorators';
+import { CreateApiKeyDto, CreateWorkspaceDto } from './dto/workspace.dto';
+import { WorkspacesService } from './workspaces.service';
+
+@Controller('workspaces')
+export class WorkspacesController {
+  constructor(
+    private readonly workspaces: WorkspacesService,
+    private readonly apiKeys: ApiKeysService,
+  ) {}
+
+  @Get('current')
+  async current(@WorkspaceId() workspaceId: string) {
+    return this.workspaces.get(workspaceId);
+  }
+
+  /** Returns the new workspace's admin key; it is not shown again. */
+  @Post()
+  @ProvisioningOnly()
+  async create(@Body() body: CreateWorkspaceDto) {
+    return this.workspaces.create(body.name);
+  }
+
+  @Get('current/keys')
+  @RequireScopes('admin')
+  async listKeys(@WorkspaceId() workspaceId: string) {
+    return this.apiKeys.list(workspaceId);
+  }
+
+  @Post('current/keys')
+  @RequireScopes('admin')
+  async createKey(
+    @WorkspaceId() workspaceId: string,
+    @Body() body: CreateApiKeyDto,
+  ) {
+    return this.apiKeys.create(workspaceId, body.name, body.scopes);
+  }
+
+  @Delete('current/keys/:id')
+  @RequireScopes('admin')
+  async revokeKey(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.apiKeys.revoke(workspaceId, id);
+  }
+}
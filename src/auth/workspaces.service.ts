@@ -0,0 +1,42 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeySummary, Workspace } from './auth.types';
+
+@Injectable()
+export class WorkspacesService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly apiKeys: ApiKeysService,
+  ) {}
+
+  async get(id: string): Promise<Workspace> {
+    const { rows } = await this.db.query<Workspace>(
+      'SELECT id, name, created_at FROM workspaces WHERE id = $1',
+      [id],
+    );
+    if (rows.length === 0) {
+      throw new NotFoundException(`Workspace ${id} not found`);
+    }
+    return rows[0];
+  }
+
+  /** Creates a workspace together with its first admin key. */
+  async create(name: string): Promise<{
+    workspace: Workspace;
+    apiKey: ApiKeySummary & { key: string };
+  }> {
+    return this.db.transaction(async () => {
+      const { rows } = await this.db.query<Workspace>(
+        `INSERT INTO workspaces (name) VALUES ($1)
+         RETURNING id, name, created_at`,
+        [name.trim()],
+      );
+      const workspace = rows[0];
+      const apiKey = await this.apiKeys.create(workspace.id, 'admin', [
+        'admin',
+      ]);
+      return { workspace, apiKey };
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { ArgumentsHost, Catch, ExceptionFilter, Logger } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { describeError } from './errors';
+import { currentRequestId } from './request-context';
+
+/** Renders every error as an ApiError body with a stable `code`. */
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const http = host.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+    const error = describeError(exception);
+
+    if (error.statusCode >= 500) {
+      this.logger.error(
+        `${request.method} ${request.originalUrl} failed with ${error.code}`,
+        exception instanceof Error ? exception.stack : String(exception),
+      );
+    }
+    // A streamed response cannot switch to a JSON error body
+    if (response.headersSent) return;
+
+    response.status(error.statusCode).json({
+      ...error,
+      path: request.originalUrl,
+      requestId: currentRequestId(),
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
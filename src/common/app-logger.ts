@@ -0,0 +1,61 @@
+import { ConsoleLogger, Injectable, LogLevel } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { currentRequestId } from './request-context';
+
+// Most verbose first; LOG_LEVEL enables its level and everything after it
+const LEVELS: LogLevel[] = [
+  'verbose',
+  'debug',
+  'log',
+  'warn',
+  'error',
+  'fatal',
+];
+
+function enabledLevels(level: string): LogLevel[] {
+  const normalized = level.toLowerCase() === 'info' ? 'log' : level;
+  const index = LEVELS.indexOf(normalized.toLowerCase() as LogLevel);
+  if (index === -1) {
+    throw new Error(
+      `LOG_LEVEL must be one of: ${LEVELS.join(', ')} (got "${level}")`,
+    );
+  }
+  return LEVELS.slice(index);
+}
+
+/**
+ * Nest's console logger with the id of the request being served added to
+ * every line. LOG_LEVEL sets the minimum level (default log) and
+ * LOG_FORMAT=json switches to one JSON object per line.
+ */
+@Injectable()
+export class AppLogger extends ConsoleLogger {
+  constructor(config: ConfigService) {
+    super({
+      logLevels: enabledLevels(config.get<string>('LOG_LEVEL') ?? 'log'),
+      json: config.get<string>('LOG_FORMAT') === 'json',
+    });
+  }
+
+  protected formatContext(context: string): string {
+    const requestId = currentRequestId();
+    const formatted = super.formatContext(context);
+    return requestId ? `${formatted}[${requestId}] ` : formatted;
+  }
+
+  protected getJsonLogObject(
+    message: unknown,
+    options: {
+      context: string;
+      logLevel: LogLevel;
+      writeStreamType?: 'stdout' | 'stderr';
+      errorStack?: unknown;
+    },
+  ) {
+    const requestId = currentRequestId();
+    return {
+      ...super.getJsonLogObject(message, options),
+      ...(requestId ? { requestId } : {}),
+    };
+  }
+}
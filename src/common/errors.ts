@@ -0,0 +1,185 @@
+import { BadRequestException, HttpException, HttpStatus } from '@nestjs/common';
+import { CsvError } from 'csv-parse/sync';
+import OpenAI from 'openai';
+
+/**
+ * Error body returned by every route. `code` is stable and meant for
+ * clients to branch on; `message` is for humans and may change.
+ */
+export interface ApiError {
+  statusCode: number;
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+/** An upload that could not be read (malformed CSV, corrupt workbook, ...). */
+export class DocumentParseError extends Error {
+  constructor(
+    readonly fileName: string,
+    cause: unknown,
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Could not parse ${fileName}: ${reason}`, { cause });
+    this.name = 'DocumentParseError';
+  }
+}
+
+export function validationException(
+  message: string,
+  details?: unknown,
+): BadRequestException {
+  return new BadRequestException({
+    code: 'VALIDATION_FAILED',
+    message,
+    ...(details !== undefined ? { details } : {}),
+  });
+}
+
+// Every 400 in this API is a rejected input, whichever layer threw it
+const HTTP_CODES: Partial<Record<number, string>> = {
+  [HttpStatus.BAD_REQUEST]: 'VALIDATION_FAILED',
+};
+
+// SQLSTATE classes worth telling apart; everything else is DB_ERROR
+const PG_ERRORS: Array<[RegExp, number, string]> = [
+  [/^23505$/, HttpStatus.CONFLICT, 'DB_CONFLICT'],
+  [/^23/, HttpStatus.CONFLICT, 'DB_CONSTRAINT_VIOLATION'],
+  [/^22/, HttpStatus.BAD_REQUEST, 'DB_INVALID_INPUT'],
+  [/^(08|53|57P0)/, HttpStatus.SERVICE_UNAVAILABLE, 'DB_UNAVAILABLE'],
+  [/^57014$/, HttpStatus.SERVICE_UNAVAILABLE, 'DB_TIMEOUT'],
+];
+
+const CONNECTION_ERRORS = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+];
+
+/** pg's DatabaseError, recognised by shape (SQLSTATE code plus severity). */
+function isPgError(err: Error): err is Error & { code: string } {
+  const { code, severity } = err as { code?: unknown; severity?: unknown };
+  return (
+    typeof code === 'string' &&
+    /^[0-9A-Z]{5}$/.test(code) &&
+    typeof severity === 'string'
+  );
+}
+
+function csvDetails(err: CsvError): Record<string, unknown> {
+  return {
+    format: 'csv',
+    reason: err.code,
+    ...(typeof err.lines === 'number' ? { line: err.lines } : {}),
+  };
+}
+
+/**
+ * Maps anything thrown while serving a request (or running an ingest job)
+ * onto a status and stable code. Provider, database and parser errors are
+ * translated; unknown errors become a bare 500 without internals.
+ */
+export function describeError(err: unknown): ApiError {
+  if (err instanceof HttpException) {
+    const status = err.getStatus();
+    const response = err.getResponse();
+    const body =
+      typeof response === 'object' && response !== null
+        ? (response as { code?: unknown; message?: unknown; details?: unknown })
+        : { message: response };
+    const message = Array.isArray(body.message)
+      ? body.message.join('; ')
+      : typeof body.message === 'string'
+        ? body.message
+        : err.message;
+    return {
+      statusCode: status,
+      code:
+        typeof body.code === 'string'
+          ? body.code
+          : (HTTP_CODES[status] ?? HttpStatus[status] ?? 'HTTP_ERROR'),
+      message,
+      ...(body.details !== undefined ? { details: body.details } : {}),
+    };
+  }
+
+  if (err instanceof OpenAI.APIError) {
+    if (err instanceof OpenAI.RateLimitError) {
+      return {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        code: 'LLM_RATE_LIMITED',
+        message: 'The language model provider is rate limiting requests',
+      };
+    }
+    if (
+      err instanceof OpenAI.AuthenticationError ||
+      err instanceof OpenAI.PermissionDeniedError
+    ) {
+      // The server's credentials are wrong, not the caller's
+      return {
+        statusCode: HttpStatus.BAD_GATEWAY,
+        code: 'LLM_AUTH_FAILED',
+        message: 'The language model provider rejected our credentials',
+      };
+    }
+    if (err instanceof OpenAI.APIConnectionError) {
+      return {
+        statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+        code: 'LLM_UNAVAILABLE',
+        message: 'The language model provider could not be reached',
+      };
+    }
+    return {
+      statusCode: HttpStatus.BAD_GATEWAY,
+      code: 'LLM_ERROR',
+      message: `The language model provider failed: ${err.message}`,
+    };
+  }
+
+  if (err instanceof DocumentParseError || err instanceof CsvError) {
+    const cause = err instanceof DocumentParseError ? err.cause : err;
+    return {
+      statusCode: HttpStatus.UNPROCESSABLE_ENTITY,
+      code: 'PARSE_FAILED',
+      message: err.message,
+      ...(cause instanceof CsvError ? { details: csvDetails(cause) } : {}),
+    };
+  }
+
+  if (err instanceof Error && isPgError(err)) {
+    const match = PG_ERRORS.find(([pattern]) => pattern.test(err.code));
+    const [, statusCode, code] = match ?? [
+      null,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      'DB_ERROR',
+    ];
+    return {
+      statusCode,
+      code,
+      // Constraint and input errors are safe to echo; others may leak SQL
+      message:
+        statusCode < 500
+          ? err.message
+          : 'The database could not serve this request',
+      details: { sqlState: err.code },
+    };
+  }
+
+  if (
+    err instanceof Error &&
+    CONNECTION_ERRORS.includes((err as { code?: string }).code ?? '')
+  ) {
+    return {
+      statusCode: HttpStatus.SERVICE_UNAVAILABLE,
+      code: 'DB_UNAVAILABLE',
+      message: 'The database could not be reached',
+    };
+  }
+
+  return {
+    statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+    code: 'INTERNAL_ERROR',
+    message: 'Internal server error',
+  };
+}
@@ -0,0 +1,31 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Ids from proxies are reused only if they are safe to log verbatim
+const INCOMING_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+/** Id of the HTTP request the current async call chain is serving. */
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Assigns every request an id (the caller's X-Request-Id when valid),
+ * echoes it in the response and makes it available to the logger.
+ */
+export function requestContextMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId =
+    incoming && INCOMING_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  requestContext.run({ requestId }, next);
+}
@@ -7,5 +7,3 @@ import { DatabaseService } from './database.service';
   exports: [DatabaseService],
 })
 export class DatabaseModule {}
-
-
@@ -1,104 +1,91 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Pool } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { MIGRATIONS } from './migrations';
+import { Migrator } from './migrator';
+
+export { DEFAULT_WORKSPACE_ID } from './migrations/002-workspaces';
 
 @Injectable()
 export class DatabaseService implements OnModuleInit {
   private pool!: Pool;
+  // Client of the transaction the current async call chain is running in
+  private readonly txClient = new AsyncLocalStorage<PoolClient>();
+
+  private readonly logger = new Logger(DatabaseService.name);
 
-  constructor(private readonly configService: ConfigService) { }
+  constructor(private readonly configService: ConfigService) {}
 
+  /**
+   * Brings the schema up to date before anything else touches it, unless
+   * MIGRATE_ON_BOOT=false, in which case a database behind this build is
+   * refused so the instance fails on boot rather than on first query.
+   */
   async onModuleInit(): Promise<void> {
     this.pool = new Pool({
       connectionString: this.configService.get<string>('DATABASE_URL'),
     });
 
-    await this.ensurePgVector();
-    await this.ensurePgCrypto();
-    await this.ensureSchema();
-  }
-
-  async query<T = unknown>(text: string, params?: unknown[]): Promise<{ rows: T[] }> {
-    return this.pool.query<T>(text, params as any);
+    const migrator = new Migrator(
+      () => this.pool.connect(),
+      MIGRATIONS,
+      (message) => this.logger.log(message),
+    );
+    const status =
+      this.configService.get<string>('MIGRATE_ON_BOOT') === 'false'
+        ? await migrator.assertUpToDate()
+        : await migrator.up();
+    this.logger.log(`Database schema at version ${status.current}`);
   }
 
-  private async ensurePgVector(): Promise<void> {
-    await this.pool.query('CREATE EXTENSION IF NOT EXISTS vector');
+  async query<T = unknown>(
+    text: string,
+    params?: unknown[],
+  ): Promise<{ rows: T[] }> {
+    const client = this.txClient.getStore() ?? this.pool;
+    const { rows } = await client.query<QueryResultRow>(text, params);
+    // Row types are the caller's word for what the SQL selects
+    return { rows: rows as T[] };
   }
 
-  private async ensurePgCrypto(): Promise<void> {
-    await this.pool.query('CREATE EXTENSION IF NOT EXISTS pgcrypto');
+  /**
+   * Runs `fn` inside a transaction. Every `query` issued from within `fn`
+   * (including from other services) uses the transaction's client.
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.txClient.getStore()) return fn();
+    const client: PoolClient = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await this.txClient.run(client, fn);
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
   }
 
-  private async ensureSchema(): Promise<void> {
-    await this.pool.query(`
-      CREATE TABLE IF NOT EXISTS dashboard_chunks (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        title TEXT NOT NULL DEFAULT '',
-        source TEXT NOT NULL,
-        content TEXT NOT NULL,
-        embedding vector(1536) NOT NULL,
-        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
-      );
-    `);
-
-    // // Check if graph_data table exists with old schema
-    // const tableExists = await this.pool.query(`
-    //   SELECT EXISTS (
-    //     SELECT FROM information_schema.tables 
-    //     WHERE table_name = 'graph_data'
-    //   );
-    // `);
-
-    // if (tableExists.rows[0].exists) {
-    //   // Check if old columns exist
-    //   const hasOldColumns = await this.pool.query(`
-    //     SELECT EXISTS (
-    //       SELECT FROM information_schema.columns 
-    //       WHERE table_name = 'graph_data' AND column_name = 'metric'
-    //     );
-    //   `);
-
-    //   if (hasOldColumns.rows[0].exists) {
-    //     // Drop old table and recreate with new schema
-    //     await this.pool.query('DROP TABLE graph_data CASCADE');
-    //   }
-    // }
-
-    await this.pool.query(`
-      CREATE TABLE IF NOT EXISTS graph_data (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        title TEXT NOT NULL DEFAULT '',
-        source TEXT NOT NULL,
-        table_data JSONB NOT NULL,
-        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
-      );
-    `);
-
-    await this.pool.query(`
-      CREATE TABLE IF NOT EXISTS chat_history (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      query TEXT NOT NULL,
-      response TEXT,
-      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
-      );
-    `);
-
-    await this.pool.query(`
-      CREATE INDEX IF NOT EXISTS dashboard_chunks_embedding_idx
-      ON dashboard_chunks USING ivfflat (embedding vector_cosine_ops);
-    `);
-
-    await this.pool.query(`
-      CREATE INDEX IF NOT EXISTS graph_data_source_idx
-      ON graph_data (source);
-    `);
+  /** Connection counts of the pool; all zero before it is created. */
+  poolStats(): { total: number; idle: number; waiting: number } {
+    return {
+      total: this.pool?.totalCount ?? 0,
+      idle: this.pool?.idleCount ?? 0,
+      waiting: this.pool?.waitingCount ?? 0,
+    };
   }
 
-  async deleteBySource(source: string): Promise<void> {
-    await this.pool.query('DELETE FROM dashboard_chunks WHERE source = $1', [source]);
-    await this.pool.query('DELETE FROM graph_data WHERE source = $1', [source]);
+  async deleteBySource(workspaceId: string, source: string): Promise<void> {
+    await this.transaction(async () => {
+      for (const table of ['dashboard_chunks', 'graph_data', 'sources']) {
+        await this.query(
+          `DELETE FROM ${table} WHERE workspace_id = $1 AND source = $2`,
+          [workspaceId, source],
+        );
+      }
+    });
   }
 }
-
-
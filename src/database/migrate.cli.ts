@@ -0,0 +1,103 @@
+/**
+ * Shows, applies or reverts schema migrations.
+ *
+ *   npm run migrate -- status
+ *   npm run migrate -- up [--to <version>]
+ *   npm run migrate -- down [--to <version> | --steps <n>]
+ *
+ * `up` applies every pending migration unless --to is given; `down` reverts
+ * the latest one unless told otherwise. Connects to DATABASE_URL, read from
+ * the environment or .env like the server does. Safe to run while servers
+ * are booting: all of them take the same advisory lock.
+ */
+import { ConfigModule } from '@nestjs/config';
+import { Pool } from 'pg';
+import { MIGRATIONS } from './migrations';
+import { MigrationStatus, Migrator } from './migrator';
+
+const USAGE =
+  'Usage: npm run migrate -- status | up [--to version] | down [--to version | --steps n]';
+
+function parseArgs(argv: string[]): {
+  command: string;
+  options: Record<string, string>;
+} {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options[argv[i].slice(2)] = argv[++i] ?? '';
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  if (
+    positional.length !== 1 ||
+    !['status', 'up', 'down'].includes(positional[0])
+  ) {
+    throw new Error(USAGE);
+  }
+  return { command: positional[0], options };
+}
+
+function version(value: string, flag: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`--${flag} must be a non-negative integer`);
+  }
+  return n;
+}
+
+function print(status: MigrationStatus): void {
+  console.log(`Schema at version ${status.current} of ${status.latest}`);
+  for (const m of status.applied) {
+    console.log(`  applied  ${m.version}-${m.name}  ${m.applied_at}`);
+  }
+  for (const m of status.pending) {
+    console.log(`  pending  ${m.version}-${m.name}`);
+  }
+}
+
+async function main(): Promise<number> {
+  const { command, options } = parseArgs(process.argv.slice(2));
+  await ConfigModule.forRoot();
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  const migrator = new Migrator(
+    () => pool.connect(),
+    MIGRATIONS,
+    (message) => console.log(message),
+  );
+
+  try {
+    if (command === 'status') {
+      print(await migrator.status());
+    } else if (command === 'up') {
+      print(
+        await migrator.up(
+          options.to === undefined ? Infinity : version(options.to, 'to'),
+        ),
+      );
+    } else {
+      let target: number;
+      if (options.to !== undefined) {
+        target = version(options.to, 'to');
+      } else {
+        const applied = (await migrator.status()).applied;
+        const steps = version(options.steps ?? '1', 'steps');
+        target = applied[applied.length - 1 - steps]?.version ?? 0;
+      }
+      print(await migrator.down(target));
+    }
+    return 0;
+  } finally {
+    await pool.end();
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err: unknown) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  },
+);
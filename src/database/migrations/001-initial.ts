@@ -0,0 +1,250 @@
+import { Migration, SqlClient } from '../migrator';
+
+/**
+ * Chunks used to be stored as vector(1536) from text-embedding-ada-002.
+ * The column is now dimensionless so other models fit, with the model and
+ * dimension recorded per row.
+ */
+async function widenEmbeddingColumn(db: SqlClient): Promise<void> {
+  await db.query(`
+    ALTER TABLE dashboard_chunks
+    ADD COLUMN IF NOT EXISTS embedding_model TEXT NOT NULL DEFAULT 'text-embedding-ada-002',
+    ADD COLUMN IF NOT EXISTS embedding_dim INT NOT NULL DEFAULT 1536;
+  `);
+  await db.query(`
+    ALTER TABLE dashboard_chunks
+    ALTER COLUMN embedding_model DROP DEFAULT,
+    ALTER COLUMN embedding_dim DROP DEFAULT;
+  `);
+
+  const { rows } = await db.query<{ type: string }>(`
+    SELECT format_type(atttypid, atttypmod) AS type
+    FROM pg_attribute
+    WHERE attrelid = 'dashboard_chunks'::regclass AND attname = 'embedding'
+  `);
+  if (rows[0]?.type !== 'vector') {
+    // The old index is tied to the fixed-size column type
+    await db.query('DROP INDEX IF EXISTS dashboard_chunks_embedding_idx');
+    await db.query(
+      'ALTER TABLE dashboard_chunks ALTER COLUMN embedding TYPE vector',
+    );
+  }
+}
+
+/**
+ * Chunks, tables, chat history, sources and ingest jobs, as the schema
+ * stood before workspaces. Every statement tolerates an existing database
+ * created by the old boot-time DDL.
+ */
+export const initial: Migration = {
+  version: 1,
+  name: 'initial',
+
+  async up(db) {
+    await db.query('CREATE EXTENSION IF NOT EXISTS vector');
+    await db.query('CREATE EXTENSION IF NOT EXISTS pgcrypto');
+    await db.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS dashboard_chunks (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        title TEXT NOT NULL DEFAULT '',
+        source TEXT NOT NULL,
+        content TEXT NOT NULL,
+        embedding vector NOT NULL,
+        embedding_model TEXT NOT NULL,
+        embedding_dim INT NOT NULL,
+        sheet TEXT NOT NULL DEFAULT '',
+        kind TEXT NOT NULL DEFAULT 'text',
+        column_name TEXT,
+        row_start INT,
+        row_end INT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+
+    await widenEmbeddingColumn(db);
+
+    // Provenance of each chunk, used for citations
+    await db.query(`
+      ALTER TABLE dashboard_chunks
+      ADD COLUMN IF NOT EXISTS sheet TEXT NOT NULL DEFAULT '',
+      ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'text',
+      ADD COLUMN IF NOT EXISTS column_name TEXT,
+      ADD COLUMN IF NOT EXISTS row_start INT,
+      ADD COLUMN IF NOT EXISTS row_end INT;
+    `);
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS graph_data (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        title TEXT NOT NULL DEFAULT '',
+        source TEXT NOT NULL,
+        table_data JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS chat_history (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      query TEXT NOT NULL,
+      response TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS sources (
+        source TEXT PRIMARY KEY,
+        file_name TEXT NOT NULL DEFAULT '',
+        mime_type TEXT NOT NULL DEFAULT '',
+        size_bytes BIGINT NOT NULL DEFAULT 0,
+        content_hash TEXT,
+        ingested_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+
+    // Sources ingested before the sources table existed (pre-workspace schema only)
+    await db.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'sources' AND column_name = 'workspace_id'
+        ) THEN
+          INSERT INTO sources (source)
+          SELECT source FROM dashboard_chunks
+          UNION
+          SELECT source FROM graph_data
+          ON CONFLICT (source) DO NOTHING;
+        END IF;
+      END $$;
+    `);
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS ingest_jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        source TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        file_name TEXT NOT NULL,
+        mime_type TEXT NOT NULL DEFAULT '',
+        size_bytes BIGINT NOT NULL DEFAULT 0,
+        content_hash TEXT NOT NULL,
+        file_data BYTEA,
+        tables JSONB,
+        sheets JSONB NOT NULL DEFAULT '[]'::jsonb,
+        embedding_model TEXT,
+        total_chunks INT NOT NULL DEFAULT 0,
+        processed_chunks INT NOT NULL DEFAULT 0,
+        inserted INT NOT NULL DEFAULT 0,
+        graph_data_inserted INT NOT NULL DEFAULT 0,
+        attempts INT NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        finished_at TIMESTAMPTZ
+      );
+    `);
+
+    // Chunks staged by an ingest job; embeddings survive a failed run
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS ingest_job_chunks (
+        job_id UUID NOT NULL REFERENCES ingest_jobs(id) ON DELETE CASCADE,
+        seq INT NOT NULL,
+        sheet TEXT NOT NULL DEFAULT '',
+        content TEXT NOT NULL,
+        embedding vector,
+        PRIMARY KEY (job_id, seq)
+      );
+    `);
+
+    await db.query(`
+      ALTER TABLE ingest_job_chunks
+      ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'text',
+      ADD COLUMN IF NOT EXISTS column_name TEXT,
+      ADD COLUMN IF NOT EXISTS row_start INT,
+      ADD COLUMN IF NOT EXISTS row_end INT,
+      ADD COLUMN IF NOT EXISTS title TEXT NOT NULL DEFAULT '';
+    `);
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        title TEXT NOT NULL DEFAULT '',
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+
+    await db.query(`
+      ALTER TABLE chat_history
+      ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE;
+    `);
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS chat_history_conversation_idx
+      ON chat_history (conversation_id, created_at DESC);
+    `);
+
+    // Ingest job that wrote each row; identifies a source's latest version
+    await db.query(`
+      ALTER TABLE dashboard_chunks ADD COLUMN IF NOT EXISTS ingest_job_id UUID;
+      ALTER TABLE graph_data ADD COLUMN IF NOT EXISTS ingest_job_id UUID;
+      CREATE INDEX IF NOT EXISTS dashboard_chunks_source_created_idx
+      ON dashboard_chunks (source, created_at DESC);
+    `);
+
+    // Stable code of a job's failure (see describeError), next to its message
+    await db.query(
+      'ALTER TABLE ingest_jobs ADD COLUMN IF NOT EXISTS error_code TEXT',
+    );
+
+    // Chunking settings each chunk was produced with, so a source can be re-chunked
+    await db.query(`
+      ALTER TABLE dashboard_chunks ADD COLUMN IF NOT EXISTS chunking JSONB;
+      ALTER TABLE ingest_jobs ADD COLUMN IF NOT EXISTS chunking JSONB;
+      CREATE TABLE IF NOT EXISTS source_settings (
+        source TEXT PRIMARY KEY,
+        chunking JSONB NOT NULL DEFAULT '{}',
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+
+    // Full-text and trigram indexes for the lexical half of hybrid search
+    await db.query(`
+      ALTER TABLE dashboard_chunks
+      ADD COLUMN IF NOT EXISTS content_tsv tsvector
+      GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+    `);
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS dashboard_chunks_content_tsv_idx
+      ON dashboard_chunks USING gin (content_tsv);
+    `);
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS dashboard_chunks_content_trgm_idx
+      ON dashboard_chunks USING gin (content gin_trgm_ops);
+    `);
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS dashboard_chunks_embedding_model_idx
+      ON dashboard_chunks (embedding_model, embedding_dim);
+    `);
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS graph_data_source_idx
+      ON graph_data (source);
+    `);
+  },
+
+  async down(db) {
+    // Extensions stay: other objects in the database may use them
+    await db.query(`
+      DROP TABLE IF EXISTS source_settings, ingest_job_chunks, ingest_jobs,
+        chat_history, conversations, sources, graph_data, dashboard_chunks;
+    `);
+  },
+};
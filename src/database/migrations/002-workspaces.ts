@@ -0,0 +1,103 @@
+import { Migration } from '../migrator';
+
+/** Owns everything that existed before workspaces were introduced. */
+export const DEFAULT_WORKSPACE_ID = '00000000-0000-0000-0000-000000000000';
+
+const WORKSPACE_TABLES = [
+  'dashboard_chunks',
+  'graph_data',
+  'chat_history',
+  'conversations',
+  'sources',
+  'source_settings',
+  'ingest_jobs',
+];
+
+/**
+ * Adds workspace_id to every tenant table. Existing rows go to the
+ * default workspace; the default is then dropped so new rows must name
+ * their workspace. Source names are unique per workspace.
+ */
+export const workspaces: Migration = {
+  version: 2,
+  name: 'workspaces',
+
+  async up(db) {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS workspaces (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+    await db.query(
+      `INSERT INTO workspaces (id, name) VALUES ($1, 'default')
+       ON CONFLICT (id) DO NOTHING`,
+      [DEFAULT_WORKSPACE_ID],
+    );
+
+    for (const table of WORKSPACE_TABLES) {
+      await db.query(`
+        ALTER TABLE ${table}
+        ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL
+          DEFAULT '${DEFAULT_WORKSPACE_ID}' REFERENCES workspaces(id) ON DELETE CASCADE;
+        ALTER TABLE ${table} ALTER COLUMN workspace_id DROP DEFAULT;
+      `);
+    }
+
+    for (const table of ['sources', 'source_settings']) {
+      await db.query(`
+        DO $$
+        BEGIN
+          IF (SELECT array_length(conkey, 1) FROM pg_constraint
+              WHERE conname = '${table}_pkey') = 1 THEN
+            ALTER TABLE ${table} DROP CONSTRAINT ${table}_pkey;
+            ALTER TABLE ${table} ADD CONSTRAINT ${table}_pkey PRIMARY KEY (workspace_id, source);
+          END IF;
+        END $$;
+      `);
+    }
+
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS dashboard_chunks_workspace_source_idx
+      ON dashboard_chunks (workspace_id, source);
+      CREATE INDEX IF NOT EXISTS graph_data_workspace_source_idx
+      ON graph_data (workspace_id, source);
+      CREATE INDEX IF NOT EXISTS chat_history_workspace_created_idx
+      ON chat_history (workspace_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS conversations_workspace_updated_idx
+      ON conversations (workspace_id, updated_at DESC);
+      CREATE INDEX IF NOT EXISTS ingest_jobs_workspace_created_idx
+      ON ingest_jobs (workspace_id, created_at DESC);
+    `);
+
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        name TEXT NOT NULL DEFAULT '',
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT[] NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        last_used_at TIMESTAMPTZ,
+        revoked_at TIMESTAMPTZ
+      );
+    `);
+  },
+
+  // Fails (and changes nothing) once two workspaces share a source name
+  async down(db) {
+    await db.query('DROP TABLE IF EXISTS api_keys');
+    for (const table of ['sources', 'source_settings']) {
+      await db.query(`
+        ALTER TABLE ${table} DROP CONSTRAINT ${table}_pkey;
+        ALTER TABLE ${table} ADD CONSTRAINT ${table}_pkey PRIMARY KEY (source);
+      `);
+    }
+    for (const table of WORKSPACE_TABLES) {
+      await db.query(`ALTER TABLE ${table} DROP COLUMN IF EXISTS workspace_id`);
+    }
+    await db.query('DROP TABLE IF EXISTS workspaces');
+  },
+};
@@ -0,0 +1,65 @@
+import { Migration } from '../migrator';
+
+/** Golden question sets and the runs scored against them. */
+export const evalDatasets: Migration = {
+  version: 3,
+  name: 'eval_datasets',
+
+  async up(db) {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS eval_datasets (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        UNIQUE (workspace_id, name)
+      );
+      CREATE TABLE IF NOT EXISTS eval_cases (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        dataset_id UUID NOT NULL REFERENCES eval_datasets(id) ON DELETE CASCADE,
+        position INT NOT NULL,
+        question TEXT NOT NULL,
+        expected_answer TEXT,
+        expected_value DOUBLE PRECISION,
+        expected_chunks JSONB NOT NULL DEFAULT '[]'
+      );
+      CREATE TABLE IF NOT EXISTS eval_runs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        dataset_id UUID NOT NULL REFERENCES eval_datasets(id) ON DELETE CASCADE,
+        status TEXT NOT NULL,
+        config JSONB NOT NULL,
+        metrics JSONB,
+        error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        finished_at TIMESTAMPTZ
+      );
+      CREATE TABLE IF NOT EXISTS eval_results (
+        run_id UUID NOT NULL REFERENCES eval_runs(id) ON DELETE CASCADE,
+        position INT NOT NULL,
+        question TEXT NOT NULL,
+        answer TEXT,
+        retrieved JSONB NOT NULL DEFAULT '[]',
+        recall DOUBLE PRECISION,
+        reciprocal_rank DOUBLE PRECISION,
+        numeric_match BOOLEAN,
+        faithfulness DOUBLE PRECISION,
+        judge_reason TEXT,
+        latency_ms INT NOT NULL,
+        error TEXT,
+        PRIMARY KEY (run_id, position)
+      );
+      CREATE INDEX IF NOT EXISTS eval_cases_dataset_idx
+      ON eval_cases (dataset_id, position);
+    `);
+  },
+
+  async down(db) {
+    await db.query('DROP TABLE IF EXISTS eval_results');
+    await db.query('DROP TABLE IF EXISTS eval_runs');
+    await db.query('DROP TABLE IF EXISTS eval_cases');
+    await db.query('DROP TABLE IF EXISTS eval_datasets');
+  },
+};
@@ -0,0 +1,30 @@
+import { Migration } from '../migrator';
+
+/** What each answer was built from, and what its asker thought of it. */
+export const answerFeedback: Migration = {
+  version: 4,
+  name: 'answer_feedback',
+
+  async up(db) {
+    await db.query(`
+      ALTER TABLE chat_history
+      ADD COLUMN IF NOT EXISTS retrieved JSONB NOT NULL DEFAULT '[]';
+      CREATE TABLE IF NOT EXISTS answer_feedback (
+        chat_history_id UUID PRIMARY KEY REFERENCES chat_history(id) ON DELETE CASCADE,
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        rating TEXT NOT NULL CHECK (rating IN ('up', 'down')),
+        correction TEXT,
+        flagged_chunk_ids UUID[] NOT NULL DEFAULT '{}',
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS answer_feedback_workspace_updated_idx
+      ON answer_feedback (workspace_id, updated_at DESC);
+    `);
+  },
+
+  async down(db) {
+    await db.query('DROP TABLE IF EXISTS answer_feedback');
+    await db.query('ALTER TABLE chat_history DROP COLUMN IF EXISTS retrieved');
+  },
+};
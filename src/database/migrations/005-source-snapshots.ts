@@ -0,0 +1,61 @@
+import { Migration } from '../migrator';
+
+/**
+ * graph_data holds the current version of each source; snapshots keep
+ * every version's tables by reporting date so periods can be compared.
+ */
+export const sourceSnapshots: Migration = {
+  version: 5,
+  name: 'source_snapshots',
+
+  async up(db) {
+    await db.query(`
+      ALTER TABLE ingest_jobs ADD COLUMN IF NOT EXISTS as_of DATE;
+      CREATE TABLE IF NOT EXISTS source_snapshots (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        source TEXT NOT NULL,
+        as_of DATE NOT NULL,
+        ingest_job_id UUID REFERENCES ingest_jobs(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        UNIQUE (workspace_id, source, as_of)
+      );
+      CREATE TABLE IF NOT EXISTS snapshot_tables (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        snapshot_id UUID NOT NULL REFERENCES source_snapshots(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        table_data JSONB NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS snapshot_tables_snapshot_idx
+      ON snapshot_tables (snapshot_id, title);
+    `);
+
+    // Sources ingested before snapshots existed start with one, as of their ingest date
+    await db.query(`
+      WITH missing AS (
+        INSERT INTO source_snapshots (workspace_id, source, as_of, created_at, updated_at)
+        SELECT s.workspace_id, s.source, s.ingested_at::date, s.ingested_at, s.ingested_at
+        FROM sources s
+        WHERE EXISTS (
+          SELECT 1 FROM graph_data g
+          WHERE g.workspace_id = s.workspace_id AND g.source = s.source
+        ) AND NOT EXISTS (
+          SELECT 1 FROM source_snapshots x
+          WHERE x.workspace_id = s.workspace_id AND x.source = s.source
+        )
+        RETURNING id, workspace_id, source
+      )
+      INSERT INTO snapshot_tables (snapshot_id, title, table_data)
+      SELECT m.id, g.title, g.table_data
+      FROM missing m
+      JOIN graph_data g ON g.workspace_id = m.workspace_id AND g.source = m.source;
+    `);
+  },
+
+  async down(db) {
+    await db.query('DROP TABLE IF EXISTS snapshot_tables');
+    await db.query('DROP TABLE IF EXISTS source_snapshots');
+    await db.query('ALTER TABLE ingest_jobs DROP COLUMN IF EXISTS as_of');
+  },
+};
@@ -0,0 +1,19 @@
+import { Migration } from '../migrator';
+
+/** Token usage and stage timings of each answer and ingest job. */
+export const usage: Migration = {
+  version: 6,
+  name: 'usage',
+
+  async up(db) {
+    await db.query(`
+      ALTER TABLE chat_history ADD COLUMN IF NOT EXISTS usage JSONB;
+      ALTER TABLE ingest_jobs ADD COLUMN IF NOT EXISTS usage JSONB;
+    `);
+  },
+
+  async down(db) {
+    await db.query('ALTER TABLE chat_history DROP COLUMN IF EXISTS usage');
+    await db.query('ALTER TABLE ingest_jobs DROP COLUMN IF EXISTS usage');
+  },
+};
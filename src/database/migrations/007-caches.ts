@@ -0,0 +1,45 @@
+import { Migration } from '../migrator';
+
+/**
+ * Embeddings by model and normalized-text hash, shared by all workspaces;
+ * answers to recent questions, per workspace, dropped on every ingest.
+ */
+export const caches: Migration = {
+  version: 7,
+  name: 'caches',
+
+  async up(db) {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS embedding_cache (
+        model TEXT NOT NULL,
+        dimensions INT NOT NULL,
+        text_hash TEXT NOT NULL,
+        embedding vector NOT NULL,
+        hits INT NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        last_used_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY (model, dimensions, text_hash)
+      );
+      CREATE TABLE IF NOT EXISTS answer_cache (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        question TEXT NOT NULL,
+        question_embedding vector NOT NULL,
+        embedding_model TEXT NOT NULL,
+        options_key TEXT NOT NULL,
+        result JSONB NOT NULL,
+        retrieved JSONB NOT NULL DEFAULT '[]',
+        hits INT NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        last_hit_at TIMESTAMPTZ
+      );
+      CREATE INDEX IF NOT EXISTS answer_cache_lookup_idx
+      ON answer_cache (workspace_id, embedding_model, options_key, created_at DESC);
+    `);
+  },
+
+  async down(db) {
+    await db.query('DROP TABLE IF EXISTS answer_cache');
+    await db.query('DROP TABLE IF EXISTS embedding_cache');
+  },
+};
@@ -0,0 +1,43 @@
+import { Migration } from '../migrator';
+
+/**
+ * Records how each per-dimension vector index was built, so it can be
+ * rebuilt once the table outgrows it. The IVFFlat indexes created at boot
+ * were trained on an empty or near-empty table and are dropped; they are
+ * rebuilt by VectorIndexService.
+ */
+export const vectorIndexes: Migration = {
+  version: 8,
+  name: 'vector_indexes',
+
+  async up(db) {
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS vector_indexes (
+        dimensions INT PRIMARY KEY,
+        method TEXT NOT NULL,
+        params JSONB NOT NULL,
+        rows_at_build INT NOT NULL,
+        build_ms INT NOT NULL,
+        built_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+    await db.query(`
+      DO $$
+      DECLARE r record;
+      BEGIN
+        FOR r IN
+          SELECT indexname FROM pg_indexes
+          WHERE tablename = 'dashboard_chunks'
+            AND indexname ~ '^dashboard_chunks_embedding_[0-9]+_idx$'
+            AND indexdef ILIKE '%USING ivfflat%'
+        LOOP
+          EXECUTE format('DROP INDEX %I', r.indexname);
+        END LOOP;
+      END $$;
+    `);
+  },
+
+  async down(db) {
+    await db.query('DROP TABLE IF EXISTS vector_indexes');
+  },
+};
@@ -0,0 +1,24 @@
+import { Migration } from '../migrator';
+
+/**
+ * Which instance is running each ingest job and when it last checked in,
+ * so a restarting instance only fails jobs it owned or that went silent.
+ */
+export const ingestJobOwners: Migration = {
+  version: 9,
+  name: 'ingest_job_owners',
+
+  async up(db) {
+    await db.query(`
+      ALTER TABLE ingest_jobs ADD COLUMN IF NOT EXISTS owner TEXT;
+      ALTER TABLE ingest_jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+    `);
+  },
+
+  async down(db) {
+    await db.query('ALTER TABLE ingest_jobs DROP COLUMN IF EXISTS owner');
+    await db.query(
+      'ALTER TABLE ingest_jobs DROP COLUMN IF EXISTS heartbeat_at',
+    );
+  },
+};
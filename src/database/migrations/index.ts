@@ -0,0 +1,26 @@
+import { Migration } from '../migrator';
+import { initial } from './001-initial';
+import { workspaces } from './002-workspaces';
+import { evalDatasets } from './003-eval-datasets';
+import { answerFeedback } from './004-answer-feedback';
+import { sourceSnapshots } from './005-source-snapshots';
+import { usage } from './006-usage';
+import { caches } from './007-caches';
+import { vectorIndexes } from './008-vector-indexes';
+import { ingestJobOwners } from './009-ingest-job-owners';
+
+/**
+ * Every schema change, oldest first. Add new ones at the end with the next
+ * version number; never edit or renumber one that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  initial,
+  workspaces,
+  evalDatasets,
+  answerFeedback,
+  sourceSnapshots,
+  usage,
+  caches,
+  vectorIndexes,
+  ingestJobOwners,
+];
@@ -0,0 +1,159 @@
+import {
+  AppliedMigration,
+  assertMigrationOrder,
+  Migration,
+  migrationStatus,
+  Migrator,
+  planMigrations,
+  SqlClient,
+} from './migrator';
+
+describe('migrator', () => {
+  const migration = (version: number, name: string): Migration => ({
+    version,
+    name,
+    up: (db) => db.query(`CREATE ${name}`).then(() => undefined),
+    down: (db) => db.query(`DROP ${name}`).then(() => undefined),
+  });
+  const migrations = [
+    migration(1, 'initial'),
+    migration(2, 'workspaces'),
+    migration(3, 'caches'),
+  ];
+  const applied = (...versions: number[]): AppliedMigration[] =>
+    versions.map((v) => ({
+      version: v,
+      name: migrations[v - 1].name,
+      applied_at: '2026-01-01T00:00:00Z',
+    }));
+  const versions = (steps: Migration[]) => steps.map((m) => m.version);
+
+  it('rejects duplicate or unordered versions', () => {
+    expect(() => assertMigrationOrder(migrations)).not.toThrow();
+    expect(() =>
+      assertMigrationOrder([migration(2, 'b'), migration(1, 'a')]),
+    ).toThrow(/out of order/);
+    expect(() => assertMigrationOrder([migration(0, 'a')])).toThrow(
+      /invalid version/,
+    );
+  });
+
+  it('reports current, latest and pending versions', () => {
+    const status = migrationStatus(migrations, applied(1));
+    expect(status.current).toBe(1);
+    expect(status.latest).toBe(3);
+    expect(status.pending.map((p) => p.version)).toEqual([2, 3]);
+    expect(migrationStatus(migrations, []).current).toBe(0);
+  });
+
+  it('refuses a ledger written by another build', () => {
+    expect(() =>
+      migrationStatus(migrations, [
+        ...applied(1, 2, 3),
+        { version: 4, name: 'future', applied_at: '' },
+      ]),
+    ).toThrow(/does not know/);
+    expect(() =>
+      migrationStatus(migrations, [
+        { version: 1, name: 'renamed', applied_at: '' },
+      ]),
+    ).toThrow(/recorded as "renamed"/);
+  });
+
+  it('plans up in ascending and down in descending order', () => {
+    const up = planMigrations(migrations, applied(1), Infinity);
+    expect(up.direction).toBe('up');
+    expect(versions(up.steps)).toEqual([2, 3]);
+    expect(versions(planMigrations(migrations, applied(1), 2).steps)).toEqual([
+      2,
+    ]);
+
+    const down = planMigrations(migrations, applied(1, 2, 3), 1);
+    expect(down.direction).toBe('down');
+    expect(versions(down.steps)).toEqual([3, 2]);
+  });
+
+  describe('Migrator', () => {
+    // Records statements; the ledger is the only state it keeps
+    function fakeDb(ledger: AppliedMigration[], failOn?: string) {
+      const log: string[] = [];
+      const client: SqlClient & { release(): void } = {
+        query: <T>(text: string, params?: unknown[]) => {
+          const sql = text.trim().split(/\s+/).slice(0, 2).join(' ');
+          log.push(sql);
+          if (sql === failOn) return Promise.reject(new Error('boom'));
+          if (sql.startsWith('SELECT version')) {
+            return Promise.resolve({ rows: [...ledger] as T[] });
+          }
+          if (sql.startsWith('INSERT INTO')) {
+            ledger.push({
+              version: params![0] as number,
+              name: params![1] as string,
+              applied_at: '',
+            });
+          }
+          if (sql.startsWith('DELETE FROM')) {
+            ledger.splice(
+              ledger.findIndex((m) => m.version === params![0]),
+              1,
+            );
+          }
+          return Promise.resolve({ rows: [] as T[] });
+        },
+        release: () => log.push('release'),
+      };
+      return { client, log };
+    }
+
+    it('applies each migration in its own transaction under the lock', async () => {
+      const ledger = applied(1);
+      const { client, log } = fakeDb(ledger);
+      const status = await new Migrator(
+        () => Promise.resolve(client),
+        migrations,
+      ).up();
+
+      expect(status.current).toBe(3);
+      expect(log[0]).toBe('SELECT pg_advisory_lock(hashtext($1))');
+      expect(log.filter((l) => !l.startsWith('SELECT'))).toEqual([
+        'CREATE TABLE',
+        'BEGIN',
+        'CREATE workspaces',
+        'INSERT INTO',
+        'COMMIT',
+        'BEGIN',
+        'CREATE caches',
+        'INSERT INTO',
+        'COMMIT',
+        'release',
+      ]);
+      expect(log[log.length - 2]).toBe(
+        'SELECT pg_advisory_unlock(hashtext($1))',
+      );
+    });
+
+    it('rolls back a failing migration and still unlocks', async () => {
+      const ledger = applied(1, 2, 3);
+      const { client, log } = fakeDb(ledger, 'DROP workspaces');
+      const migrator = new Migrator(() => Promise.resolve(client), migrations);
+
+      await expect(migrator.down(1)).rejects.toThrow('boom');
+      expect(ledger.map((m) => m.version)).toEqual([1, 2]);
+      expect(log).toContain('ROLLBACK');
+      expect(log.slice(-2)).toEqual([
+        'SELECT pg_advisory_unlock(hashtext($1))',
+        'release',
+      ]);
+    });
+
+    it('fails fast when the database is behind', async () => {
+      const { client } = fakeDb(applied(1));
+      await expect(
+        new Migrator(
+          () => Promise.resolve(client),
+          migrations,
+        ).assertUpToDate(),
+      ).rejects.toThrow(/version 1 but this build needs 3/);
+    });
+  });
+});
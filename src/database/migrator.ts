@@ -0,0 +1,231 @@
+/** The subset of a pg client migrations use. */
+export interface SqlClient {
+  query<T = unknown>(text: string, params?: unknown[]): Promise<{ rows: T[] }>;
+}
+
+/**
+ * One numbered schema change. `up` and `down` run inside a transaction
+ * together with the ledger update, so a failing migration leaves no trace.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: SqlClient): Promise<void>;
+  down(db: SqlClient): Promise<void>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  /** Highest applied version, 0 for an empty database. */
+  current: number;
+  /** Highest version this build knows. */
+  latest: number;
+  applied: AppliedMigration[];
+  pending: Array<{ version: number; name: string }>;
+}
+
+export interface MigrationPlan {
+  direction: 'up' | 'down';
+  steps: Migration[];
+}
+
+// Session-level advisory lock held while migrating; any constant works as
+// long as every instance uses the same one
+const LOCK_KEY = 'schema_migrations';
+
+/** Versions must be unique, positive and in ascending order. */
+export function assertMigrationOrder(migrations: Migration[]): void {
+  migrations.forEach((m, i) => {
+    if (!Number.isInteger(m.version) || m.version <= 0) {
+      throw new Error(`Migration ${m.name} has invalid version ${m.version}`);
+    }
+    if (i > 0 && m.version <= migrations[i - 1].version) {
+      throw new Error(
+        `Migration ${m.version} (${m.name}) is out of order after ${migrations[i - 1].version}`,
+      );
+    }
+  });
+}
+
+/**
+ * Compares the ledger with the migrations this build knows. A recorded
+ * version with a different name means the files were renumbered; a
+ * recorded version this build does not know means the database was
+ * migrated by a newer build. Both refuse to plan anything.
+ */
+export function migrationStatus(
+  migrations: Migration[],
+  applied: AppliedMigration[],
+): MigrationStatus {
+  const known = new Map(migrations.map((m) => [m.version, m]));
+  for (const row of applied) {
+    const migration = known.get(row.version);
+    if (!migration) {
+      throw new Error(
+        `Database has migration ${row.version} (${row.name}) that this build does not know; ` +
+          'deploy a newer build or migrate down with it first',
+      );
+    }
+    if (migration.name !== row.name) {
+      throw new Error(
+        `Migration ${row.version} is recorded as "${row.name}" but this build calls it "${migration.name}"`,
+      );
+    }
+  }
+  const done = new Set(applied.map((a) => a.version));
+  return {
+    current: Math.max(0, ...applied.map((a) => a.version)),
+    latest: Math.max(0, ...migrations.map((m) => m.version)),
+    applied,
+    pending: migrations
+      .filter((m) => !done.has(m.version))
+      .map(({ version, name }) => ({ version, name })),
+  };
+}
+
+/**
+ * Migrations to run to reach `target`: pending ones up to it in ascending
+ * order, or applied ones above it in descending order.
+ */
+export function planMigrations(
+  migrations: Migration[],
+  applied: AppliedMigration[],
+  target: number,
+): MigrationPlan {
+  const status = migrationStatus(migrations, applied);
+  const done = new Set(applied.map((a) => a.version));
+  if (target >= status.current) {
+    return {
+      direction: 'up',
+      steps: migrations.filter(
+        (m) => !done.has(m.version) && m.version <= target,
+      ),
+    };
+  }
+  return {
+    direction: 'down',
+    steps: migrations
+      .filter((m) => done.has(m.version) && m.version > target)
+      .reverse(),
+  };
+}
+
+/**
+ * Applies and reverts migrations, recording them in `schema_migrations`.
+ * Every operation holds an advisory lock, so instances booting together
+ * migrate one after the other and the later ones find nothing to do.
+ */
+export class Migrator {
+  constructor(
+    private readonly connect: () => Promise<SqlClient & { release(): void }>,
+    private readonly migrations: Migration[],
+    private readonly log: (message: string) => void = () => undefined,
+  ) {
+    assertMigrationOrder(migrations);
+  }
+
+  async status(): Promise<MigrationStatus> {
+    return this.locked(async (db) =>
+      migrationStatus(this.migrations, await this.applied(db)),
+    );
+  }
+
+  /** Applies pending migrations up to `target` (default: all). */
+  async up(target = Infinity): Promise<MigrationStatus> {
+    return this.run((applied) =>
+      planMigrations(this.migrations, applied, target),
+    );
+  }
+
+  /** Reverts applied migrations above `target`. */
+  async down(target: number): Promise<MigrationStatus> {
+    return this.run((applied) => {
+      const plan = planMigrations(this.migrations, applied, target);
+      return plan.direction === 'down'
+        ? plan
+        : { direction: 'down', steps: [] };
+    });
+  }
+
+  /**
+   * Fails when the database is behind this build, for instances that do
+   * not migrate on boot.
+   */
+  async assertUpToDate(): Promise<MigrationStatus> {
+    const status = await this.status();
+    if (status.pending.length > 0) {
+      throw new Error(
+        `Database schema is at version ${status.current} but this build needs ${status.latest} ` +
+          `(pending: ${status.pending.map((p) => `${p.version}-${p.name}`).join(', ')}); ` +
+          'run `npm run migrate -- up` or set MIGRATE_ON_BOOT=true',
+      );
+    }
+    return status;
+  }
+
+  private async run(
+    plan: (applied: AppliedMigration[]) => MigrationPlan,
+  ): Promise<MigrationStatus> {
+    return this.locked(async (db) => {
+      const { direction, steps } = plan(await this.applied(db));
+      for (const migration of steps) {
+        this.log(
+          `Migrating ${direction}: ${migration.version}-${migration.name}`,
+        );
+        await db.query('BEGIN');
+        try {
+          if (direction === 'up') {
+            await migration.up(db);
+            await db.query(
+              'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+              [migration.version, migration.name],
+            );
+          } else {
+            await migration.down(db);
+            await db.query('DELETE FROM schema_migrations WHERE version = $1', [
+              migration.version,
+            ]);
+          }
+          await db.query('COMMIT');
+        } catch (err) {
+          await db.query('ROLLBACK');
+          throw err;
+        }
+      }
+      return migrationStatus(this.migrations, await this.applied(db));
+    });
+  }
+
+  private async locked<T>(fn: (db: SqlClient) => Promise<T>): Promise<T> {
+    const db = await this.connect();
+    try {
+      await db.query('SELECT pg_advisory_lock(hashtext($1))', [LOCK_KEY]);
+      try {
+        await db.query(`
+          CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INT PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+          );
+        `);
+        return await fn(db);
+      } finally {
+        await db.query('SELECT pg_advisory_unlock(hashtext($1))', [LOCK_KEY]);
+      }
+    } finally {
+      db.release();
+    }
+  }
+
+  private async applied(db: SqlClient): Promise<AppliedMigration[]> {
+    const { rows } = await db.query<AppliedMigration>(
+      'SELECT version, name, applied_at FROM schema_migrations ORDER BY version',
+    );
+    return rows;
+  }
+}
@@ -0,0 +1,105 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { MAX_K, MAX_QUESTION_LENGTH } from '../../rag/dto/query.dto';
+import { Judge, JUDGES } from '../eval.types';
+
+/** Each set field must match; an empty object matches any chunk. */
+export class ExpectedChunkDto {
+  @IsOptional()
+  @IsUUID()
+  chunkId?: string;
+
+  @IsOptional()
+  @IsString()
+  source?: string;
+
+  @IsOptional()
+  @IsString()
+  sheet?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  row?: number;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  contains?: string;
+}
+
+export class EvalCaseDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_QUESTION_LENGTH)
+  question: string;
+
+  @IsOptional()
+  @IsString()
+  expectedAnswer?: string;
+
+  @IsOptional()
+  @IsNumber()
+  expectedValue?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExpectedChunkDto)
+  expectedChunks?: ExpectedChunkDto[];
+}
+
+export class CreateEvalDatasetDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => EvalCaseDto)
+  cases: EvalCaseDto[];
+}
+
+export class RunEvalDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_K)
+  k?: number;
+
+  @IsOptional()
+  @IsIn(JUDGES)
+  judge?: Judge;
+}
+
+export class ListEvalRunsDto {
+  @IsOptional()
+  @IsUUID()
+  datasetId?: string;
+}
+
+export class EvalDiffQueryDto {
+  @IsUUID()
+  base: string;
+}
@@ -0,0 +1,105 @@
+import {
+  diffRuns,
+  lexicalFaithfulness,
+  numericMatch,
+  recallAtK,
+  reciprocalRank,
+  regressions,
+  summarize,
+  validateJudgeVerdict,
+} from './eval-metrics';
+import { EvalCaseResult, RetrievedRef } from './eval.types';
+
+describe('eval metrics', () => {
+  const chunk = (id: string, rowStart: number, content: string) =>
+    ({
+      id,
+      content,
+      source: 'risk.xlsx',
+      sheet: 'Risk',
+      kind: 'row',
+      column: null,
+      rowStart,
+      rowEnd: rowStart + 9,
+    }) as RetrievedRef;
+  const retrieved = [
+    chunk('a', 2, 'SEC1 | USD | 1.2%'),
+    chunk('b', 12, 'SEC15 | EUR | 30.8%'),
+    chunk('c', 22, 'SEC25 | USD | 0.4%'),
+  ];
+
+  it('scores recall@k and reciprocal rank by chunk matchers', () => {
+    const expected = [{ source: 'risk.xlsx', row: 15 }, { contains: 'sec25' }];
+    expect(recallAtK(retrieved, expected, 2)).toBe(0.5);
+    expect(recallAtK(retrieved, expected, 3)).toBe(1);
+    expect(reciprocalRank(retrieved, expected)).toBe(0.5);
+    expect(reciprocalRank(retrieved, [{ sheet: 'Other' }])).toBe(0);
+    expect(recallAtK(retrieved, [], 3)).toBeNull();
+  });
+
+  it('matches numbers at the expected precision', () => {
+    expect(numericMatch('SEC15 contributes 30.83% of risk', 30.8)).toBe(true);
+    expect(numericMatch('Total exposure is 1,200 USD', 1200)).toBe(true);
+    expect(numericMatch('About 31%', 30.8)).toBe(false);
+    expect(numericMatch('anything', null)).toBeNull();
+  });
+
+  it('measures lexical support of the answer in the contexts', () => {
+    const contexts = retrieved.map((r) => r.content);
+    expect(lexicalFaithfulness('SEC15 is 30.8%', contexts)).toBe(1);
+    expect(lexicalFaithfulness('SEC99 is 12%', contexts)).toBe(0);
+    expect(lexicalFaithfulness('', contexts)).toBeNull();
+  });
+
+  it('validates judge verdicts', () => {
+    expect(validateJudgeVerdict({ score: 0.5, reason: 'partly' })).toEqual({
+      score: 0.5,
+      reason: 'partly',
+    });
+    expect(() => validateJudgeVerdict({})).toThrow('score');
+    expect(() => validateJudgeVerdict({ score: 2 })).toThrow('score');
+  });
+
+  it('diffs runs and flags regressions beyond the tolerance', () => {
+    const result = (
+      question: string,
+      recall: number,
+      error: string | null = null,
+    ): EvalCaseResult => ({
+      position: 1,
+      question,
+      answer: `answer to ${question}`,
+      retrieved: [],
+      recall,
+      reciprocal_rank: recall,
+      numeric_match: null,
+      faithfulness: null,
+      judge_reason: null,
+      latency_ms: 10,
+      error,
+    });
+    const baseResults = [result('q1', 1), result('q2', 1)];
+    const headResults = [result('q1', 1), result('q2', 0.5), result('q3', 0)];
+    const base = {
+      id: 'base',
+      metrics: summarize(baseResults),
+      results: baseResults,
+    };
+    const head = {
+      id: 'head',
+      metrics: summarize(headResults),
+      results: headResults,
+    };
+
+    const diff = diffRuns(base, head);
+    expect(diff.metrics.recallAtK).toEqual({ base: 1, head: 0.5, delta: -0.5 });
+    expect(diff.metrics.numericExactMatch.delta).toBeNull();
+    expect(diff.cases.map((c) => c.question)).toEqual(['q2']);
+    expect(diff.added).toEqual(['q3']);
+    expect(regressions(diff)).toEqual(['recallAtK', 'mrr']);
+    expect(regressions(diff, 0.6)).toEqual([]);
+
+    const failed = summarize([result('q1', 1), result('q2', 0, 'boom')]);
+    expect(failed).toMatchObject({ cases: 2, errors: 1, recallAtK: 1 });
+  });
+});
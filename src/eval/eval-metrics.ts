@@ -0,0 +1,248 @@
+import {
+  EvalCaseResult,
+  EvalMetrics,
+  EvalRunDiff,
+  ExpectedChunk,
+  METRIC_NAMES,
+  MetricDelta,
+  MetricName,
+  RetrievedRef,
+} from './eval.types';
+
+export function matchesExpected(
+  chunk: RetrievedRef,
+  expected: ExpectedChunk,
+): boolean {
+  if (expected.chunkId !== undefined && chunk.id !== expected.chunkId) {
+    return false;
+  }
+  if (expected.source !== undefined && chunk.source !== expected.source) {
+    return false;
+  }
+  if (expected.sheet !== undefined && chunk.sheet !== expected.sheet) {
+    return false;
+  }
+  if (expected.row !== undefined) {
+    if (chunk.rowStart === null) return false;
+    const end = chunk.rowEnd ?? chunk.rowStart;
+    if (expected.row < chunk.rowStart || expected.row > end) return false;
+  }
+  if (
+    expected.contains !== undefined &&
+    !chunk.content.toLowerCase().includes(expected.contains.toLowerCase())
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/** Share of the expected chunks found in the top k; null if none expected. */
+export function recallAtK(
+  retrieved: RetrievedRef[],
+  expected: ExpectedChunk[],
+  k: number,
+): number | null {
+  if (expected.length === 0) return null;
+  const top = retrieved.slice(0, k);
+  const found = expected.filter((e) => top.some((c) => matchesExpected(c, e)));
+  return found.length / expected.length;
+}
+
+/** 1/rank of the first relevant chunk, 0 if none was retrieved. */
+export function reciprocalRank(
+  retrieved: RetrievedRef[],
+  expected: ExpectedChunk[],
+): number | null {
+  if (expected.length === 0) return null;
+  const rank = retrieved.findIndex((c) =>
+    expected.some((e) => matchesExpected(c, e)),
+  );
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+/** Numbers as written in an answer: "1,200.50", "-3", "30.8%" -> 30.8. */
+export function extractNumbers(text: string): number[] {
+  return Array.from(text.matchAll(/-?\d[\d,]*(?:\.\d+)?/g), ([n]) =>
+    Number(n.replace(/,/g, '')),
+  ).filter((n) => Number.isFinite(n));
+}
+
+function decimals(value: number): number {
+  const [, fraction = ''] = String(value).split('.');
+  return fraction.length;
+}
+
+/**
+ * True when any number in the answer equals the expected value at the
+ * expected value's precision (30.8 matches "30.80%" and "30.83").
+ */
+export function numericMatch(
+  answer: string,
+  expected: number | null,
+): boolean | null {
+  if (expected === null) return null;
+  const places = decimals(expected);
+  const round = (n: number) => Number(n.toFixed(places));
+  return extractNumbers(answer).some((n) => round(n) === round(expected));
+}
+
+const FILLER_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'that',
+  'this',
+  'are',
+  'was',
+  'were',
+  'has',
+  'have',
+  'from',
+  'which',
+  'their',
+  'its',
+  'not',
+  'based',
+  'context',
+  'provided',
+]);
+
+function contentTokens(text: string): string[] {
+  const numbers = extractNumbers(text).map(String);
+  const words = (text.toLowerCase().match(/[a-z][a-z0-9]{2,}/g) ?? []).filter(
+    (w) => !FILLER_WORDS.has(w),
+  );
+  return [...numbers, ...words];
+}
+
+/**
+ * Network-free faithfulness proxy: the share of the answer's numbers and
+ * content words that also occur in the contexts. Null for empty answers.
+ */
+export function lexicalFaithfulness(
+  answer: string,
+  contexts: string[],
+): number | null {
+  const tokens = contentTokens(answer);
+  if (tokens.length === 0) return null;
+  const supported = new Set(contentTokens(contexts.join('\n')));
+  return tokens.filter((t) => supported.has(t)).length / tokens.length;
+}
+
+/** Checks an LLM judge's JSON verdict; throws describing the problem. */
+export function validateJudgeVerdict(raw: unknown): {
+  score: number;
+  reason: string;
+} {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Verdict is not an object');
+  }
+  const { score, reason } = raw as Record<string, unknown>;
+  if (typeof score !== 'number' || score < 0 || score > 1) {
+    throw new Error('score must be a number between 0 and 1');
+  }
+  return { score, reason: typeof reason === 'string' ? reason : '' };
+}
+
+function mean(values: Array<number | null>): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length === 0) return null;
+  return present.reduce((acc, v) => acc + v, 0) / present.length;
+}
+
+function caseMetric(result: EvalCaseResult, name: MetricName): number | null {
+  switch (name) {
+    case 'recallAtK':
+      return result.recall;
+    case 'mrr':
+      return result.reciprocal_rank;
+    case 'numericExactMatch':
+      return result.numeric_match === null
+        ? null
+        : Number(result.numeric_match);
+    case 'faithfulness':
+      return result.faithfulness;
+  }
+}
+
+export function summarize(results: EvalCaseResult[]): EvalMetrics {
+  const scored = results.filter((r) => r.error === null);
+  return {
+    cases: results.length,
+    errors: results.length - scored.length,
+    recallAtK: mean(scored.map((r) => caseMetric(r, 'recallAtK'))),
+    mrr: mean(scored.map((r) => caseMetric(r, 'mrr'))),
+    numericExactMatch: mean(
+      scored.map((r) => caseMetric(r, 'numericExactMatch')),
+    ),
+    faithfulness: mean(scored.map((r) => caseMetric(r, 'faithfulness'))),
+  };
+}
+
+function delta(base: number | null, head: number | null): MetricDelta {
+  return {
+    base,
+    head,
+    delta: base === null || head === null ? null : head - base,
+  };
+}
+
+export function diffRuns(
+  base: { id: string; metrics: EvalMetrics; results: EvalCaseResult[] },
+  head: { id: string; metrics: EvalMetrics; results: EvalCaseResult[] },
+): EvalRunDiff {
+  const baseByQuestion = new Map(base.results.map((r) => [r.question, r]));
+  const headQuestions = new Set(head.results.map((r) => r.question));
+
+  const cases: EvalRunDiff['cases'] = [];
+  for (const headResult of head.results) {
+    const baseResult = baseByQuestion.get(headResult.question);
+    if (!baseResult) continue;
+    const changes: Partial<Record<MetricName, MetricDelta>> = {};
+    for (const name of METRIC_NAMES) {
+      const d = delta(
+        caseMetric(baseResult, name),
+        caseMetric(headResult, name),
+      );
+      if (d.base !== d.head) changes[name] = d;
+    }
+    if (Object.keys(changes).length > 0) {
+      cases.push({
+        question: headResult.question,
+        changes,
+        baseAnswer: baseResult.answer,
+        headAnswer: headResult.answer,
+      });
+    }
+  }
+
+  return {
+    base: base.id,
+    head: head.id,
+    metrics: Object.fromEntries(
+      METRIC_NAMES.map((name) => [
+        name,
+        delta(base.metrics[name], head.metrics[name]),
+      ]),
+    ) as Record<MetricName, MetricDelta>,
+    cases,
+    added: head.results
+      .filter((r) => !baseByQuestion.has(r.question))
+      .map((r) => r.question),
+    removed: base.results
+      .filter((r) => !headQuestions.has(r.question))
+      .map((r) => r.question),
+  };
+}
+
+/** Metrics that dropped by more than `tolerance` (all are higher-is-better). */
+export function regressions(
+  diff: EvalRunDiff,
+  tolerance: number = 0,
+): MetricName[] {
+  return METRIC_NAMES.filter((name) => {
+    const d = diff.metrics[name].delta;
+    return d !== null && d < -tolerance;
+  });
+}
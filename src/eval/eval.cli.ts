@@ -0,0 +1,124 @@
+/**
+ * Runs a golden dataset against a running server and prints the metrics.
+ *
+ *   npm run eval -- <dataset.json> [--k 5] [--judge llm|lexical]
+ *                   [--baseline <runId>] [--tolerance 0.02]
+ *
+ * The dataset file has the body of POST /eval/datasets. With --baseline the
+ * run is diffed against that run and the process exits 1 if any metric
+ * dropped by more than the tolerance, so CI can gate on it. The server is
+ * EVAL_API_URL (default http://localhost:3000/api) and EVAL_API_KEY must be
+ * an admin key for the workspace holding the indexed sources.
+ */
+import { readFileSync } from 'fs';
+import { regressions } from './eval-metrics';
+import {
+  EvalCaseResult,
+  EvalDataset,
+  EvalRun,
+  EvalRunDiff,
+  METRIC_NAMES,
+} from './eval.types';
+
+function parseArgs(argv: string[]): {
+  file: string;
+  options: Record<string, string>;
+} {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options[argv[i].slice(2)] = argv[++i] ?? '';
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  if (positional.length !== 1) {
+    throw new Error(
+      'Usage: npm run eval -- <dataset.json> [--k n] [--judge llm|lexical] [--baseline runId] [--tolerance x]',
+    );
+  }
+  return { file: positional[0], options };
+}
+
+async function api<T>(method: string, path: string, body?: unknown) {
+  const base = process.env.EVAL_API_URL ?? 'http://localhost:3000/api';
+  const res = await fetch(`${base}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${process.env.EVAL_API_KEY ?? ''}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    throw new Error(
+      `${method} ${path} failed (${res.status}): ${await res.text()}`,
+    );
+  }
+  return (await res.json()) as T;
+}
+
+function format(value: number | null): string {
+  return value === null ? '-' : value.toFixed(3);
+}
+
+async function main(): Promise<number> {
+  const { file, options } = parseArgs(process.argv.slice(2));
+  const dataset = await api<EvalDataset>(
+    'POST',
+    '/eval/datasets',
+    JSON.parse(readFileSync(file, 'utf8')),
+  );
+  const run = await api<EvalRun & { results: EvalCaseResult[] }>(
+    'POST',
+    `/eval/datasets/${dataset.id}/runs`,
+    {
+      ...(options.k ? { k: Number(options.k) } : {}),
+      ...(options.judge ? { judge: options.judge } : {}),
+    },
+  );
+
+  console.log(`Run ${run.id} on "${dataset.name}": ${run.status}`);
+  if (run.status !== 'completed' || !run.metrics) {
+    console.error(run.error ?? 'Run did not complete');
+    return 1;
+  }
+  console.log(
+    `  cases      ${run.metrics.cases} (${run.metrics.errors} errors)`,
+  );
+  for (const name of METRIC_NAMES) {
+    console.log(`  ${name.padEnd(18)} ${format(run.metrics[name])}`);
+  }
+  for (const result of run.results.filter((r) => r.error !== null)) {
+    console.error(`  ! ${result.question}: ${result.error}`);
+  }
+
+  if (!options.baseline) return 0;
+  const diff = await api<EvalRunDiff>(
+    'GET',
+    `/eval/runs/${run.id}/diff?base=${options.baseline}`,
+  );
+  console.log(`\nAgainst ${diff.base}:`);
+  for (const name of METRIC_NAMES) {
+    const { base, head, delta } = diff.metrics[name];
+    const sign = delta !== null && delta > 0 ? '+' : '';
+    console.log(
+      `  ${name.padEnd(18)} ${format(base)} -> ${format(head)} (${sign}${format(delta)})`,
+    );
+  }
+  const failed = regressions(diff, Number(options.tolerance ?? 0));
+  if (failed.length > 0) {
+    console.error(`\nRegressed: ${failed.join(', ')}`);
+    return 1;
+  }
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err: unknown) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,92 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RequireScopes, WorkspaceId } from '../auth/auth.decorators';
+import {
+  CreateEvalDatasetDto,
+  EvalDiffQueryDto,
+  ListEvalRunsDto,
+  RunEvalDto,
+} from './dto/eval.dto';
+import { EvalService } from './eval.service';
+
+@Controller('eval')
+export class EvalController {
+  constructor(private readonly evals: EvalService) {}
+
+  /** Creates a dataset, or replaces the cases of one with the same name. */
+  @Post('datasets')
+  @RequireScopes('admin')
+  async saveDataset(
+    @WorkspaceId() workspaceId: string,
+    @Body() body: CreateEvalDatasetDto,
+  ) {
+    return this.evals.saveDataset(workspaceId, body);
+  }
+
+  @Get('datasets')
+  async listDatasets(@WorkspaceId() workspaceId: string) {
+    return this.evals.listDatasets(workspaceId);
+  }
+
+  @Get('datasets/:id')
+  async getDataset(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.evals.getDataset(workspaceId, id);
+  }
+
+  @Delete('datasets/:id')
+  @RequireScopes('admin')
+  async deleteDataset(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.evals.deleteDataset(workspaceId, id);
+  }
+
+  /** Runs the dataset to completion and returns the scored run. */
+  @Post('datasets/:id/runs')
+  @RequireScopes('admin')
+  async run(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: RunEvalDto,
+  ) {
+    return this.evals.run(workspaceId, id, body);
+  }
+
+  @Get('runs')
+  async listRuns(
+    @WorkspaceId() workspaceId: string,
+    @Query() query: ListEvalRunsDto,
+  ) {
+    return this.evals.listRuns(workspaceId, query.datasetId);
+  }
+
+  @Get('runs/:id')
+  async getRun(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.evals.getRun(workspaceId, id);
+  }
+
+  /** Compares this run against `?base=<runId>`. */
+  @Get('runs/:id/diff')
+  async diff(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: EvalDiffQueryDto,
+  ) {
+    return this.evals.diff(workspaceId, id, query.base);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { RagModule } from '../rag/rag.module';
+import { EvalController } from './eval.controller';
+import { EvalService } from './eval.service';
+
+@Module({
+  imports: [DatabaseModule, RagModule],
+  controllers: [EvalController],
+  providers: [EvalService],
+})
+export class EvalModule {}
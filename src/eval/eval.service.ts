@@ -0,0 +1,402 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../database/database.service';
+import {
+  CHAT_PROVIDER,
+  ChatProvider,
+  EMBEDDING_PROVIDER,
+  EmbeddingProvider,
+} from '../llm/llm.types';
+import { RagService } from '../rag/rag.service';
+import { QueryResult } from '../rag/rag.types';
+import {
+  diffRuns,
+  lexicalFaithfulness,
+  numericMatch,
+  reciprocalRank,
+  recallAtK,
+  summarize,
+  validateJudgeVerdict,
+} from './eval-metrics';
+import {
+  EvalCase,
+  EvalCaseResult,
+  EvalDataset,
+  EvalRun,
+  EvalRunDiff,
+  ExpectedChunk,
+  Judge,
+  JUDGES,
+  RetrievedRef,
+} from './eval.types';
+
+const RUN_COLUMNS = `id, dataset_id, status, config, metrics, error,
+  created_at, finished_at`;
+const RESULT_COLUMNS = `position, question, answer, retrieved, recall,
+  reciprocal_rank, numeric_match, faithfulness, judge_reason, latency_ms, error`;
+
+/**
+ * Golden question sets and the runs that score the live pipeline against
+ * them. Runs go through RagService.query exactly like user questions (but
+ * leave no chat history), so prompt and retrieval changes show up in the
+ * metrics.
+ */
+@Injectable()
+export class EvalService {
+  private readonly logger = new Logger(EvalService.name);
+  private readonly defaultJudge: Judge;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly rag: RagService,
+    @Inject(CHAT_PROVIDER) private readonly chat: ChatProvider,
+    @Inject(EMBEDDING_PROVIDER) private readonly embedder: EmbeddingProvider,
+    config: ConfigService,
+  ) {
+    const judge = config.get<string>('EVAL_JUDGE') ?? 'llm';
+    if (!JUDGES.includes(judge as Judge)) {
+      throw new Error(`EVAL_JUDGE must be one of: ${JUDGES.join(', ')}`);
+    }
+    this.defaultJudge = judge as Judge;
+  }
+
+  /** Creates a dataset, or replaces the cases of the one with this name. */
+  async saveDataset(
+    workspaceId: string,
+    dataset: {
+      name: string;
+      description?: string;
+      cases: Array<{
+        question: string;
+        expectedAnswer?: string;
+        expectedValue?: number;
+        expectedChunks?: ExpectedChunk[];
+      }>;
+    },
+  ): Promise<EvalDataset & { cases: EvalCase[] }> {
+    const id = await this.db.transaction(async () => {
+      const { rows } = await this.db.query<{ id: string }>(
+        `INSERT INTO eval_datasets (workspace_id, name, description)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (workspace_id, name) DO UPDATE
+         SET description = EXCLUDED.description, updated_at = now()
+         RETURNING id`,
+        [workspaceId, dataset.name, dataset.description ?? ''],
+      );
+      const datasetId = rows[0].id;
+      await this.db.query('DELETE FROM eval_cases WHERE dataset_id = $1', [
+        datasetId,
+      ]);
+      await this.db.query(
+        `INSERT INTO eval_cases
+           (dataset_id, position, question, expected_answer, expected_value, expected_chunks)
+         SELECT $1, ord, question, expected_answer, expected_value, expected_chunks
+         FROM unnest($2::text[], $3::text[], $4::float8[], $5::jsonb[])
+           WITH ORDINALITY AS c(question, expected_answer, expected_value, expected_chunks, ord)`,
+        [
+          datasetId,
+          dataset.cases.map((c) => c.question),
+          dataset.cases.map((c) => c.expectedAnswer ?? null),
+          dataset.cases.map((c) => c.expectedValue ?? null),
+          dataset.cases.map((c) => JSON.stringify(c.expectedChunks ?? [])),
+        ],
+      );
+      return datasetId;
+    });
+    return this.getDataset(workspaceId, id);
+  }
+
+  async listDatasets(
+    workspaceId: string,
+  ): Promise<{ datasets: EvalDataset[] }> {
+    const { rows } = await this.db.query<EvalDataset>(
+      `SELECT d.id, d.name, d.description, d.created_at, d.updated_at,
+              (SELECT COUNT(*)::int FROM eval_cases c WHERE c.dataset_id = d.id) AS case_count
+       FROM eval_datasets d
+       WHERE d.workspace_id = $1
+       ORDER BY d.name`,
+      [workspaceId],
+    );
+    return { datasets: rows };
+  }
+
+  async getDataset(
+    workspaceId: string,
+    id: string,
+  ): Promise<EvalDataset & { cases: EvalCase[] }> {
+    const { datasets } = await this.listDatasets(workspaceId);
+    const dataset = datasets.find((d) => d.id === id);
+    if (!dataset) throw new NotFoundException(`Dataset ${id} not found`);
+    const { rows: cases } = await this.db.query<EvalCase>(
+      `SELECT id, question, expected_answer, expected_value, expected_chunks
+       FROM eval_cases
+       WHERE dataset_id = $1
+       ORDER BY position`,
+      [id],
+    );
+    return { ...dataset, cases };
+  }
+
+  async deleteDataset(
+    workspaceId: string,
+    id: string,
+  ): Promise<{ deleted: boolean }> {
+    const { rows } = await this.db.query(
+      `DELETE FROM eval_datasets WHERE workspace_id = $1 AND id = $2
+       RETURNING id`,
+      [workspaceId, id],
+    );
+    if (rows.length === 0) {
+      throw new NotFoundException(`Dataset ${id} not found`);
+    }
+    return { deleted: true };
+  }
+
+  /**
+   * Runs every case of a dataset through the pipeline, one at a time so
+   * latencies are comparable, and stores per-case scores and the summary.
+   * A failing case is recorded and counted; it does not fail the run.
+   */
+  async run(
+    workspaceId: string,
+    datasetId: string,
+    options: { k?: number; judge?: Judge } = {},
+  ): Promise<EvalRun & { results: EvalCaseResult[] }> {
+    const dataset = await this.getDataset(workspaceId, datasetId);
+    const config: EvalRun['config'] = {
+      k: options.k ?? 5,
+      judge: options.judge ?? this.defaultJudge,
+      chatModel: this.chat.model,
+      embeddingModel: this.embedder.model,
+    };
+    const { rows } = await this.db.query<{ id: string }>(
+      `INSERT INTO eval_runs (workspace_id, dataset_id, status, config)
+       VALUES ($1, $2, 'running', $3)
+       RETURNING id`,
+      [workspaceId, datasetId, JSON.stringify(config)],
+    );
+    const runId = rows[0].id;
+
+    try {
+      const results: EvalCaseResult[] = [];
+      for (const [index, evalCase] of dataset.cases.entries()) {
+        const result = await this.runCase(workspaceId, evalCase, config);
+        result.position = index + 1;
+        results.push(result);
+        await this.saveResult(runId, result);
+      }
+      await this.db.query(
+        `UPDATE eval_runs
+         SET status = 'completed', metrics = $2, finished_at = now()
+         WHERE id = $1`,
+        [runId, JSON.stringify(summarize(results))],
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.error(`Eval run ${runId} failed: ${message}`);
+      await this.db.query(
+        `UPDATE eval_runs SET status = 'failed', error = $2, finished_at = now()
+         WHERE id = $1`,
+        [runId, message],
+      );
+    }
+    return this.getRun(workspaceId, runId);
+  }
+
+  async listRuns(
+    workspaceId: string,
+    datasetId?: string,
+  ): Promise<{ runs: EvalRun[] }> {
+    const { rows } = await this.db.query<EvalRun>(
+      `SELECT ${RUN_COLUMNS} FROM eval_runs
+       WHERE workspace_id = $1 AND ($2::uuid IS NULL OR dataset_id = $2)
+       ORDER BY created_at DESC`,
+      [workspaceId, datasetId ?? null],
+    );
+    return { runs: rows };
+  }
+
+  async getRun(
+    workspaceId: string,
+    id: string,
+  ): Promise<EvalRun & { results: EvalCaseResult[] }> {
+    const { rows } = await this.db.query<EvalRun>(
+      `SELECT ${RUN_COLUMNS} FROM eval_runs WHERE workspace_id = $1 AND id = $2`,
+      [workspaceId, id],
+    );
+    if (rows.length === 0) throw new NotFoundException(`Run ${id} not found`);
+    const { rows: results } = await this.db.query<EvalCaseResult>(
+      `SELECT ${RESULT_COLUMNS} FROM eval_results
+       WHERE run_id = $1
+       ORDER BY position`,
+      [id],
+    );
+    return { ...rows[0], results };
+  }
+
+  /** Metric deltas from `baseId` to `headId`, plus the cases that moved. */
+  async diff(
+    workspaceId: string,
+    headId: string,
+    baseId: string,
+  ): Promise<EvalRunDiff> {
+    const [head, base] = await Promise.all([
+      this.getRun(workspaceId, headId),
+      this.getRun(workspaceId, baseId),
+    ]);
+    return diffRuns(
+      {
+        id: base.id,
+        metrics: base.metrics ?? summarize([]),
+        results: base.results,
+      },
+      {
+        id: head.id,
+        metrics: head.metrics ?? summarize([]),
+        results: head.results,
+      },
+    );
+  }
+
+  private async runCase(
+    workspaceId: string,
+    evalCase: EvalCase,
+    config: EvalRun['config'],
+  ): Promise<EvalCaseResult> {
+    const started = Date.now();
+    let result: QueryResult;
+    try {
+      result = await this.rag.query(workspaceId, evalCase.question, {
+        k: config.k,
+        visualize: false,
+        saveHistory: false,
+        cache: false,
+      });
+    } catch (err) {
+      return {
+        position: 0,
+        question: evalCase.question,
+        answer: null,
+        retrieved: [],
+        recall: null,
+        reciprocal_rank: null,
+        numeric_match: null,
+        faithfulness: null,
+        judge_reason: null,
+        latency_ms: Date.now() - started,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+    const latency = Date.now() - started;
+
+    const retrieved = this.retrievedRefs(result);
+    const contexts = retrieved.map((r) => r.content);
+    const verdict =
+      config.judge === 'llm'
+        ? await this.judge(evalCase.question, result.answer, contexts)
+        : {
+            score: lexicalFaithfulness(result.answer, contexts),
+            reason: null,
+          };
+
+    return {
+      position: 0,
+      question: evalCase.question,
+      answer: result.answer,
+      retrieved,
+      recall: recallAtK(retrieved, evalCase.expected_chunks, config.k),
+      reciprocal_rank: reciprocalRank(retrieved, evalCase.expected_chunks),
+      numeric_match: numericMatch(result.answer, evalCase.expected_value),
+      faithfulness: verdict.score,
+      judge_reason: verdict.reason,
+      latency_ms: latency,
+      error: null,
+    };
+  }
+
+  /** A computed table answer stands in for retrieval as a single hit. */
+  private retrievedRefs(result: QueryResult): RetrievedRef[] {
+    if (result.table) {
+      return [
+        {
+          id: result.table.tableId,
+          content: JSON.stringify(result.table.result.rows),
+          source: result.table.source,
+          sheet: result.table.title,
+          kind: 'sheet',
+          column: null,
+          rowStart: null,
+          rowEnd: null,
+        },
+      ];
+    }
+    return result.contexts.map((c) => ({
+      id: c.id,
+      content: c.content,
+      ...c.provenance,
+    }));
+  }
+
+  /**
+   * Asks the chat model whether the answer is supported by its contexts.
+   * A verdict that does not validate (or a judge call that fails) scores
+   * null rather than failing the case; the reason says why.
+   */
+  private async judge(
+    question: string,
+    answer: string,
+    contexts: string[],
+  ): Promise<{ score: number | null; reason: string | null }> {
+    try {
+      const raw = await this.chat.complete(
+        [
+          {
+            role: 'system',
+            content:
+              'You grade answers for faithfulness to the context they were generated from. ' +
+              'Respond with JSON {"score": number, "reason": string}. score is between 0 and 1: ' +
+              '1 if every claim in the answer is supported by the context, 0 if none is. ' +
+              'Judge support only, not style or completeness.',
+          },
+          {
+            role: 'user',
+            content:
+              `Context:\n${contexts.map((c, i) => `[${i + 1}] ${c}`).join('\n---\n')}\n\n` +
+              `Question: ${question}\n\nAnswer: ${answer}`,
+          },
+        ],
+        { json: true, temperature: 0 },
+      );
+      return validateJudgeVerdict(JSON.parse(raw));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { score: null, reason: `Judge verdict rejected: ${message}` };
+    }
+  }
+
+  private async saveResult(
+    runId: string,
+    result: EvalCaseResult,
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO eval_results
+         (run_id, position, question, answer, retrieved, recall, reciprocal_rank,
+          numeric_match, faithfulness, judge_reason, latency_ms, error)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        runId,
+        result.position,
+        result.question,
+        result.answer,
+        JSON.stringify(result.retrieved),
+        result.recall,
+        result.reciprocal_rank,
+        result.numeric_match,
+        result.faithfulness,
+        result.judge_reason,
+        result.latency_ms,
+        result.error,
+      ],
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { ChunkProvenance } from '../rag/rag.types';
+
+/** How answers are scored for faithfulness to their contexts. */
+export const JUDGES = ['llm', 'lexical'] as const;
+export type Judge = (typeof JUDGES)[number];
+
+/**
+ * Describes a chunk that should be retrieved for a question. Chunk ids
+ * change on re-ingest, so cases usually match by provenance instead; every
+ * field given must match.
+ */
+export interface ExpectedChunk {
+  chunkId?: string;
+  source?: string;
+  sheet?: string;
+  /** A 1-based row the chunk must cover. */
+  row?: number;
+  /** Text the chunk must contain (case-insensitive). */
+  contains?: string;
+}
+
+export interface EvalCase {
+  id: string;
+  question: string;
+  expected_answer: string | null;
+  expected_value: number | null;
+  expected_chunks: ExpectedChunk[];
+}
+
+export interface EvalDataset {
+  id: string;
+  name: string;
+  description: string;
+  created_at: string;
+  updated_at: string;
+  case_count: number;
+}
+
+/** What a case retrieved, in rank order; table answers count as one hit. */
+export interface RetrievedRef extends ChunkProvenance {
+  id: string;
+  content: string;
+}
+
+export interface EvalCaseResult {
+  position: number;
+  question: string;
+  answer: string | null;
+  retrieved: RetrievedRef[];
+  recall: number | null;
+  reciprocal_rank: number | null;
+  numeric_match: boolean | null;
+  faithfulness: number | null;
+  judge_reason: string | null;
+  latency_ms: number;
+  error: string | null;
+}
+
+/** Means over the cases a metric applies to; null when none do. */
+export interface EvalMetrics {
+  cases: number;
+  errors: number;
+  recallAtK: number | null;
+  mrr: number | null;
+  numericExactMatch: number | null;
+  faithfulness: number | null;
+}
+
+export const METRIC_NAMES = [
+  'recallAtK',
+  'mrr',
+  'numericExactMatch',
+  'faithfulness',
+] as const;
+export type MetricName = (typeof METRIC_NAMES)[number];
+
+export interface EvalRun {
+  id: string;
+  dataset_id: string;
+  status: 'running' | 'completed' | 'failed';
+  config: {
+    k: number;
+    judge: Judge;
+    chatModel: string;
+    embeddingModel: string;
+  };
+  metrics: EvalMetrics | null;
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export interface MetricDelta {
+  base: number | null;
+  head: number | null;
+  delta: number | null;
+}
+
+/** Cases are matched by question text, as case ids change on re-upload. */
+export interface EvalRunDiff {
+  base: string;
+  head: string;
+  metrics: Record<MetricName, MetricDelta>;
+  cases: Array<{
+    question: string;
+    changes: Partial<Record<MetricName, MetricDelta>>;
+    baseAnswer: string | null;
+    headAnswer: string | null;
+  }>;
+  added: string[];
+  removed: string[];
+}
@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { fromSql, toSql } from 'pgvector';
+import { DatabaseService } from '../database/database.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { EmbeddingCacheStore } from './embedding-cache';
+
+/** Postgres-backed embedding cache, shared by all workspaces. */
+@Injectable()
+export class EmbeddingCacheService implements EmbeddingCacheStore {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly metrics: MetricsService,
+  ) {}
+
+  async get(
+    model: string,
+    dimensions: number,
+    hashes: string[],
+  ): Promise<Map<string, number[]>> {
+    const { rows } = await this.db.query<{
+      text_hash: string;
+      embedding: string;
+    }>(
+      `UPDATE embedding_cache
+       SET hits = hits + 1, last_used_at = now()
+       WHERE model = $1 AND dimensions = $2 AND text_hash = ANY($3::text[])
+       RETURNING text_hash, embedding::text AS embedding`,
+      [model, dimensions, hashes],
+    );
+    return new Map(
+      rows.map((r) => [r.text_hash, fromSql(r.embedding) as number[]]),
+    );
+  }
+
+  async put(
+    model: string,
+    dimensions: number,
+    entries: Array<{ hash: string; embedding: number[] }>,
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO embedding_cache (model, dimensions, text_hash, embedding)
+       SELECT $1, $2, v.text_hash, v.embedding::vector
+       FROM unnest($3::text[], $4::text[]) AS v(text_hash, embedding)
+       ON CONFLICT (model, dimensions, text_hash) DO NOTHING`,
+      [
+        model,
+        dimensions,
+        entries.map((e) => e.hash),
+        entries.map((e) => toSql(e.embedding) as string),
+      ],
+    );
+  }
+
+  record(hits: number, misses: number): void {
+    this.metrics.recordCache('embedding', hits, misses);
+  }
+}
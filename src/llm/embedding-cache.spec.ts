@@ -0,0 +1,70 @@
+import {
+  CachedEmbeddingProvider,
+  EmbeddingCacheStore,
+  embeddingTextHash,
+} from './embedding-cache';
+import { FakeEmbeddingProvider } from './fake.provider';
+
+class MemoryStore implements EmbeddingCacheStore {
+  readonly entries = new Map<string, number[]>();
+  hits = 0;
+  misses = 0;
+
+  get(model: string, dimensions: number, hashes: string[]) {
+    const found = new Map<string, number[]>();
+    for (const hash of hashes) {
+      const embedding = this.entries.get(`${model}/${dimensions}/${hash}`);
+      if (embedding) found.set(hash, embedding);
+    }
+    return Promise.resolve(found);
+  }
+
+  put(
+    model: string,
+    dimensions: number,
+    entries: Array<{ hash: string; embedding: number[] }>,
+  ) {
+    for (const { hash, embedding } of entries) {
+      this.entries.set(`${model}/${dimensions}/${hash}`, embedding);
+    }
+    return Promise.resolve();
+  }
+
+  record(hits: number, misses: number) {
+    this.hits += hits;
+    this.misses += misses;
+  }
+}
+
+describe('CachedEmbeddingProvider', () => {
+  it('keys texts by their normalized form', () => {
+    expect(embeddingTextHash('  AEUUU\n risk ')).toBe(
+      embeddingTextHash('AEUUU risk'),
+    );
+    expect(embeddingTextHash('AEUUU risk')).not.toBe(
+      embeddingTextHash('aeuuu risk'),
+    );
+  });
+
+  it('only embeds texts it has not seen, each once', async () => {
+    const inner = new FakeEmbeddingProvider(16);
+    const embed = jest.spyOn(inner, 'embed');
+    const store = new MemoryStore();
+    const cached = new CachedEmbeddingProvider(inner, store);
+
+    const first = await cached.embed(['risk', 'pnl', 'risk ']);
+    expect(embed).toHaveBeenLastCalledWith(['risk', 'pnl']);
+    expect(first[2]).toEqual(first[0]);
+
+    const second = await cached.embed(['pnl', 'fx']);
+    expect(embed).toHaveBeenLastCalledWith(['fx']);
+    expect(second[0]).toEqual(first[1]);
+    expect(second).toEqual(await inner.embed(['pnl', 'fx']));
+
+    expect(store.entries.size).toBe(3);
+    expect({ hits: store.hits, misses: store.misses }).toEqual({
+      hits: 2,
+      misses: 3,
+    });
+  });
+});
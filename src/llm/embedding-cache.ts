@@ -0,0 +1,76 @@
+import { createHash } from 'crypto';
+import { EmbeddingProvider } from './llm.types';
+
+/** Where cached vectors live; keyed by model, dimensions and text hash. */
+export interface EmbeddingCacheStore {
+  get(
+    model: string,
+    dimensions: number,
+    hashes: string[],
+  ): Promise<Map<string, number[]>>;
+  put(
+    model: string,
+    dimensions: number,
+    entries: Array<{ hash: string; embedding: number[] }>,
+  ): Promise<void>;
+  /** Counts lookups for the hit/miss metrics. */
+  record(hits: number, misses: number): void;
+}
+
+/**
+ * Texts that differ only in Unicode form or whitespace embed the same way,
+ * so they share a cache entry. Case is kept: tickers and codes depend on it.
+ */
+export function normalizeEmbeddingText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export function embeddingTextHash(text: string): string {
+  return createHash('sha256')
+    .update(normalizeEmbeddingText(text))
+    .digest('hex');
+}
+
+/**
+ * Serves embeddings from the cache and only sends the texts it has not seen
+ * (each once) to the wrapped provider. Used for both ingestion and queries.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    private readonly inner: EmbeddingProvider,
+    private readonly store: EmbeddingCacheStore,
+  ) {}
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  get dimensions(): number {
+    return this.inner.dimensions;
+  }
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    if (inputs.length === 0) return [];
+    const hashes = inputs.map(embeddingTextHash);
+    const cached = await this.store.get(this.model, this.dimensions, [
+      ...new Set(hashes),
+    ]);
+
+    const missing = new Map<string, string>();
+    hashes.forEach((hash, i) => {
+      if (!cached.has(hash) && !missing.has(hash)) missing.set(hash, inputs[i]);
+    });
+    this.store.record(inputs.length - missing.size, missing.size);
+
+    if (missing.size > 0) {
+      const vectors = await this.inner.embed([...missing.values()]);
+      const entries = [...missing.keys()].map((hash, i) => ({
+        hash,
+        embedding: vectors[i],
+      }));
+      await this.store.put(this.model, this.dimensions, entries);
+      for (const { hash, embedding } of entries) cached.set(hash, embedding);
+    }
+    return hashes.map((hash) => cached.get(hash)!);
+  }
+}
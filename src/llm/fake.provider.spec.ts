@@ -0,0 +1,36 @@
+import { FakeChatProvider, FakeEmbeddingProvider } from './fake.provider';
+
+describe('FakeEmbeddingProvider', () => {
+  const provider = new FakeEmbeddingProvider(64);
+  const cosine = (a: number[], b: number[]) =>
+    a.reduce((acc, v, i) => acc + v * b[i], 0);
+
+  it('is deterministic and normalized', async () => {
+    const [a, b] = await provider.embed(['AEUUU risk', 'AEUUU risk']);
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(64);
+    expect(cosine(a, a)).toBeCloseTo(1);
+  });
+
+  it('scores shared tokens higher than unrelated text', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'risk contribution AEUUU',
+      'Securities: AEUUU; Sum of Risk Contribution: 30.80%',
+      'quarterly headcount by office',
+    ]);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+});
+
+describe('FakeChatProvider', () => {
+  it('echoes the final user line without its label', async () => {
+    const chat = new FakeChatProvider();
+    await expect(
+      chat.complete([
+        { role: 'system', content: 'ignored' },
+        { role: 'user', content: 'Context:\nfoo\n\nQuestion: what is AEUUU?' },
+      ]),
+    ).resolves.toBe('what is AEUUU?');
+    await expect(chat.complete([], { json: true })).resolves.toBe('{}');
+  });
+});
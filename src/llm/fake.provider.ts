@@ -0,0 +1,62 @@
+import { createHash } from 'crypto';
+import { ChatMessage, ChatProvider, EmbeddingProvider } from './llm.types';
+
+/**
+ * Deterministic, network-free embeddings for tests and air-gapped
+ * development: each token is hashed into a signed bucket and the resulting
+ * bag-of-words vector is L2-normalized, so shared tokens mean similarity.
+ */
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+
+  constructor(readonly dimensions: number) {
+    this.model = `fake-hash-${dimensions}`;
+  }
+
+  embed(inputs: string[]): Promise<number[][]> {
+    return Promise.resolve(inputs.map((input) => this.embedOne(input)));
+  }
+
+  private embedOne(input: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = input.toLowerCase().match(/[a-z0-9.%]+/g) ?? [];
+    for (const token of tokens) {
+      const digest = createHash('sha256').update(token).digest();
+      const bucket = digest.readUInt32BE(0) % this.dimensions;
+      vector[bucket] += digest[4] & 1 ? 1 : -1;
+    }
+    const norm = Math.sqrt(vector.reduce((acc, v) => acc + v * v, 0));
+    // pgvector cannot compute cosine distance for an all-zero vector
+    if (norm === 0) {
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map((v) => v / norm);
+  }
+}
+
+/**
+ * Echoes the last line of the final user message with any leading
+ * "Label:" removed, and `{}` in JSON mode. Good enough to exercise the
+ * pipeline end to end without a model.
+ */
+export class FakeChatProvider implements ChatProvider {
+  readonly model = 'fake-echo';
+
+  complete(
+    messages: ChatMessage[],
+    options: { json?: boolean } = {},
+  ): Promise<string> {
+    if (options.json) return Promise.resolve('{}');
+    const last = [...messages].reverse().find((m) => m.role === 'user');
+    const lines = (last?.content ?? '').trim().split('\n');
+    return Promise.resolve(
+      lines[lines.length - 1].replace(/^[A-Za-z ]+:\s*/, ''),
+    );
+  }
+
+  async *stream(messages: ChatMessage[]): AsyncIterable<string> {
+    const text = await this.complete(messages);
+    for (const word of text.split(/(?<=\s)/)) yield word;
+  }
+}
@@ -0,0 +1,141 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import { MetricsService } from '../metrics/metrics.service';
+import { CachedEmbeddingProvider } from './embedding-cache';
+import { EmbeddingCacheService } from './embedding-cache.service';
+import { FakeChatProvider, FakeEmbeddingProvider } from './fake.provider';
+import {
+  CHAT_PROVIDER,
+  ChatProvider,
+  EMBEDDING_PROVIDER,
+  EmbeddingProvider,
+  LlmProviderKind,
+  RERANKER,
+  Reranker,
+  RERANKER_KINDS,
+  RerankerKind,
+} from './llm.types';
+import { OpenAiChatProvider, OpenAiEmbeddingProvider } from './openai.provider';
+import { HttpReranker, LlmReranker } from './rerankers';
+
+const KNOWN_EMBEDDING_DIMENSIONS: Record<string, number> = {
+  'text-embedding-ada-002': 1536,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'nomic-embed-text': 768,
+  'mxbai-embed-large': 1024,
+};
+
+function providerKind(
+  config: ConfigService,
+  key: 'EMBEDDING_PROVIDER' | 'CHAT_PROVIDER',
+): LlmProviderKind {
+  const kind =
+    config.get<string>(key) ?? config.get<string>('LLM_PROVIDER') ?? 'openai';
+  if (kind !== 'openai' && kind !== 'openai-compatible' && kind !== 'fake') {
+    throw new Error(
+      `${key} must be one of: openai, openai-compatible, fake (got "${kind}")`,
+    );
+  }
+  return kind;
+}
+
+function openAiClient(config: ConfigService, kind: LlmProviderKind): OpenAI {
+  const baseURL = config.get<string>('LLM_BASE_URL');
+  if (kind === 'openai-compatible' && !baseURL) {
+    throw new Error('LLM_BASE_URL is required for openai-compatible providers');
+  }
+  return new OpenAI({
+    // Local servers usually ignore the key but the client insists on one
+    apiKey:
+      config.get<string>('OPENAI_API_KEY') ??
+      (kind === 'openai-compatible' ? 'unused' : undefined),
+    ...(kind === 'openai-compatible' ? { baseURL } : {}),
+  });
+}
+
+@Global()
+@Module({
+  providers: [
+    EmbeddingCacheService,
+    {
+      provide: EMBEDDING_PROVIDER,
+      inject: [ConfigService, MetricsService, EmbeddingCacheService],
+      useFactory: (
+        config: ConfigService,
+        metrics: MetricsService,
+        cache: EmbeddingCacheService,
+      ): EmbeddingProvider => {
+        const kind = providerKind(config, 'EMBEDDING_PROVIDER');
+        const configuredDimensions = config.get<string>('EMBEDDING_DIMENSIONS');
+        if (kind === 'fake') {
+          return new FakeEmbeddingProvider(Number(configuredDimensions ?? 384));
+        }
+        const model =
+          config.get<string>('EMBEDDING_MODEL') ?? 'text-embedding-ada-002';
+        const dimensions = Number(
+          configuredDimensions ?? KNOWN_EMBEDDING_DIMENSIONS[model],
+        );
+        if (!Number.isInteger(dimensions) || dimensions <= 0) {
+          throw new Error(
+            `EMBEDDING_DIMENSIONS must be set for embedding model ${model}`,
+          );
+        }
+        const provider = new OpenAiEmbeddingProvider(
+          openAiClient(config, kind),
+          model,
+          dimensions,
+          (usedModel, usage) => metrics.recordTokens(usedModel, usage),
+        );
+        // Identical chunks and repeated questions are only embedded once
+        return config.get<string>('EMBEDDING_CACHE') === 'off'
+          ? provider
+          : new CachedEmbeddingProvider(provider, cache);
+      },
+    },
+    {
+      provide: CHAT_PROVIDER,
+      inject: [ConfigService, MetricsService],
+      useFactory: (
+        config: ConfigService,
+        metrics: MetricsService,
+      ): ChatProvider => {
+        const kind = providerKind(config, 'CHAT_PROVIDER');
+        if (kind === 'fake') return new FakeChatProvider();
+        return new OpenAiChatProvider(
+          openAiClient(config, kind),
+          config.get<string>('CHAT_MODEL') ?? 'gpt-4o-mini',
+          (usedModel, usage) => metrics.recordTokens(usedModel, usage),
+        );
+      },
+    },
+    {
+      provide: RERANKER,
+      inject: [ConfigService, CHAT_PROVIDER],
+      useFactory: (
+        config: ConfigService,
+        chat: ChatProvider,
+      ): Reranker | null => {
+        const kind = (config.get<string>('RERANKER') ?? 'off') as RerankerKind;
+        if (!RERANKER_KINDS.includes(kind)) {
+          throw new Error(
+            `RERANKER must be one of: ${RERANKER_KINDS.join(', ')} (got "${kind}")`,
+          );
+        }
+        if (kind === 'off') return null;
+        if (kind === 'llm') return new LlmReranker(chat);
+        const url = config.get<string>('RERANKER_URL');
+        if (!url) throw new Error('RERANKER_URL is required for RERANKER=http');
+        return new HttpReranker(
+          url,
+          config.get<string>('RERANKER_MODEL') ?? 'bge-reranker-v2-m3',
+          config.get<string>('RERANKER_API_KEY'),
+          Number(config.get<string>('RERANKER_TIMEOUT_MS') ?? 5000),
+        );
+      },
+    },
+  ],
+  exports: [EMBEDDING_PROVIDER, CHAT_PROVIDER, RERANKER, EmbeddingCacheService],
+})
+export class LlmModule {}
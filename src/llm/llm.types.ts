@@ -0,0 +1,50 @@
+export const EMBEDDING_PROVIDER = Symbol('EMBEDDING_PROVIDER');
+export const CHAT_PROVIDER = Symbol('CHAT_PROVIDER');
+/** Resolves to null when reranking is off. */
+export const RERANKER = Symbol('RERANKER');
+
+export type LlmProviderKind = 'openai' | 'openai-compatible' | 'fake';
+
+export const RERANKER_KINDS = ['off', 'llm', 'http'] as const;
+export type RerankerKind = (typeof RERANKER_KINDS)[number];
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/** Tokens billed for one or more model calls. */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  embeddingTokens: number;
+}
+
+/** Called with the usage the API reports for each request. */
+export type UsageListener = (model: string, usage: Partial<TokenUsage>) => void;
+
+export interface EmbeddingProvider {
+  /** Recorded on every chunk so searches never compare across models. */
+  readonly model: string;
+  readonly dimensions: number;
+  embed(inputs: string[]): Promise<number[][]>;
+}
+
+export interface ChatProvider {
+  readonly model: string;
+  complete(
+    messages: ChatMessage[],
+    options?: { json?: boolean; temperature?: number },
+  ): Promise<string>;
+  stream(
+    messages: ChatMessage[],
+    options?: { signal?: AbortSignal; temperature?: number },
+  ): AsyncIterable<string>;
+}
+
+/** Scores passages against a query; only the order of the scores matters. */
+export interface Reranker {
+  readonly model: string;
+  /** One score per document, higher meaning more relevant. */
+  score(query: string, documents: string[]): Promise<number[]>;
+}
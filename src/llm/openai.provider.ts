@@ -0,0 +1,90 @@
+import OpenAI from 'openai';
+import {
+  ChatMessage,
+  ChatProvider,
+  EmbeddingProvider,
+  UsageListener,
+} from './llm.types';
+
+/** Works against api.openai.com or any OpenAI-compatible server (Ollama, vLLM). */
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    private readonly client: OpenAI,
+    readonly model: string,
+    readonly dimensions: number,
+    private readonly onUsage?: UsageListener,
+  ) {}
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    if (inputs.length === 0) return [];
+    const res = await this.client.embeddings.create({
+      model: this.model,
+      input: inputs,
+    });
+    if (res.usage) {
+      this.onUsage?.(this.model, { embeddingTokens: res.usage.prompt_tokens });
+    }
+    const vectors = res.data
+      .sort((a, b) => a.index - b.index)
+      .map((d) => d.embedding as unknown as number[]);
+    for (const v of vectors) {
+      if (v.length !== this.dimensions) {
+        throw new Error(
+          `Embedding model ${this.model} returned ${v.length} dimensions, expected ${this.dimensions}`,
+        );
+      }
+    }
+    return vectors;
+  }
+}
+
+export class OpenAiChatProvider implements ChatProvider {
+  constructor(
+    private readonly client: OpenAI,
+    readonly model: string,
+    private readonly onUsage?: UsageListener,
+  ) {}
+
+  async complete(
+    messages: ChatMessage[],
+    options: { json?: boolean; temperature?: number } = {},
+  ): Promise<string> {
+    const res = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      temperature: options.temperature ?? 0,
+      ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+    });
+    if (res.usage) this.reportUsage(res.usage);
+    return res.choices[0]?.message?.content ?? '';
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options: { signal?: AbortSignal; temperature?: number } = {},
+  ): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages,
+        temperature: options.temperature ?? 0,
+        stream: true,
+        // The last chunk then carries the usage of the whole response
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal },
+    );
+    for await (const chunk of stream) {
+      if (chunk.usage) this.reportUsage(chunk.usage);
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  private reportUsage(usage: OpenAI.CompletionUsage): void {
+    this.onUsage?.(this.model, {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+    });
+  }
+}
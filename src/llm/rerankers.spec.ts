@@ -0,0 +1,90 @@
+import { ChatProvider } from './llm.types';
+import { HttpReranker, LlmReranker, parseLlmScores } from './rerankers';
+
+describe('rerankers', () => {
+  it('parses and clamps LLM scores', () => {
+    expect(parseLlmScores('{"scores": [3, "7", 12, -1]}', 4)).toEqual([
+      3, 7, 10, 0,
+    ]);
+    expect(() => parseLlmScores('{"scores": [3]}', 2)).toThrow(
+      /Expected 2 scores/,
+    );
+    expect(() => parseLlmScores('{"scores": ["high"]}', 1)).toThrow(
+      /Invalid score/,
+    );
+  });
+
+  it('scores passages with the chat model in batches', async () => {
+    const complete = jest.fn((messages: Array<{ content: string }>) => {
+      const count = (messages[1].content.match(/^\[\d+\]$/gm) ?? []).length;
+      return Promise.resolve(
+        JSON.stringify({
+          scores: Array.from({ length: count }, (_, i) => i % 10),
+        }),
+      );
+    });
+    const reranker = new LlmReranker({
+      model: 'chat',
+      complete,
+    } as unknown as ChatProvider);
+
+    const scores = await reranker.score(
+      'risk of AEUUU',
+      Array.from({ length: 25 }, (_, i) => `passage ${i}`),
+    );
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(scores).toHaveLength(25);
+    expect(scores.slice(18, 22)).toEqual([8, 9, 0, 1]);
+    expect(reranker.model).toBe('llm:chat');
+  });
+
+  it('maps rerank endpoint results back to document order', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          results: [
+            { index: 1, relevance_score: 0.9 },
+            { index: 0, relevance_score: -2.5 },
+          ],
+        }),
+      ),
+    );
+    const reranker = new HttpReranker('http://localhost:8080/v1/rerank', 'bge');
+    await expect(reranker.score('q', ['a', 'b'])).resolves.toEqual([-2.5, 0.9]);
+    const body = JSON.parse(
+      fetchMock.mock.calls[0][1]!.body as string,
+    ) as Record<string, unknown>;
+    expect(body).toMatchObject({ model: 'bge', query: 'q', top_n: 2 });
+
+    fetchMock.mockResolvedValue(
+      new Response(
+        JSON.stringify({ results: [{ index: 0, relevance_score: 1 }] }),
+      ),
+    );
+    await expect(reranker.score('q', ['a', 'b'])).rejects.toThrow(
+      /did not score every document/,
+    );
+    fetchMock.mockRestore();
+  });
+
+  it('gives up on a rerank endpoint that does not reply in time', async () => {
+    const fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(
+        (_url, init) =>
+          new Promise<Response>((_resolve, reject) =>
+            init!.signal!.addEventListener('abort', () =>
+              reject(init!.signal!.reason as Error),
+            ),
+          ),
+      );
+    const reranker = new HttpReranker(
+      'http://localhost:8080/v1/rerank',
+      'bge',
+      undefined,
+      20,
+    );
+    await expect(reranker.score('q', ['a'])).rejects.toThrow(/timeout/i);
+    fetchMock.mockRestore();
+  });
+});
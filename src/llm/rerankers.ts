@@ -0,0 +1,115 @@
+import { ChatProvider, Reranker } from './llm.types';
+
+// Passages are cut for scoring; the relevant part of a chunk is near its top
+const MAX_PASSAGE_CHARS = 1200;
+const LLM_BATCH_SIZE = 20;
+
+/**
+ * Parses an LLM scoring reply of the form {"scores": [n, ...]}, one 0-10
+ * score per passage. Throws when the reply does not score every passage.
+ */
+export function parseLlmScores(reply: string, count: number): number[] {
+  const parsed = JSON.parse(reply || '{}') as { scores?: unknown };
+  const scores = parsed.scores;
+  if (!Array.isArray(scores) || scores.length !== count) {
+    throw new Error(`Expected ${count} scores from the reranker`);
+  }
+  return scores.map((s) => {
+    const n = typeof s === 'number' ? s : Number(s);
+    if (!Number.isFinite(n)) throw new Error(`Invalid score "${String(s)}"`);
+    return Math.min(10, Math.max(0, n));
+  });
+}
+
+/** Asks the chat model to grade passages, in parallel batches. */
+export class LlmReranker implements Reranker {
+  readonly model: string;
+
+  constructor(private readonly chat: ChatProvider) {
+    this.model = `llm:${chat.model}`;
+  }
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    const batches: string[][] = [];
+    for (let i = 0; i < documents.length; i += LLM_BATCH_SIZE) {
+      batches.push(documents.slice(i, i + LLM_BATCH_SIZE));
+    }
+    const scored = await Promise.all(
+      batches.map((batch) => this.scoreBatch(query, batch)),
+    );
+    return scored.flat();
+  }
+
+  private async scoreBatch(
+    query: string,
+    documents: string[],
+  ): Promise<number[]> {
+    const passages = documents
+      .map((d, i) => `[${i + 1}]\n${d.slice(0, MAX_PASSAGE_CHARS)}`)
+      .join('\n\n');
+    const reply = await this.chat.complete(
+      [
+        {
+          role: 'system',
+          content:
+            'You grade how useful each passage from a company dashboard is for answering a query: ' +
+            '0 means irrelevant, 10 means it contains the answer. ' +
+            'Respond with {"scores": [number, ...]}, one score per passage in the order given.',
+        },
+        {
+          role: 'user',
+          content: `Query: ${query}\n\nPassages:\n${passages}`,
+        },
+      ],
+      { json: true },
+    );
+    return parseLlmScores(reply, documents.length);
+  }
+}
+
+/**
+ * Calls a rerank endpoint in the Cohere/Jina format ({query, documents} in,
+ * {results: [{index, relevance_score}]} out), as served on CPU by
+ * llama.cpp (`--reranking`), Infinity or vLLM with a cross-encoder such as
+ * bge-reranker-v2-m3.
+ */
+export class HttpReranker implements Reranker {
+  constructor(
+    private readonly url: string,
+    readonly model: string,
+    private readonly apiKey?: string,
+    /** A slower reply is abandoned so the query keeps its fused order. */
+    private readonly timeoutMs = 5000,
+  ) {}
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    const res = await fetch(this.url, {
+      method: 'POST',
+      signal: AbortSignal.timeout(this.timeoutMs),
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        query,
+        documents: documents.map((d) => d.slice(0, MAX_PASSAGE_CHARS)),
+        top_n: documents.length,
+      }),
+    });
+    if (!res.ok) {
+      throw new Error(
+        `Reranker request failed (${res.status}): ${await res.text()}`,
+      );
+    }
+    const body = (await res.json()) as {
+      results?: Array<{ index: number; relevance_score: number }>;
+    };
+    const scores = new Array<number>(documents.length).fill(NaN);
+    for (const r of body.results ?? []) scores[r.index] = r.relevance_score;
+    if (scores.some((s) => !Number.isFinite(s))) {
+      throw new Error('Reranker did not score every document');
+    }
+    return scores;
+  }
+}
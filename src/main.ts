@@ -1,18 +1,35 @@
+import { ConfigService } from '@nestjs/config';
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
+import { configureApp } from './app.setup';
+import { AppLogger } from './common/app-logger';
+import { REQUEST_ID_HEADER } from './common/request-context';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create(AppModule, { bufferLogs: true });
+  app.useLogger(app.get(AppLogger));
 
-  // Enable CORS for all origins
+  // Browsers may only call the API from the configured origins
+  const corsOrigins = (app.get(ConfigService).get<string>('CORS_ORIGINS') ?? '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
   app.enableCors({
-    origin: '*',
+    origin: corsOrigins.length > 0 ? corsOrigins : false,
     methods: 'GET,HEAD,PUT,PATCH,POST,DELETE,OPTIONS',
-    allowedHeaders: '*',
+    allowedHeaders: [
+      'Authorization',
+      'Content-Type',
+      'X-API-Key',
+      REQUEST_ID_HEADER,
+    ],
+    exposedHeaders: [REQUEST_ID_HEADER],
     credentials: true,
   });
 
-  app.setGlobalPrefix('api');
+  configureApp(app);
+  // Prometheus scrapes /metrics by default
+  app.setGlobalPrefix('api', { exclude: ['metrics'] });
   await app.listen(process.env.PORT ?? 3000);
 }
-bootstrap();
+void bootstrap();
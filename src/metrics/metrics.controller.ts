@@ -0,0 +1,52 @@
+import {
+  Controller,
+  Get,
+  Headers,
+  Res,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Response } from 'express';
+import { Public } from '../auth/auth.decorators';
+import { MetricsService } from './metrics.service';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Prometheus scrape endpoint. Metrics span all workspaces, so it is outside
+ * API-key auth; set METRICS_TOKEN to require `Authorization: Bearer <token>`.
+ */
+@Controller('metrics')
+export class MetricsController {
+  private readonly token: string | undefined;
+
+  constructor(
+    private readonly metrics: MetricsService,
+    config: ConfigService,
+  ) {
+    this.token = config.get<string>('METRICS_TOKEN') || undefined;
+  }
+
+  @Public()
+  @Get()
+  async scrape(
+    @Headers('authorization') authorization: string | undefined,
+    @Res() res: Response,
+  ): Promise<void> {
+    if (
+      this.token &&
+      !timingSafeEqual(
+        digest(authorization ?? ''),
+        digest(`Bearer ${this.token}`),
+      )
+    ) {
+      throw new UnauthorizedException('Invalid metrics token');
+    }
+    res
+      .type(this.metrics.registry.contentType)
+      .send(await this.metrics.registry.metrics());
+  }
+}
@@ -0,0 +1,13 @@
+import { Global, Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { MetricsController } from './metrics.controller';
+import { MetricsService } from './metrics.service';
+
+@Global()
+@Module({
+  imports: [DatabaseModule],
+  controllers: [MetricsController],
+  providers: [MetricsService],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
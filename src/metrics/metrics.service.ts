@@ -0,0 +1,131 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+import { DatabaseService } from '../database/database.service';
+import { TokenUsage } from '../llm/llm.types';
+import { Trace } from './trace';
+
+export type CacheName = 'embedding' | 'answer';
+
+const TOKEN_TYPES: Array<[keyof TokenUsage, string]> = [
+  ['promptTokens', 'prompt'],
+  ['completionTokens', 'completion'],
+  ['embeddingTokens', 'embedding'],
+];
+
+/**
+ * Prometheus metrics for the query and ingest pipelines. Stage timings and
+ * token usage are also added to the trace of the operation the current
+ * async call chain is running in, so they can be stored with its result.
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+  // Trace of the query or ingest job the current async call chain belongs to
+  private readonly traces = new AsyncLocalStorage<Trace>();
+  private readonly stageDuration: Histogram<'operation' | 'stage'>;
+  private readonly operationDuration: Histogram<'operation' | 'outcome'>;
+  private readonly tokens: Counter<'operation' | 'model' | 'type'>;
+  private readonly cacheRequests: Counter<'cache' | 'result'>;
+
+  constructor(db: DatabaseService) {
+    collectDefaultMetrics({ register: this.registry });
+    this.stageDuration = new Histogram({
+      name: 'rag_stage_duration_seconds',
+      help: 'Duration of pipeline stages (embed, vector_search, generation, ...)',
+      labelNames: ['operation', 'stage'],
+      buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+      registers: [this.registry],
+    });
+    this.operationDuration = new Histogram({
+      name: 'rag_operation_duration_seconds',
+      help: 'End-to-end duration of queries and ingest jobs',
+      labelNames: ['operation', 'outcome'],
+      buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300],
+      registers: [this.registry],
+    });
+    this.tokens = new Counter({
+      name: 'llm_tokens_total',
+      help: 'Tokens reported by the model API',
+      labelNames: ['operation', 'model', 'type'],
+      registers: [this.registry],
+    });
+    this.cacheRequests = new Counter({
+      name: 'cache_requests_total',
+      help: 'Embedding and answer cache lookups by result',
+      labelNames: ['cache', 'result'],
+      registers: [this.registry],
+    });
+    new Gauge({
+      name: 'db_pool_connections',
+      help: 'Connections of the Postgres pool by state',
+      labelNames: ['state'],
+      registers: [this.registry],
+      collect() {
+        const stats = db.poolStats();
+        this.set({ state: 'total' }, stats.total);
+        this.set({ state: 'idle' }, stats.idle);
+        this.set({ state: 'waiting' }, stats.waiting);
+      },
+    });
+  }
+
+  /**
+   * Runs `fn` as one traced operation. Stages timed and tokens used from
+   * within `fn` (including from other services) are added to its trace.
+   */
+  async trace<T>(
+    operation: string,
+    fn: (trace: Trace) => Promise<T>,
+  ): Promise<T> {
+    const trace = new Trace(operation);
+    let outcome = 'error';
+    try {
+      const result = await this.traces.run(trace, () => fn(trace));
+      outcome = 'ok';
+      return result;
+    } finally {
+      this.operationDuration.observe(
+        { operation, outcome },
+        trace.elapsedMs() / 1000,
+      );
+    }
+  }
+
+  /** Times `fn` as `stage` of the current operation. */
+  async time<T>(stage: string, fn: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+      return await fn();
+    } finally {
+      const ms = performance.now() - start;
+      const trace = this.traces.getStore();
+      trace?.addStage(stage, ms);
+      this.stageDuration.observe(
+        { operation: trace?.operation ?? 'other', stage },
+        ms / 1000,
+      );
+    }
+  }
+
+  recordTokens(model: string, usage: Partial<TokenUsage>): void {
+    const trace = this.traces.getStore();
+    trace?.addUsage(usage);
+    const operation = trace?.operation ?? 'other';
+    for (const [key, type] of TOKEN_TYPES) {
+      const count = usage[key];
+      if (count) this.tokens.inc({ operation, model, type }, count);
+    }
+  }
+
+  recordCache(cache: CacheName, hits: number, misses: number): void {
+    if (hits) this.cacheRequests.inc({ cache, result: 'hit' }, hits);
+    if (misses) this.cacheRequests.inc({ cache, result: 'miss' }, misses);
+  }
+}
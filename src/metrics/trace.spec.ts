@@ -0,0 +1,20 @@
+import { Trace } from './trace';
+
+describe('Trace', () => {
+  it('sums token usage and repeated stages', () => {
+    const trace = new Trace('ingest');
+    trace.addUsage({ embeddingTokens: 120 });
+    trace.addUsage({ embeddingTokens: 80 });
+    trace.addUsage({ promptTokens: 10, completionTokens: 4 });
+    trace.addStage('embed', 10.4);
+    trace.addStage('embed', 20.3);
+    trace.addStage('commit', 5);
+
+    expect(trace.summary()).toEqual({
+      promptTokens: 10,
+      completionTokens: 4,
+      embeddingTokens: 200,
+      stagesMs: { embed: 31, commit: 5 },
+    });
+  });
+});
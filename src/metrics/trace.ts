@@ -0,0 +1,47 @@
+import { TokenUsage } from '../llm/llm.types';
+
+/** Token usage and per-stage durations of one query or ingest job. */
+export interface UsageSummary extends TokenUsage {
+  /** Milliseconds per stage; stages that ran more than once are summed. */
+  stagesMs: Record<string, number>;
+}
+
+/**
+ * Collects the token usage and stage timings of one operation. Parallel
+ * stages (vector and keyword search) each count their own duration, so the
+ * stages can add up to more than the wall-clock time.
+ */
+export class Trace {
+  private readonly usage: TokenUsage = {
+    promptTokens: 0,
+    completionTokens: 0,
+    embeddingTokens: 0,
+  };
+  private readonly stages = new Map<string, number>();
+  private readonly startedAt = performance.now();
+
+  constructor(readonly operation: string) {}
+
+  addStage(stage: string, ms: number): void {
+    this.stages.set(stage, (this.stages.get(stage) ?? 0) + ms);
+  }
+
+  addUsage(usage: Partial<TokenUsage>): void {
+    this.usage.promptTokens += usage.promptTokens ?? 0;
+    this.usage.completionTokens += usage.completionTokens ?? 0;
+    this.usage.embeddingTokens += usage.embeddingTokens ?? 0;
+  }
+
+  elapsedMs(): number {
+    return performance.now() - this.startedAt;
+  }
+
+  summary(): UsageSummary {
+    return {
+      ...this.usage,
+      stagesMs: Object.fromEntries(
+        [...this.stages].map(([stage, ms]) => [stage, Math.round(ms)]),
+      ),
+    };
+  }
+}
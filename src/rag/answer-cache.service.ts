@@ -0,0 +1,166 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { toSql } from 'pgvector';
+import { DatabaseService } from '../database/database.service';
+import { EMBEDDING_PROVIDER, EmbeddingProvider } from '../llm/llm.types';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  CachedAnswerRef,
+  QueryOptions,
+  QueryResult,
+  RetrievalRecord,
+} from './rag.types';
+
+/** The parts of a query result that do not depend on who asked. */
+export type CacheableResult = Pick<
+  QueryResult,
+  | 'answer'
+  | 'contexts'
+  | 'standaloneQuestion'
+  | 'citations'
+  | 'table'
+  | 'comparison'
+  | 'visualization'
+  | 'plan'
+  | 'packing'
+>;
+
+export interface AnswerCacheHit {
+  result: CacheableResult;
+  retrieved: RetrievalRecord[];
+  cached: CachedAnswerRef;
+}
+
+/** Options that change the answer; only questions asked with the same ones match. */
+function optionsKey({ k = 5, filters = {}, visualize }: QueryOptions): string {
+  return JSON.stringify({ k, filters, visualize: visualize ?? null });
+}
+
+/**
+ * Semantic answer cache: a question whose embedding is near-identical to a
+ * recently answered one gets the stored answer. Entries are dropped when
+ * the workspace's sources change (see SourcesService), so a hit is always
+ * against the data the answer was built from. Off unless ANSWER_CACHE=on.
+ */
+@Injectable()
+export class AnswerCacheService {
+  private readonly enabled: boolean;
+  private readonly minSimilarity: number;
+  private readonly ttlHours: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    @Inject(EMBEDDING_PROVIDER) private readonly embedder: EmbeddingProvider,
+    private readonly metrics: MetricsService,
+    config: ConfigService,
+  ) {
+    this.enabled = config.get<string>('ANSWER_CACHE') === 'on';
+    this.minSimilarity = Number(
+      config.get<string>('ANSWER_CACHE_MIN_SIMILARITY') ?? 0.97,
+    );
+    this.ttlHours = Number(config.get<string>('ANSWER_CACHE_TTL_HOURS') ?? 24);
+  }
+
+  /**
+   * Follow-ups depend on their conversation and debug output on the live
+   * retrieval, so neither is cached.
+   */
+  applies(options: QueryOptions): boolean {
+    return (
+      this.enabled &&
+      options.cache !== false &&
+      !options.conversationId &&
+      !options.debug
+    );
+  }
+
+  /**
+   * The closest cached answer within the TTL, or null. The question's
+   * embedding is returned either way so a miss can be stored without
+   * embedding it again.
+   */
+  async lookup(
+    workspaceId: string,
+    question: string,
+    options: QueryOptions,
+  ): Promise<{ hit: AnswerCacheHit | null; embedding: number[] }> {
+    const [embedding] = await this.embedder.embed([question]);
+    const { rows } = await this.db.query<{
+      id: string;
+      question: string;
+      result: CacheableResult;
+      retrieved: RetrievalRecord[];
+      created_at: string;
+      similarity: number;
+    }>(
+      `SELECT id, question, result, retrieved, created_at,
+              1 - (question_embedding <=> $1::vector) AS similarity
+       FROM answer_cache
+       WHERE workspace_id = $2 AND embedding_model = $3 AND options_key = $4
+         AND created_at > now() - $5::float8 * interval '1 hour'
+       ORDER BY question_embedding <=> $1::vector
+       LIMIT 1`,
+      [
+        toSql(embedding),
+        workspaceId,
+        this.embedder.model,
+        optionsKey(options),
+        this.ttlHours,
+      ],
+    );
+    const entry = rows[0];
+    if (!entry || entry.similarity < this.minSimilarity) {
+      this.metrics.recordCache('answer', 0, 1);
+      return { hit: null, embedding };
+    }
+
+    this.metrics.recordCache('answer', 1, 0);
+    await this.db.query(
+      `UPDATE answer_cache SET hits = hits + 1, last_hit_at = now()
+       WHERE id = $1`,
+      [entry.id],
+    );
+    return {
+      hit: {
+        result: entry.result,
+        retrieved: entry.retrieved,
+        cached: {
+          question: entry.question,
+          similarity: entry.similarity,
+          cachedAt: entry.created_at,
+        },
+      },
+      embedding,
+    };
+  }
+
+  async store(
+    workspaceId: string,
+    question: string,
+    embedding: number[],
+    options: QueryOptions,
+    result: CacheableResult,
+    retrieved: RetrievalRecord[],
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO answer_cache
+         (workspace_id, question, question_embedding, embedding_model, options_key, result, retrieved)
+       VALUES ($1, $2, $3::vector, $4, $5, $6, $7)`,
+      [
+        workspaceId,
+        question,
+        toSql(embedding),
+        this.embedder.model,
+        optionsKey(options),
+        JSON.stringify(result),
+        JSON.stringify(retrieved),
+      ],
+    );
+    // Expired entries can never be served again
+    await this.db.query(
+      `DELETE FROM answer_cache
+       WHERE workspace_id = $1 AND created_at <= now() - $2::float8 * interval '1 hour'`,
+      [workspaceId, this.ttlHours],
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { Controller, Get, Param, ParseUUIDPipe, Query } from '@nestjs/common';
+import { WorkspaceId } from '../auth/auth.decorators';
+import { ChartDataService } from './chart-data.service';
+import { ChartQueryDto } from './dto/chart-data.dto';
+import { SourceQueryDto } from './dto/query.dto';
+
+@Controller('rag/data')
+export class ChartDataController {
+  constructor(private readonly chartData: ChartDataService) {}
+
+  @Get('tables')
+  async listTables(
+    @WorkspaceId() workspaceId: string,
+    @Query() query: SourceQueryDto,
+  ) {
+    return this.chartData.listTables(workspaceId, query.source);
+  }
+
+  @Get('tables/:id')
+  async getTable(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.chartData.getTable(workspaceId, id);
+  }
+
+  /**
+   * e.g. ?dimension=Currency&measures=Sum of Risk Contribution&aggregate=sum
+   *      &filter=Currency:neq:USD&sort=Sum of Risk Contribution&order=desc
+   */
+  @Get('tables/:id/chart')
+  async chart(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() params: ChartQueryDto,
+  ) {
+    return this.chartData.chart(workspaceId, id, params);
+  }
+}
@@ -0,0 +1,121 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import {
+  buildChartData,
+  ChartData,
+  ChartQueryParams,
+  ChartRow,
+  ColumnSchema,
+  dataRows,
+  inferSchema,
+  normalizeRows,
+  parseChartQuery,
+} from './chart-data';
+
+export interface ChartTable {
+  id: string;
+  source: string;
+  title: string;
+  created_at: string;
+  row_count: number;
+  schema: ColumnSchema[];
+}
+
+interface GraphDataRow {
+  id: string;
+  source: string;
+  title: string;
+  created_at: string;
+  table_data: Array<Record<string, unknown>>;
+}
+
+/** Typed, normalized views of graph_data tables for charting. */
+@Injectable()
+export class ChartDataService {
+  constructor(private readonly db: DatabaseService) {}
+
+  async listTables(
+    workspaceId: string,
+    source?: string,
+  ): Promise<{ tables: ChartTable[] }> {
+    const { rows } = await this.db.query<GraphDataRow>(
+      `SELECT id, source, title, created_at, table_data
+       FROM graph_data
+       WHERE workspace_id = $1 AND ($2::text IS NULL OR source = $2)
+       ORDER BY created_at DESC`,
+      [workspaceId, source ?? null],
+    );
+    return { tables: rows.map((row) => this.describe(row)) };
+  }
+
+  async getTable(workspaceId: string, id: string): Promise<ChartTable> {
+    return this.describe(await this.load(workspaceId, id));
+  }
+
+  async chart(
+    workspaceId: string,
+    id: string,
+    params: ChartQueryParams,
+  ): Promise<{ table: Omit<ChartTable, 'schema'> } & ChartData> {
+    const row = await this.load(workspaceId, id);
+    const { schema, ...table } = this.describe(row);
+    const query = parseChartQuery(params, schema);
+    return { table, ...buildChartData(row.table_data, schema, query) };
+  }
+
+  /**
+   * Tables by id, or by the (source, sheet) pairs retrieved chunks came
+   * from, with a few normalized sample rows. Tables asked for by id first.
+   */
+  async findTables(
+    workspaceId: string,
+    ids: string[],
+    sections: Array<{ source: string; sheet: string }>,
+    limit: number = 5,
+  ): Promise<Array<ChartTable & { sample: ChartRow[] }>> {
+    const { rows } = await this.db.query<GraphDataRow>(
+      `SELECT id, source, title, created_at, table_data
+       FROM graph_data
+       WHERE workspace_id = $5
+         AND (id = ANY($1::uuid[])
+              OR (source, title) IN (SELECT * FROM unnest($2::text[], $3::text[])))
+       ORDER BY id = ANY($1::uuid[]) DESC, created_at DESC
+       LIMIT $4`,
+      [
+        ids,
+        sections.map((s) => s.source),
+        sections.map((s) => s.sheet),
+        limit,
+        workspaceId,
+      ],
+    );
+    return rows.map((row) => {
+      const table = this.describe(row);
+      return {
+        ...table,
+        sample: normalizeRows(row.table_data, table.schema).slice(0, 3),
+      };
+    });
+  }
+
+  private async load(workspaceId: string, id: string): Promise<GraphDataRow> {
+    const { rows } = await this.db.query<GraphDataRow>(
+      `SELECT id, source, title, created_at, table_data
+       FROM graph_data WHERE workspace_id = $1 AND id = $2`,
+      [workspaceId, id],
+    );
+    if (rows.length === 0) throw new NotFoundException(`Table ${id} not found`);
+    return rows[0];
+  }
+
+  private describe(row: GraphDataRow): ChartTable {
+    return {
+      id: row.id,
+      source: row.source,
+      title: row.title,
+      created_at: row.created_at,
+      row_count: dataRows(row.table_data).length,
+      schema: inferSchema(row.table_data),
+    };
+  }
+}
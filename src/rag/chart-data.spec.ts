@@ -0,0 +1,115 @@
+import { buildChartData, inferSchema, parseChartQuery } from './chart-data';
+
+describe('chart-data', () => {
+  const rows = [
+    {
+      Securities: 'AEUUU',
+      Currency: 'EUR',
+      'Market Value': '$1,200.00',
+      'Risk Contribution': '30.80%',
+      'As Of': '2026-09-30',
+    },
+    {
+      Securities: 'NUHGZ',
+      Currency: 'USD',
+      'Market Value': '$800.50',
+      'Risk Contribution': '11.80%',
+      'As Of': '2026-09-30',
+    },
+    {
+      Securities: 'CSTNL',
+      Currency: 'EUR',
+      'Market Value': '$300.00',
+      'Risk Contribution': '10.00%',
+      'As Of': '2026-10-31',
+    },
+    {
+      Securities: 'Grand Total',
+      Currency: '',
+      'Market Value': '$2,300.50',
+      'Risk Contribution': '52.60%',
+      'As Of': '',
+    },
+  ];
+  const schema = inferSchema(rows);
+
+  it('infers column types without the summary row', () => {
+    expect(schema.map((c) => [c.name, c.type, c.unit])).toEqual([
+      ['Securities', 'category', null],
+      ['Currency', 'category', null],
+      ['Market Value', 'currency', '$'],
+      ['Risk Contribution', 'percentage', '%'],
+      ['As Of', 'date', null],
+    ]);
+    expect(schema[0].count).toBe(3);
+  });
+
+  it('returns normalized, sorted series', () => {
+    const chart = buildChartData(
+      rows,
+      schema,
+      parseChartQuery(
+        {
+          dimension: 'Securities',
+          measures: 'Risk Contribution',
+          sort: 'Risk Contribution',
+          order: 'asc',
+        },
+        schema,
+      ),
+    );
+    expect(chart.total).toBe(3);
+    expect(chart.rows[0]).toEqual({
+      Securities: 'CSTNL',
+      Currency: 'EUR',
+      'Market Value': 300,
+      'Risk Contribution': 10,
+      'As Of': '2026-10-31',
+    });
+    expect(chart.series).toEqual([
+      {
+        name: 'Risk Contribution',
+        type: 'percentage',
+        unit: '%',
+        data: [
+          { x: 'CSTNL', y: 10 },
+          { x: 'NUHGZ', y: 11.8 },
+          { x: 'AEUUU', y: 30.8 },
+        ],
+      },
+    ]);
+  });
+
+  it('filters, aggregates by dimension and paginates', () => {
+    const query = parseChartQuery(
+      {
+        dimension: 'Currency',
+        measures: ['Market Value'],
+        aggregate: 'sum',
+        filter: 'As Of:lte:2026-10-31',
+        sort: 'Market Value',
+        order: 'desc',
+        limit: 1,
+      },
+      schema,
+    );
+    const chart = buildChartData(rows, schema, query);
+    expect(chart.total).toBe(2);
+    expect(chart.rows).toEqual([{ Currency: 'EUR', 'Market Value': 1500 }]);
+    expect(
+      buildChartData(rows, schema, { ...query, page: 2 }).series[0].data,
+    ).toEqual([{ x: 'USD', y: 800.5 }]);
+  });
+
+  it('rejects unknown columns and non-numeric measures', () => {
+    expect(() => parseChartQuery({ dimension: 'Sector' }, schema)).toThrow(
+      'Unknown dimension column "Sector"',
+    );
+    expect(() => parseChartQuery({ measures: 'Currency' }, schema)).toThrow(
+      'is not numeric',
+    );
+    expect(() => parseChartQuery({ filter: 'Currency=EUR' }, schema)).toThrow(
+      'filter must look like',
+    );
+  });
+});
@@ -0,0 +1,414 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  AGGREGATE_FNS,
+  aggregateValues,
+  FILTER_OPS,
+  isSummaryRow,
+  parseNumericCell,
+  TableAggregateFn,
+  TableFilterOp,
+} from './table-query';
+
+export type ColumnType =
+  | 'numeric'
+  | 'percentage'
+  | 'currency'
+  | 'date'
+  | 'category';
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  /** "%" for percentages, the symbol for currencies, otherwise null. */
+  unit: string | null;
+  /** Non-empty values among the non-summary rows. */
+  count: number;
+  distinct: number;
+}
+
+export type ChartValue = string | number | null;
+export type ChartRow = Record<string, ChartValue>;
+
+export interface ChartFilter {
+  column: string;
+  op: TableFilterOp;
+  value: string;
+}
+
+export interface ChartQuery {
+  dimension?: string;
+  measures?: string[];
+  aggregate?: TableAggregateFn;
+  filters?: ChartFilter[];
+  sort?: { column: string; direction: 'asc' | 'desc' };
+  page?: number;
+  limit?: number;
+}
+
+export interface ChartSeries {
+  name: string;
+  type: ColumnType;
+  unit: string | null;
+  data: Array<{ x: ChartValue; y: number | null }>;
+}
+
+export interface ChartData {
+  schema: ColumnSchema[];
+  dimension: string;
+  measures: string[];
+  aggregate: TableAggregateFn | null;
+  total: number;
+  page: number;
+  limit: number;
+  rows: ChartRow[];
+  series: ChartSeries[];
+}
+
+export const MEASURE_TYPES: ColumnType[] = [
+  'numeric',
+  'percentage',
+  'currency',
+];
+export const MAX_CHART_LIMIT = 1000;
+// A column keeps its type if this share of its values parse as that type
+const TYPE_THRESHOLD = 0.9;
+const CURRENCY_SYMBOL = /[$€£¥]/;
+const DATE_LIKE =
+  /^(\d{4}-\d{1,2}-\d{1,2}([ T][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?|\d{1,2}\/\d{1,2}\/\d{2,4}|[A-Za-z]{3,9}\.? \d{1,2},? \d{4}|\d{1,2} [A-Za-z]{3,9}\.? \d{4}|[A-Za-z]{3,9}\.? \d{4})$/;
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '')
+  );
+}
+
+function parseDateCell(value: unknown): string | null {
+  if (typeof value !== 'string' || !DATE_LIKE.test(value.trim())) return null;
+  const time = Date.parse(value.trim());
+  if (Number.isNaN(time)) return null;
+  const iso = new Date(time).toISOString();
+  return /T00:00:00\.000Z$/.test(iso) ? iso.slice(0, 10) : iso;
+}
+
+function inferColumn(
+  name: string,
+  rows: Array<Record<string, unknown>>,
+): ColumnSchema {
+  const values = rows.map((r) => r[name]).filter((v) => !isEmpty(v));
+  const count = values.length;
+  const distinct = new Set(values.map((v) => JSON.stringify(v))).size;
+  const share = (predicate: (v: unknown) => boolean) =>
+    count === 0 ? 0 : values.filter(predicate).length / count;
+
+  if (
+    count > 0 &&
+    share((v) => parseNumericCell(v) !== null) >= TYPE_THRESHOLD
+  ) {
+    const strings = values.filter((v): v is string => typeof v === 'string');
+    if (share((v) => typeof v === 'string' && v.includes('%')) >= 0.5) {
+      return { name, type: 'percentage', unit: '%', count, distinct };
+    }
+    const symbols = strings
+      .map((v) => CURRENCY_SYMBOL.exec(v)?.[0])
+      .filter((s): s is string => !!s);
+    if (symbols.length >= count / 2) {
+      return { name, type: 'currency', unit: symbols[0], count, distinct };
+    }
+    return { name, type: 'numeric', unit: null, count, distinct };
+  }
+  if (count > 0 && share((v) => parseDateCell(v) !== null) >= TYPE_THRESHOLD) {
+    return { name, type: 'date', unit: null, count, distinct };
+  }
+  return { name, type: 'category', unit: null, count, distinct };
+}
+
+/** Rows without summary lines such as "Grand Total". */
+export function dataRows(
+  rows: Array<Record<string, unknown>>,
+): Array<Record<string, unknown>> {
+  return rows.filter((r) => !isSummaryRow(r));
+}
+
+/** Infers one schema entry per column, ignoring summary rows. */
+export function inferSchema(
+  rows: Array<Record<string, unknown>>,
+): ColumnSchema[] {
+  const data = dataRows(rows);
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return Array.from(columns).map((name) => inferColumn(name, data));
+}
+
+function normalizeCell(value: unknown, type: ColumnType): ChartValue {
+  if (isEmpty(value)) return null;
+  switch (type) {
+    case 'numeric':
+    case 'percentage':
+    case 'currency':
+      return parseNumericCell(value);
+    case 'date':
+      return parseDateCell(value);
+    case 'category':
+      return typeof value === 'string'
+        ? value.trim()
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value as number | boolean);
+  }
+}
+
+/**
+ * Numbers come back as numbers (percentages keep their displayed scale,
+ * 30.80% -> 30.8), dates as ISO strings, and empty cells as null.
+ */
+export function normalizeRows(
+  rows: Array<Record<string, unknown>>,
+  schema: ColumnSchema[],
+): ChartRow[] {
+  return dataRows(rows).map((row) =>
+    Object.fromEntries(
+      schema.map((c) => [c.name, normalizeCell(row[c.name], c.type)]),
+    ),
+  );
+}
+
+function compareValues(a: ChartValue, b: ChartValue): number {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+function matchesFilter(
+  row: ChartRow,
+  filter: ChartFilter,
+  type: ColumnType,
+): boolean {
+  const cell = row[filter.column];
+  if (filter.op === 'contains') {
+    return String(cell ?? '')
+      .toLowerCase()
+      .includes(filter.value.toLowerCase());
+  }
+  const value = normalizeCell(filter.value, type);
+  if (filter.op === 'eq' || filter.op === 'neq') {
+    const equal =
+      typeof cell === 'string' && typeof value === 'string'
+        ? cell.toLowerCase() === value.toLowerCase()
+        : cell === value;
+    return filter.op === 'eq' ? equal : !equal;
+  }
+  if (cell === null || value === null) return false;
+  const order = compareValues(cell, value);
+  switch (filter.op) {
+    case 'gt':
+      return order > 0;
+    case 'gte':
+      return order >= 0;
+    case 'lt':
+      return order < 0;
+    case 'lte':
+      return order <= 0;
+  }
+}
+
+/**
+ * Filters, optionally aggregates by `dimension`, sorts and pages the
+ * normalized rows, and shapes them into one series per measure. Column
+ * names in the query must already be validated against `schema`.
+ */
+export function buildChartData(
+  tableRows: Array<Record<string, unknown>>,
+  schema: ColumnSchema[],
+  query: ChartQuery,
+): ChartData {
+  const types = new Map(schema.map((c) => [c.name, c.type]));
+  const dimension =
+    query.dimension ??
+    schema.find((c) => c.type === 'category' || c.type === 'date')?.name ??
+    schema[0]?.name ??
+    '';
+  const aggregate = query.aggregate ?? null;
+  let measures =
+    query.measures && query.measures.length > 0
+      ? query.measures
+      : schema
+          .filter((c) => MEASURE_TYPES.includes(c.type) && c.name !== dimension)
+          .map((c) => c.name);
+
+  let rows = normalizeRows(tableRows, schema).filter((row) =>
+    (query.filters ?? []).every((f) =>
+      matchesFilter(row, f, types.get(f.column) ?? 'category'),
+    ),
+  );
+
+  if (aggregate) {
+    const groups = new Map<string, ChartRow[]>();
+    for (const row of rows) {
+      const key = JSON.stringify(row[dimension]);
+      const group = groups.get(key) ?? [];
+      group.push(row);
+      groups.set(key, group);
+    }
+    if (aggregate === 'count') measures = ['count'];
+    rows = Array.from(groups.values()).map((group) => ({
+      [dimension]: group[0][dimension],
+      ...Object.fromEntries(
+        measures.map((m) => [
+          m,
+          aggregateValues(aggregate, group, aggregate === 'count' ? null : m),
+        ]),
+      ),
+    }));
+  }
+
+  if (query.sort) {
+    const { column, direction } = query.sort;
+    const sign = direction === 'asc' ? 1 : -1;
+    rows = [...rows].sort((a, b) => {
+      // Nulls stay last in either direction
+      if (a[column] === null || b[column] === null) {
+        return compareValues(a[column], b[column]);
+      }
+      return sign * compareValues(a[column], b[column]);
+    });
+  }
+
+  const limit = Math.min(Math.max(query.limit ?? 100, 1), MAX_CHART_LIMIT);
+  const page = Math.max(query.page ?? 1, 1);
+  const pageRows = rows.slice((page - 1) * limit, page * limit);
+  const series = measures.map((name): ChartSeries => {
+    const column = schema.find((c) => c.name === name);
+    return {
+      name,
+      type: column?.type ?? 'numeric',
+      unit: column?.unit ?? null,
+      data: pageRows.map((row) => ({
+        x: row[dimension] ?? null,
+        y: typeof row[name] === 'number' ? row[name] : null,
+      })),
+    };
+  });
+
+  return {
+    schema,
+    dimension,
+    measures,
+    aggregate,
+    total: rows.length,
+    page,
+    limit,
+    rows: pageRows,
+    series,
+  };
+}
+
+/**
+ * `?dimension=&measures=&aggregate=&filter=&sort=&order=&page=&limit=`
+ * values, shape-checked by ChartQueryDto.
+ */
+export interface ChartQueryParams {
+  dimension?: string;
+  measures?: string | string[];
+  aggregate?: string;
+  filter?: string | string[];
+  sort?: string;
+  order?: string;
+  page?: number;
+  limit?: number;
+}
+
+const FILTER_PATTERN = new RegExp(`^(.+?):(${FILTER_OPS.join('|')}):(.*)$`);
+
+function list(value?: string | string[]): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return values
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Validates query-string chart options against a table's schema so that
+ * every column referenced exists. Filters are `column:op:value`.
+ */
+export function parseChartQuery(
+  params: ChartQueryParams,
+  schema: ColumnSchema[],
+): ChartQuery {
+  const byName = new Map(schema.map((c) => [c.name, c]));
+  const assertColumn = (name: string, role: string): string => {
+    if (!byName.has(name)) {
+      throw new BadRequestException(`Unknown ${role} column "${name}"`);
+    }
+    return name;
+  };
+
+  const dimension = params.dimension
+    ? assertColumn(params.dimension, 'dimension')
+    : undefined;
+  const measures = list(params.measures).map((m) => {
+    assertColumn(m, 'measure');
+    if (!MEASURE_TYPES.includes(byName.get(m)!.type)) {
+      throw new BadRequestException(`Measure "${m}" is not numeric`);
+    }
+    return m;
+  });
+
+  let aggregate: TableAggregateFn | undefined;
+  if (params.aggregate) {
+    if (!AGGREGATE_FNS.includes(params.aggregate as TableAggregateFn)) {
+      throw new BadRequestException(
+        `aggregate must be one of: ${AGGREGATE_FNS.join(', ')}`,
+      );
+    }
+    aggregate = params.aggregate as TableAggregateFn;
+  }
+
+  const rawFilters = Array.isArray(params.filter)
+    ? params.filter
+    : params.filter
+      ? [params.filter]
+      : [];
+  const filters = rawFilters.map((raw): ChartFilter => {
+    const match = FILTER_PATTERN.exec(raw);
+    if (!match) {
+      throw new BadRequestException(
+        `filter must look like column:op:value with op one of ${FILTER_OPS.join(', ')}`,
+      );
+    }
+    return {
+      column: assertColumn(match[1], 'filter'),
+      op: match[2] as TableFilterOp,
+      value: match[3],
+    };
+  });
+
+  let sort: ChartQuery['sort'];
+  if (params.sort) {
+    if (aggregate) {
+      const allowed = [dimension, ...measures, 'count'].filter(Boolean);
+      // Without an explicit dimension the default one is still sortable
+      if (!allowed.includes(params.sort)) assertColumn(params.sort, 'sort');
+    } else {
+      assertColumn(params.sort, 'sort');
+    }
+    sort = {
+      column: params.sort,
+      direction: params.order === 'desc' ? 'desc' : 'asc',
+    };
+  }
+
+  return {
+    dimension,
+    measures,
+    aggregate,
+    filters,
+    sort,
+    page: params.page,
+    limit: params.limit,
+  };
+}
@@ -0,0 +1,41 @@
+import { BadRequestException } from '@nestjs/common';
+import { appendFilterClauses, parseChunkFilters } from './chunk-filters';
+
+describe('chunk-filters', () => {
+  it('parses comma-separated lists and dates', () => {
+    const filters = parseChunkFilters({
+      source: 'risk.xlsx, exposure.csv',
+      kind: 'row',
+      after: '2026-01-01',
+      latest: 'true',
+    });
+    expect(filters.sources).toEqual(['risk.xlsx', 'exposure.csv']);
+    expect(filters.kinds).toEqual(['row']);
+    expect(filters.ingestedAfter?.toISOString()).toBe(
+      '2026-01-01T00:00:00.000Z',
+    );
+    expect(filters.latestOnly).toBe(true);
+  });
+
+  it('rejects unknown kinds and invalid dates', () => {
+    expect(() => parseChunkFilters({ kind: 'page' })).toThrow(
+      BadRequestException,
+    );
+    expect(() => parseChunkFilters({ before: 'yesterday' })).toThrow(
+      'before must be an ISO date',
+    );
+  });
+
+  it('numbers placeholders after the existing params', () => {
+    const clauses: string[] = [];
+    const params: unknown[] = ['query', 10];
+    appendFilterClauses(
+      { sources: ['risk.xlsx'], sheet: 'Summary', kinds: ['row'] },
+      { table: 'graph_data', alias: 'g' },
+      clauses,
+      params,
+    );
+    expect(clauses).toEqual(['g.source = ANY($3::text[])', 'g.title = $4']);
+    expect(params).toEqual(['query', 10, ['risk.xlsx'], 'Summary']);
+  });
+});
@@ -0,0 +1,108 @@
+import { BadRequestException } from '@nestjs/common';
+import { ChunkKind } from './rag.types';
+
+export const CHUNK_KINDS: ChunkKind[] = ['sheet', 'column', 'row', 'text'];
+
+/** Scopes retrieval to part of the corpus. All set fields must match. */
+export interface ChunkFilters {
+  sources?: string[];
+  sheet?: string;
+  ingestedAfter?: Date;
+  ingestedBefore?: Date;
+  kinds?: ChunkKind[];
+  /** Only rows from each source's most recent ingest. */
+  latestOnly?: boolean;
+}
+
+/**
+ * Appends WHERE clauses for `filters` to `clauses`, pushing their values
+ * onto `params` so they can follow a query's own placeholders. Works on
+ * dashboard_chunks and graph_data: `sheetColumn` is `sheet` or `title`,
+ * and kinds only apply to chunks.
+ */
+export function appendFilterClauses(
+  filters: ChunkFilters,
+  target: { table: 'dashboard_chunks' | 'graph_data'; alias: string },
+  clauses: string[],
+  params: unknown[],
+): void {
+  const { table, alias } = target;
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filters.sources?.length) {
+    clauses.push(`${alias}.source = ANY(${param(filters.sources)}::text[])`);
+  }
+  if (filters.sheet) {
+    const sheetColumn = table === 'graph_data' ? 'title' : 'sheet';
+    clauses.push(`${alias}.${sheetColumn} = ${param(filters.sheet)}`);
+  }
+  if (filters.ingestedAfter) {
+    clauses.push(`${alias}.created_at >= ${param(filters.ingestedAfter)}`);
+  }
+  if (filters.ingestedBefore) {
+    clauses.push(`${alias}.created_at < ${param(filters.ingestedBefore)}`);
+  }
+  if (filters.kinds?.length && table === 'dashboard_chunks') {
+    clauses.push(`${alias}.kind = ANY(${param(filters.kinds)}::text[])`);
+  }
+  if (filters.latestOnly) {
+    clauses.push(
+      `${alias}.ingest_job_id IS NOT DISTINCT FROM (
+         SELECT latest.ingest_job_id FROM ${table} latest
+         WHERE latest.workspace_id = ${alias}.workspace_id
+           AND latest.source = ${alias}.source
+         ORDER BY latest.created_at DESC
+         LIMIT 1
+       )`,
+    );
+  }
+}
+
+function csv(value?: string | string[]): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return values
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function parseDate(name: string, value?: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestException(`${name} must be an ISO date`);
+  }
+  return date;
+}
+
+/** Raw `?source=&sheet=&after=&before=&kind=&latest=` query values. */
+export interface ChunkFilterQuery {
+  source?: string | string[];
+  sheet?: string;
+  after?: string;
+  before?: string;
+  kind?: string | string[];
+  latest?: string;
+}
+
+/** Builds filters from query-string values (lists may be comma-separated). */
+export function parseChunkFilters(query: ChunkFilterQuery): ChunkFilters {
+  const kinds = csv(query.kind);
+  const unknownKind = kinds.find((k) => !CHUNK_KINDS.includes(k as ChunkKind));
+  if (unknownKind) {
+    throw new BadRequestException(
+      `kind must be one of: ${CHUNK_KINDS.join(', ')}`,
+    );
+  }
+  return {
+    sources: csv(query.source),
+    sheet: query.sheet || undefined,
+    ingestedAfter: parseDate('after', query.after),
+    ingestedBefore: parseDate('before', query.before),
+    kinds: kinds as ChunkKind[],
+    latestOnly: query.latest === 'true',
+  };
+}
@@ -0,0 +1,105 @@
+import {
+  chunkText,
+  countTokens,
+  parseChunkingOverrides,
+  resolveChunking,
+  rowsToChunks,
+} from './chunking';
+
+describe('chunking', () => {
+  const rows = Array.from({ length: 200 }, (_, i) => ({
+    Securities: `SEC${i}`,
+    Currency: i % 2 ? 'USD' : 'EUR',
+    'Risk Contribution': `${(i / 10).toFixed(2)}%`,
+  }));
+  const rowNumbers = rows.map((_, i) => i + 2);
+
+  it('packs text by tokens and overlaps consecutive chunks', () => {
+    const text = Array.from(
+      { length: 40 },
+      (_, i) => `Sentence number ${i} talks about exposure.`,
+    ).join(' ');
+    const chunks = chunkText(text, { maxTokens: 40, overlapTokens: 12 });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks)
+      expect(countTokens(chunk)).toBeLessThanOrEqual(40);
+    const lastOfFirst = chunks[0].split('. ').pop()!;
+    expect(chunks[1].startsWith(lastOfFirst.replace(/\.$/, ''))).toBe(true);
+  });
+
+  it('splits large sheets into header-repeating row windows', () => {
+    const chunks = rowsToChunks(
+      rows,
+      rowNumbers,
+      'Sheet: Risk',
+      resolveChunking({ strategy: 'row-window', maxTokens: 128 }),
+    );
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.kind).toBe('row');
+      expect(chunk.content).toMatch(
+        /^Sheet: Risk\nSecurities \| Currency \| Risk Contribution\n/,
+      );
+      expect(countTokens(chunk.content)).toBeLessThanOrEqual(128);
+    }
+    expect(chunks[0].rowStart).toBe(2);
+    expect(chunks[1].rowStart).toBe(chunks[0].rowEnd! + 1);
+    expect(chunks[chunks.length - 1].rowEnd).toBe(201);
+  });
+
+  it('keeps a whole-sheet chunk in auto mode only when it fits', () => {
+    const small = rowsToChunks(
+      rows.slice(0, 3),
+      rowNumbers.slice(0, 3),
+      undefined,
+      resolveChunking({}),
+    );
+    expect(small.map((c) => c.kind)).toEqual([
+      'sheet',
+      'column',
+      'column',
+      'column',
+    ]);
+
+    const large = rowsToChunks(
+      rows,
+      rowNumbers,
+      undefined,
+      resolveChunking({ maxTokens: 256 }),
+    );
+    expect(large.some((c) => c.kind === 'sheet')).toBe(false);
+    expect(large.some((c) => c.kind === 'row')).toBe(true);
+  });
+
+  it('emits one chunk per row in row mode', () => {
+    const chunks = rowsToChunks(
+      rows.slice(0, 2),
+      [5, 6],
+      undefined,
+      resolveChunking({ strategy: 'row' }),
+    );
+    expect(chunks).toEqual([
+      expect.objectContaining({
+        content: 'Securities: SEC0; Currency: EUR; Risk Contribution: 0.00%',
+        rowStart: 5,
+        rowEnd: 5,
+      }),
+      expect.objectContaining({ rowStart: 6, rowEnd: 6 }),
+    ]);
+  });
+
+  it('layers overrides and validates them', () => {
+    expect(
+      resolveChunking(
+        { strategy: 'row', maxTokens: 300 },
+        parseChunkingOverrides({ maxTokens: '200' }),
+      ),
+    ).toEqual({ strategy: 'row', maxTokens: 200, overlapTokens: 64 });
+    expect(() => parseChunkingOverrides({ strategy: 'page' })).toThrow(
+      'strategy must be one of',
+    );
+    expect(() =>
+      resolveChunking({ maxTokens: 100, overlapTokens: 100 }),
+    ).toThrow('overlapTokens');
+  });
+});
@@ -0,0 +1,289 @@
+import { BadRequestException } from '@nestjs/common';
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+import {
+  CHUNK_STRATEGIES,
+  ChunkingOptions,
+  ChunkKind,
+  ChunkStrategy,
+} from './rag.types';
+
+export interface ParsedChunk {
+  content: string;
+  /** Heading the chunk appeared under, '' when the format has none. */
+  title: string;
+  kind: ChunkKind;
+  column: string | null;
+  rowStart: number | null;
+  rowEnd: number | null;
+}
+
+/** Close enough to every supported embedding model for sizing chunks. */
+export const TOKENIZER = 'cl100k_base';
+
+export const DEFAULT_CHUNKING: ChunkingOptions = {
+  strategy: 'auto',
+  maxTokens: 512,
+  overlapTokens: 64,
+};
+
+const MIN_TOKENS = 32;
+export const MAX_TOKENS = 8000;
+
+let encoder: Tiktoken | null = null;
+
+// Loading the BPE ranks takes a few hundred ms, so only do it on first use
+function tokenizer(): Tiktoken {
+  encoder ??= getEncoding(TOKENIZER);
+  return encoder;
+}
+
+export function countTokens(text: string): number {
+  return tokenizer().encode(text).length;
+}
+
+/** The longest prefix of `text` within `maxTokens`, cut on a token boundary. */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const tokens = tokenizer().encode(text);
+  if (tokens.length <= maxTokens) return text;
+  return tokenizer().decode(tokens.slice(0, Math.max(0, maxTokens)));
+}
+
+interface Line {
+  text: string;
+  tokens: number;
+  row: number | null;
+}
+
+function toLine(text: string, row: number | null = null): Line {
+  // +1 for the separator the line is joined with
+  return { text, tokens: countTokens(text) + 1, row };
+}
+
+/**
+ * Greedily packs lines into windows of at most `budget` tokens. Each new
+ * window starts with trailing lines of the previous one, up to `overlap`
+ * tokens. A line larger than the budget gets a window of its own.
+ */
+function packLines(lines: Line[], budget: number, overlap = 0): Line[][] {
+  const windows: Line[][] = [];
+  let current: Line[] = [];
+  let size = 0;
+  let added = 0;
+  for (const line of lines) {
+    if (added > 0 && size + line.tokens > budget) {
+      windows.push(current);
+      const carried: Line[] = [];
+      let carriedSize = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const next = carriedSize + current[i].tokens;
+        if (next > overlap || next + line.tokens > budget) break;
+        carried.unshift(current[i]);
+        carriedSize = next;
+      }
+      current = carried;
+      size = carriedSize;
+      added = 0;
+    }
+    current.push(line);
+    size += line.tokens;
+    added++;
+  }
+  if (added > 0) windows.push(current);
+  return windows;
+}
+
+function splitIntoSentences(text: string): string[] {
+  return text
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+/** Cuts a sentence longer than the budget on token boundaries. */
+function splitLongSentence(sentence: string, maxTokens: number): string[] {
+  const tokens = tokenizer().encode(sentence);
+  if (tokens.length <= maxTokens) return [sentence];
+  const parts: string[] = [];
+  for (let i = 0; i < tokens.length; i += maxTokens) {
+    parts.push(
+      tokenizer()
+        .decode(tokens.slice(i, i + maxTokens))
+        .trim(),
+    );
+  }
+  return parts.filter(Boolean);
+}
+
+export function chunkText(
+  text: string,
+  options: Pick<ChunkingOptions, 'maxTokens' | 'overlapTokens'>,
+): string[] {
+  const lines = splitIntoSentences(text)
+    .flatMap((s) => splitLongSentence(s, options.maxTokens - 1))
+    .map((s) => toLine(s));
+  return packLines(lines, options.maxTokens, options.overlapTokens).map((w) =>
+    w.map((l) => l.text).join(' '),
+  );
+}
+
+export function textChunks(
+  text: string,
+  title: string,
+  options: ChunkingOptions,
+): ParsedChunk[] {
+  return chunkText(text, options).map((content) => ({
+    content,
+    title,
+    kind: 'text',
+    column: null,
+    rowStart: null,
+    rowEnd: null,
+  }));
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value as string | number | boolean);
+}
+
+/**
+ * Packs `lines` under a header that is repeated at the top of every
+ * window. Table windows do not overlap: each row is self-describing once
+ * the header is repeated, and duplicated rows would skew retrieval.
+ */
+function headedWindows(
+  header: string,
+  lines: Line[],
+  maxTokens: number,
+): Array<{ content: string; rowStart: number | null; rowEnd: number | null }> {
+  const budget = Math.max(maxTokens - countTokens(header) - 1, MIN_TOKENS);
+  return packLines(lines, budget).map((window) => ({
+    content: `${header}\n${window.map((l) => l.text).join('\n')}`,
+    rowStart: window[0].row,
+    rowEnd: window[window.length - 1].row,
+  }));
+}
+
+/**
+ * `rowNumbers[i]` is the 1-based row of `rows[i]` in the original sheet or
+ * file, so citations can point at the exact cells.
+ */
+export function rowsToChunks(
+  rows: Array<Record<string, unknown>>,
+  rowNumbers: number[],
+  prefix: string | undefined,
+  options: ChunkingOptions,
+): ParsedChunk[] {
+  if (!rows || rows.length === 0) return [];
+
+  const headers = Object.keys(rows[0]);
+  const head = prefix ? `${prefix}\n` : '';
+  const chunk = (
+    content: string,
+    kind: ChunkKind,
+    rowStart: number | null,
+    rowEnd: number | null,
+    column: string | null = null,
+  ): ParsedChunk => ({ content, title: '', kind, column, rowStart, rowEnd });
+  const fields = (row: Record<string, unknown>) =>
+    headers.map((h) => `${h}: ${cellText(row[h])}`).join('; ');
+
+  // ✅ Each row as one chunk (keeps relationships intact)
+  if (options.strategy === 'row') {
+    return rows.map((row, i) =>
+      chunk(head + fields(row), 'row', rowNumbers[i], rowNumbers[i]),
+    );
+  }
+
+  const chunks: ParsedChunk[] = [];
+  const rowLines = () =>
+    rows.map((row, i) =>
+      toLine(headers.map((h) => cellText(row[h])).join(' | '), rowNumbers[i]),
+    );
+  const windows = () =>
+    headedWindows(
+      `${head}${headers.join(' | ')}`,
+      rowLines(),
+      options.maxTokens,
+    ).map((w) => chunk(w.content, 'row', w.rowStart, w.rowEnd));
+
+  if (options.strategy === 'row-window') return windows();
+
+  // ✅ Whole sheet as one chunk when it fits, header-repeating row windows otherwise
+  const sheet = head + rows.map(fields).join('\n');
+  if (countTokens(sheet) <= options.maxTokens) {
+    chunks.push(
+      chunk(sheet, 'sheet', rowNumbers[0], rowNumbers[rowNumbers.length - 1]),
+    );
+  } else {
+    chunks.push(...windows());
+  }
+
+  // ✅ Each column as one chunk (for trend/summary queries), windowed the same way
+  for (const h of headers) {
+    const values = rows.map((r, i) => toLine(cellText(r[h]), rowNumbers[i]));
+    for (const w of headedWindows(
+      `${head}Column: ${h}`,
+      values,
+      options.maxTokens,
+    )) {
+      chunks.push(chunk(w.content, 'column', w.rowStart, w.rowEnd, h));
+    }
+  }
+
+  return chunks;
+}
+
+function parseTokenCount(name: string, value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0 || n > MAX_TOKENS) {
+    throw new BadRequestException(
+      `${name} must be an integer between 0 and ${MAX_TOKENS}`,
+    );
+  }
+  return n;
+}
+
+/**
+ * Validates chunking overrides from a query string or request body; fields
+ * that are not given are left out so they fall through to the next layer.
+ */
+export function parseChunkingOverrides(raw: {
+  strategy?: unknown;
+  maxTokens?: unknown;
+  overlapTokens?: unknown;
+}): Partial<ChunkingOptions> {
+  const overrides: Partial<ChunkingOptions> = {};
+  if (raw.strategy !== undefined && raw.strategy !== '') {
+    if (!CHUNK_STRATEGIES.includes(raw.strategy as ChunkStrategy)) {
+      throw new BadRequestException(
+        `strategy must be one of: ${CHUNK_STRATEGIES.join(', ')}`,
+      );
+    }
+    overrides.strategy = raw.strategy as ChunkStrategy;
+  }
+  const maxTokens = parseTokenCount('maxTokens', raw.maxTokens);
+  if (maxTokens !== undefined) overrides.maxTokens = maxTokens;
+  const overlapTokens = parseTokenCount('overlapTokens', raw.overlapTokens);
+  if (overlapTokens !== undefined) overrides.overlapTokens = overlapTokens;
+  return overrides;
+}
+
+/** Merges layers left to right (defaults, source config, upload params). */
+export function resolveChunking(
+  ...layers: Array<Partial<ChunkingOptions> | null | undefined>
+): ChunkingOptions {
+  const options = layers.reduce<ChunkingOptions>(
+    (merged, layer) => ({ ...merged, ...layer }),
+    DEFAULT_CHUNKING,
+  );
+  if (options.maxTokens < MIN_TOKENS) {
+    throw new BadRequestException(`maxTokens must be at least ${MIN_TOKENS}`);
+  }
+  if (options.overlapTokens >= options.maxTokens) {
+    throw new BadRequestException('overlapTokens must be less than maxTokens');
+  }
+  return options;
+}
@@ -0,0 +1,59 @@
+import { extractCitations, numberContexts } from './citations';
+import { RetrievedChunk } from './rag.types';
+
+describe('citations', () => {
+  const contexts: RetrievedChunk[] = [
+    {
+      id: 'c1',
+      content: 'Column: Securities\nAEUUU\nNUHGZ',
+      score: 0.9,
+      provenance: {
+        source: 'risk.xlsx',
+        sheet: 'Risk',
+        kind: 'column',
+        column: 'Securities',
+        rowStart: 2,
+        rowEnd: 3,
+      },
+    },
+    {
+      id: 'c2',
+      content: 'Securities: AEUUU; Sum of Risk Contribution: 30.80%',
+      score: 0.8,
+      provenance: {
+        source: 'risk.xlsx',
+        sheet: 'Risk',
+        kind: 'sheet',
+        column: null,
+        rowStart: 2,
+        rowEnd: 3,
+      },
+    },
+  ];
+
+  it('labels numbered context blocks with their provenance', () => {
+    expect(numberContexts(contexts)).toContain(
+      '[1] (source: risk.xlsx, sheet: Risk, column: Securities, rows 2-3)',
+    );
+  });
+
+  it('maps each cited claim to its chunks', () => {
+    const citations = extractCitations(
+      'AEUUU contributes 30.80% [2]. It is listed first [1, 2]. No source here.',
+      contexts,
+    );
+    expect(citations).toHaveLength(2);
+    expect(citations[0].claim).toBe('AEUUU contributes 30.80%.');
+    expect(citations[0].chunks.map((c) => c.chunkId)).toEqual(['c2']);
+    expect(citations[1].chunks.map((c) => c.index)).toEqual([1, 2]);
+    expect(citations[1].chunks[0]).toMatchObject({
+      sheet: 'Risk',
+      column: 'Securities',
+      rowStart: 2,
+    });
+  });
+
+  it('ignores markers that point past the contexts', () => {
+    expect(extractCitations('Made up [7].', contexts)).toEqual([]);
+  });
+});
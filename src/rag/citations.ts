@@ -0,0 +1,97 @@
+import {
+  ChunkKind,
+  ChunkProvenance,
+  Citation,
+  RetrievedChunk,
+} from './rag.types';
+
+/** Columns selected alongside a chunk so it can be traced to its cells. */
+export const PROVENANCE_COLUMNS =
+  'source, sheet, kind, column_name, row_start, row_end';
+
+export interface ProvenanceRow {
+  source: string;
+  sheet: string;
+  kind: ChunkKind;
+  column_name: string | null;
+  row_start: number | null;
+  row_end: number | null;
+}
+
+export function toProvenance(row: ProvenanceRow): ChunkProvenance {
+  return {
+    source: row.source,
+    sheet: row.sheet,
+    kind: row.kind,
+    column: row.column_name,
+    rowStart: row.row_start,
+    rowEnd: row.row_end,
+  };
+}
+
+/** Human-readable label used in the numbered context blocks of the prompt. */
+export function describeProvenance(p: ChunkProvenance): string {
+  const parts = [`source: ${p.source}`];
+  if (p.sheet) parts.push(`sheet: ${p.sheet}`);
+  if (p.column) parts.push(`column: ${p.column}`);
+  if (p.rowStart !== null) {
+    parts.push(
+      p.rowEnd !== null && p.rowEnd !== p.rowStart
+        ? `rows ${p.rowStart}-${p.rowEnd}`
+        : `row ${p.rowStart}`,
+    );
+  }
+  return parts.join(', ');
+}
+
+export function numberContexts(contexts: RetrievedChunk[]): string {
+  return contexts
+    .map(
+      (c, i) =>
+        `[${i + 1}] (${describeProvenance(c.provenance)})\n${c.content}`,
+    )
+    .join('\n---\n');
+}
+
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Splits the answer into sentences and maps every sentence carrying [n]
+ * markers to the numbered contexts it cites. Markers pointing past the
+ * context list are ignored.
+ */
+export function extractCitations(
+  answer: string,
+  contexts: RetrievedChunk[],
+): Citation[] {
+  const citations: Citation[] = [];
+  const sentences = answer
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+  for (const sentence of sentences) {
+    const indexes = new Set<number>();
+    for (const match of sentence.matchAll(MARKER_PATTERN)) {
+      for (const n of match[1].split(',')) {
+        const index = Number(n.trim());
+        if (index >= 1 && index <= contexts.length) indexes.add(index);
+      }
+    }
+    if (indexes.size === 0) continue;
+    const cited = Array.from(indexes)
+      .sort((a, b) => a - b)
+      .map((index) => ({
+        index,
+        chunkId: contexts[index - 1].id,
+        ...contexts[index - 1].provenance,
+      }));
+    citations.push({
+      claim: sentence
+        .replace(MARKER_PATTERN, '')
+        .replace(/\s+([.!?,;])/g, '$1')
+        .trim(),
+      chunks: cited,
+    });
+  }
+  return citations;
+}
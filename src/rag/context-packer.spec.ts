@@ -0,0 +1,83 @@
+import { countTokens } from './chunking';
+import {
+  excerpt,
+  fairShares,
+  packContexts,
+  queryTerms,
+} from './context-packer';
+import { RetrievedChunk } from './rag.types';
+
+describe('context packer', () => {
+  const chunk = (id: string, content: string): RetrievedChunk => ({
+    id,
+    content,
+    score: 0,
+    provenance: {
+      source: 'risk.xlsx',
+      sheet: 'Risk',
+      kind: 'sheet',
+      column: null,
+      rowStart: null,
+      rowEnd: null,
+    },
+  });
+  const sheet = [
+    'Security | Sector | Risk Contribution',
+    ...Array.from(
+      { length: 200 },
+      (_, i) => `SEC${i} | ${i % 2 ? 'Energy' : 'Utilities'} | ${i / 10}%`,
+    ),
+  ].join('\n');
+
+  it('gives small chunks all they need and splits the rest', () => {
+    expect(fairShares([10, 500, 1000], 610)).toEqual([10, 300, 300]);
+    expect(fairShares([10, 20], 100)).toEqual([10, 20]);
+    expect(fairShares([50, 50], -5)).toEqual([0, 0]);
+  });
+
+  it('keeps the header and matching rows of an excerpted table', () => {
+    const text = excerpt(sheet, 60, queryTerms('What is the risk of SEC42?'));
+    const lines = text.split('\n');
+    expect(lines[0]).toBe('Security | Sector | Risk Contribution');
+    expect(lines).toContain('SEC42 | Utilities | 4.2%');
+    expect(lines).toContain('…');
+    expect(countTokens(text)).toBeLessThanOrEqual(60);
+  });
+
+  it('cuts prose on a token boundary', () => {
+    const prose = 'Risk is concentrated in energy names. '.repeat(50);
+    const text = excerpt(prose, 20, []);
+    expect(text.endsWith('…')).toBe(true);
+    expect(countTokens(text)).toBeLessThanOrEqual(21);
+  });
+
+  it('excerpts a whole-sheet chunk instead of dropping the column chunks', () => {
+    const { contexts, packing } = packContexts(
+      [
+        chunk('sheet', sheet),
+        chunk('col-a', 'Column Sector: Energy, Utilities'),
+        chunk('col-b', 'Column Risk Contribution: 0% to 19.9%'),
+      ],
+      { budgetTokens: 400, minExcerptTokens: 32, terms: ['sec42'] },
+    );
+    expect(contexts.map((c) => c.id)).toEqual(['sheet', 'col-a', 'col-b']);
+    expect(contexts[1].content).toBe('Column Sector: Energy, Utilities');
+    expect(packing.dropped).toEqual([]);
+    expect(packing.truncated).toHaveLength(1);
+    expect(packing.truncated[0]).toMatchObject({
+      id: 'sheet',
+      tokens: countTokens(sheet),
+    });
+    expect(packing.usedTokens).toBeLessThanOrEqual(400);
+  });
+
+  it('drops the lowest-ranked chunks when shares get too small', () => {
+    const { contexts, packing } = packContexts(
+      [chunk('a', sheet), chunk('b', sheet), chunk('c', sheet)],
+      { budgetTokens: 150, minExcerptTokens: 50, terms: [] },
+    );
+    expect(contexts.map((c) => c.id)).toEqual(['a', 'b']);
+    expect(packing.dropped).toEqual([{ id: 'c', tokens: countTokens(sheet) }]);
+    expect(packing.truncated.map((t) => t.id)).toEqual(['a', 'b']);
+  });
+});
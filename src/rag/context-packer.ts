@@ -0,0 +1,189 @@
+import { countTokens, truncateToTokens } from './chunking';
+import { describeProvenance } from './citations';
+import { RetrievedChunk } from './rag.types';
+
+/** What the packer did to fit the retrieved chunks into the prompt. */
+export interface ContextPacking {
+  budgetTokens: number;
+  usedTokens: number;
+  /** Chunks excerpted to fit, with their full and kept sizes. */
+  truncated: Array<{ id: string; tokens: number; keptTokens: number }>;
+  /** Chunks left out, lowest ranked first to go. */
+  dropped: Array<{ id: string; tokens: number }>;
+}
+
+export interface PackOptions {
+  budgetTokens: number;
+  /** A chunk that would get less than this is dropped instead of excerpted. */
+  minExcerptTokens: number;
+  /** Lowercased query terms; excerpts keep the lines mentioning them. */
+  terms: string[];
+}
+
+const GAP = '…';
+const QUERY_STOPWORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'what',
+  'which',
+  'with',
+  'their',
+  'how',
+  'are',
+  'was',
+  'show',
+  'give',
+  'from',
+]);
+
+/** Terms of a question worth looking for when excerpting a chunk. */
+export function queryTerms(question: string): string[] {
+  const words = question.toLowerCase().match(/[a-z0-9][a-z0-9.%]*/g) ?? [];
+  return [
+    ...new Set(words.filter((w) => w.length >= 3 && !QUERY_STOPWORDS.has(w))),
+  ];
+}
+
+/**
+ * Splits `available` tokens between chunks max-min fairly: chunks smaller
+ * than an equal share get all they need, the rest split what is left.
+ */
+export function fairShares(sizes: number[], available: number): number[] {
+  const shares = new Array<number>(sizes.length).fill(0);
+  const order = sizes.map((_, i) => i).sort((a, b) => sizes[a] - sizes[b]);
+  let remaining = Math.max(0, available);
+  order.forEach((index, position) => {
+    const share = Math.floor(remaining / (order.length - position));
+    shares[index] = Math.min(sizes[index], share);
+    remaining -= shares[index];
+  });
+  return shares;
+}
+
+/**
+ * Shortens `content` to at most `maxTokens`. Tables keep their header and
+ * the rows that mention the most query terms, in their original order with
+ * `…` marking skipped rows; prose keeps its beginning.
+ */
+export function excerpt(
+  content: string,
+  maxTokens: number,
+  terms: string[],
+): string {
+  if (countTokens(content) <= maxTokens) return content;
+  const lines = content.split('\n');
+  // A prefix line ("Sheet: Risk") may precede the "a | b | c" header
+  const headerLength = lines.slice(0, 2).findIndex((l) => l.includes(' | '));
+  const header = lines.slice(0, headerLength + 1);
+  const body = lines.slice(headerLength + 1);
+  const truncated = () =>
+    truncateToTokens(content, Math.max(0, maxTokens - 1)).trimEnd() + GAP;
+  if (headerLength < 0 || body.length === 0) return truncated();
+
+  const ranked = body
+    .map((text, index) => {
+      const lower = text.toLowerCase();
+      return {
+        index,
+        hits: terms.filter((t) => lower.includes(t)).length,
+        tokens: countTokens(text) + 1,
+      };
+    })
+    .sort((a, b) => b.hits - a.hits || a.index - b.index);
+
+  const render = (kept: Set<number>) => {
+    const out = [...header];
+    body.forEach((text, index) => {
+      if (kept.has(index)) out.push(text);
+      else if (out[out.length - 1] !== GAP) out.push(GAP);
+    });
+    return out.join('\n');
+  };
+  // Every gap marker costs about two tokens; reserve room for them
+  const kept = new Set<number>();
+  let used = countTokens(header.join('\n'));
+  for (const line of ranked) {
+    if (used + line.tokens + 2 > maxTokens) continue;
+    kept.add(line.index);
+    used += line.tokens + 2;
+  }
+  if (kept.size === 0) return truncated();
+  let text = render(kept);
+  // The reservation is an estimate; drop the weakest rows until it fits
+  let weakest = ranked.length - 1;
+  while (kept.size > 0 && countTokens(text) > maxTokens) {
+    if (kept.delete(ranked[weakest--].index)) text = render(kept);
+  }
+  return kept.size > 0 ? text : truncated();
+}
+
+/**
+ * Fits ranked chunks into `budgetTokens`, counting each chunk's numbered
+ * header as the prompt renders it. Chunks that fit whole stay whole; larger
+ * ones share the rest and are excerpted, and when shares would fall below
+ * `minExcerptTokens` the lowest-ranked chunks are dropped until they do
+ * not. The top chunk is always kept, excerpted if need be.
+ */
+export function packContexts(
+  chunks: RetrievedChunk[],
+  options: PackOptions,
+): { contexts: RetrievedChunk[]; packing: ContextPacking } {
+  const separator = countTokens('\n---\n');
+  const sized = chunks.map((chunk, i) => ({
+    chunk,
+    tokens: countTokens(chunk.content),
+    overhead:
+      countTokens(`[${i + 1}] (${describeProvenance(chunk.provenance)})\n`) +
+      separator,
+  }));
+
+  const kept = [...sized];
+  const dropped: ContextPacking['dropped'] = [];
+  let shares: number[] = [];
+  for (;;) {
+    const available =
+      options.budgetTokens - kept.reduce((sum, c) => sum + c.overhead, 0);
+    shares = fairShares(
+      kept.map((c) => c.tokens),
+      available,
+    );
+    const starved = shares.some(
+      (share, i) => share < Math.min(kept[i].tokens, options.minExcerptTokens),
+    );
+    if (!starved || kept.length === 1) break;
+    const last = kept.pop()!;
+    dropped.push({ id: last.chunk.id, tokens: last.tokens });
+  }
+  if (kept.length === 1) {
+    shares[0] = Math.max(
+      shares[0] ?? 0,
+      Math.min(kept[0].tokens, options.minExcerptTokens),
+    );
+  }
+
+  const truncated: ContextPacking['truncated'] = [];
+  let usedTokens = 0;
+  const contexts = kept.map(({ chunk, tokens, overhead }, i) => {
+    usedTokens += overhead;
+    if (shares[i] >= tokens) {
+      usedTokens += tokens;
+      return chunk;
+    }
+    const content = excerpt(chunk.content, shares[i], options.terms);
+    const keptTokens = countTokens(content);
+    usedTokens += keptTokens;
+    truncated.push({ id: chunk.id, tokens, keptTokens });
+    return { ...chunk, content };
+  });
+
+  return {
+    contexts,
+    packing: {
+      budgetTokens: options.budgetTokens,
+      usedTokens,
+      truncated,
+      dropped,
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { UnsupportedMediaTypeException } from '@nestjs/common';
+import { parseHtml, parseMarkdown, parseNdjson } from './document-formats';
+import { parseDocument } from './ingest-parser';
+
+describe('document-formats', () => {
+  it('keeps markdown headings and extracts pipe tables', () => {
+    const blocks = parseMarkdown(
+      [
+        '# Risk memo',
+        'Exposure rose in Q3.',
+        '',
+        '## Top positions',
+        '| Securities | Weight |',
+        '| --- | ---: |',
+        '| AEUUU | 30.80% |',
+        '| NUHGZ | 11.80% |',
+      ].join('\n'),
+    );
+    expect(blocks).toEqual([
+      { type: 'text', heading: 'Risk memo', text: 'Exposure rose in Q3.' },
+      {
+        type: 'table',
+        heading: 'Top positions',
+        records: [
+          { Securities: 'AEUUU', Weight: '30.80%' },
+          { Securities: 'NUHGZ', Weight: '11.80%' },
+        ],
+        rowNumbers: [2, 3],
+      },
+    ]);
+  });
+
+  it('walks HTML headings and tables, skipping scripts', () => {
+    const blocks = parseHtml(
+      `<html><head><title>x</title></head><body>
+        <h1>Summary</h1><p>Risk is <b>concentrated</b>.</p>
+        <script>alert(1)</script>
+        <table><tr><th>Currency</th><th></th></tr><tr><td>EUR</td><td>40.8</td></tr></table>
+      </body></html>`,
+    );
+    expect(blocks).toEqual([
+      { type: 'text', heading: 'Summary', text: 'Risk is concentrated.' },
+      {
+        type: 'table',
+        heading: 'Summary',
+        records: [{ Currency: 'EUR', 'Column 2': '40.8' }],
+        rowNumbers: [2],
+      },
+    ]);
+  });
+
+  it('reads NDJSON objects as table rows numbered by line', () => {
+    const [table] = parseNdjson('{"a":1}\n\n{"b":{"c":2}}\n');
+    expect(table).toEqual({
+      type: 'table',
+      heading: '',
+      records: [
+        { a: 1, b: '' },
+        { a: '', b: '{"c":2}' },
+      ],
+      rowNumbers: [1, 3],
+    });
+  });
+
+  it('titles JSON tables by path and rejects unsupported binaries', async () => {
+    const sections = await parseDocument({
+      fileName: 'positions.json',
+      mimeType: 'application/octet-stream',
+      buffer: Buffer.from(
+        JSON.stringify({ asOf: '2026-09-30', positions: [{ id: 'AEUUU' }] }),
+      ),
+    });
+    expect(sections.map((s) => s.name)).toEqual(['', 'positions (table 1)']);
+    expect(sections[0].chunks[0]).toMatchObject({
+      content: 'asOf: 2026-09-30',
+      title: '',
+    });
+
+    await expect(
+      parseDocument({
+        fileName: 'deck.pptx',
+        mimeType: 'application/octet-stream',
+        buffer: Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00, 0xff]),
+      }),
+    ).rejects.toThrow(UnsupportedMediaTypeException);
+  });
+});
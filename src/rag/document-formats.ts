@@ -0,0 +1,357 @@
+import * as mammoth from 'mammoth';
+import {
+  HTMLElement,
+  Node,
+  NodeType,
+  parse as parseHtmlDocument,
+} from 'node-html-parser';
+import { PDFParse } from 'pdf-parse';
+
+/**
+ * Format-neutral output of the document parsers: running text and the
+ * tables found in it, each under the heading it appeared beneath.
+ */
+export type DocumentBlock =
+  | { type: 'text'; heading: string; text: string }
+  | {
+      type: 'table';
+      heading: string;
+      records: Array<Record<string, unknown>>;
+      /** 1-based position of each record in the table or file. */
+      rowNumbers: number[];
+    };
+
+const SKIPPED_TAGS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'head',
+  'svg',
+]);
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'br',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'footer',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'ul',
+]);
+
+const MARKDOWN_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+const MARKDOWN_FENCE = /^\s{0,3}(```|~~~)/;
+const MARKDOWN_TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Turns a grid whose first row is the header into records. Blank headers
+ * become "Column n" and repeated ones get a suffix so no cell is lost.
+ */
+export function gridToTable(
+  grid: string[][],
+  heading: string,
+): DocumentBlock | null {
+  if (grid.length < 2) return null;
+  const seen = new Map<string, number>();
+  const headers = grid[0].map((cell, i) => {
+    const base = cell.trim() || `Column ${i + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+
+  const records: Array<Record<string, unknown>> = [];
+  const rowNumbers: number[] = [];
+  grid.slice(1).forEach((cells, i) => {
+    if (cells.every((c) => !c.trim())) return;
+    records.push(
+      Object.fromEntries(headers.map((h, j) => [h, cells[j]?.trim() ?? ''])),
+    );
+    // The header is row 1
+    rowNumbers.push(i + 2);
+  });
+  if (records.length === 0) return null;
+  return { type: 'table', heading, records, rowNumbers };
+}
+
+function splitPipeRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.replace(/\\\|/g, '|').trim());
+}
+
+/** ATX headings become block headings; GFM pipe tables become tables. */
+export function parseMarkdown(markdown: string): DocumentBlock[] {
+  const lines = markdown.split(/\r?\n/);
+  const blocks: DocumentBlock[] = [];
+  let heading = '';
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) blocks.push({ type: 'text', heading, text });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (MARKDOWN_FENCE.test(line)) inFence = !inFence;
+    if (inFence) {
+      paragraph.push(line);
+      continue;
+    }
+
+    const match = MARKDOWN_HEADING.exec(line);
+    if (match) {
+      flush();
+      heading = match[2].trim();
+      continue;
+    }
+
+    if (
+      line.includes('|') &&
+      i + 1 < lines.length &&
+      MARKDOWN_TABLE_DIVIDER.test(lines[i + 1])
+    ) {
+      flush();
+      const grid = [splitPipeRow(line)];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        grid.push(splitPipeRow(lines[i]));
+        i++;
+      }
+      i--;
+      const table = gridToTable(grid, heading);
+      if (table) blocks.push(table);
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+/** h1-h6 become block headings; every <table> becomes a table. */
+export function parseHtml(html: string): DocumentBlock[] {
+  const root = parseHtmlDocument(html, {
+    blockTextElements: { script: false, style: false, noscript: false },
+  });
+  const blocks: DocumentBlock[] = [];
+  let heading = '';
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const text = buffer
+      .join('')
+      .split('\n')
+      .map(collapseWhitespace)
+      .filter(Boolean)
+      .join('\n');
+    if (text) blocks.push({ type: 'text', heading, text });
+    buffer = [];
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      buffer.push(node.text);
+      return;
+    }
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+    const element = node as HTMLElement;
+    const tag = (element.tagName ?? '').toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    if (/^h[1-6]$/.test(tag)) {
+      flush();
+      heading = collapseWhitespace(element.text) || heading;
+      return;
+    }
+    if (tag === 'table') {
+      flush();
+      const grid = element
+        .querySelectorAll('tr')
+        .map((row) =>
+          row
+            .querySelectorAll('th, td')
+            .map((cell) => collapseWhitespace(cell.text)),
+        );
+      const table = gridToTable(grid, heading);
+      if (table) blocks.push(table);
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) buffer.push('\n');
+    element.childNodes.forEach(walk);
+    if (isBlock) buffer.push('\n');
+  };
+
+  root.childNodes.forEach(walk);
+  flush();
+  return blocks;
+}
+
+/** Word styles map to HTML headings and tables, so DOCX reuses parseHtml. */
+export async function parseDocx(buffer: Buffer): Promise<DocumentBlock[]> {
+  const { value } = await mammoth.convertToHtml({ buffer });
+  return parseHtml(value);
+}
+
+/**
+ * PDFs carry no reliable heading structure, so text and the tables
+ * detected from ruling lines are titled by page.
+ */
+export async function parsePdf(buffer: Buffer): Promise<DocumentBlock[]> {
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const text = await parser.getText();
+    const tables = await parser.getTable();
+    const blocks: DocumentBlock[] = [];
+    for (const page of text.pages) {
+      const heading = `Page ${page.num}`;
+      const pageText = page.text.trim();
+      if (pageText) blocks.push({ type: 'text', heading, text: pageText });
+      const pageTables =
+        tables.pages.find((p) => p.num === page.num)?.tables ?? [];
+      for (const grid of pageTables) {
+        const table = gridToTable(grid, heading);
+        if (table) blocks.push(table);
+      }
+    }
+    return blocks;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRecordArray(
+  value: unknown,
+): value is Array<Record<string, unknown>> {
+  return Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/** Nested values are kept as JSON; every record gets every column. */
+function recordsTable(
+  items: Array<Record<string, unknown>>,
+  rowNumbers: number[],
+  heading: string,
+): DocumentBlock {
+  const columns = Array.from(new Set(items.flatMap((i) => Object.keys(i))));
+  const records = items.map((item) =>
+    Object.fromEntries(
+      columns.map((c) => {
+        const value = item[c];
+        return [
+          c,
+          value === null || value === undefined
+            ? ''
+            : typeof value === 'object'
+              ? JSON.stringify(value)
+              : value,
+        ];
+      }),
+    ),
+  );
+  return { type: 'table', heading, records, rowNumbers };
+}
+
+function jsonBlocks(value: unknown, heading: string): DocumentBlock[] {
+  if (isRecordArray(value)) {
+    return [
+      recordsTable(
+        value,
+        value.map((_, i) => i + 1),
+        heading,
+      ),
+    ];
+  }
+  if (!isPlainObject(value)) {
+    const text = Array.isArray(value)
+      ? value.map(formatValue).join('\n')
+      : formatValue(value);
+    return text.trim() ? [{ type: 'text', heading, text }] : [];
+  }
+
+  const blocks: DocumentBlock[] = [];
+  const fields: string[] = [];
+  for (const [key, child] of Object.entries(value)) {
+    if (isRecordArray(child) || isPlainObject(child)) {
+      blocks.push(...jsonBlocks(child, heading ? `${heading}.${key}` : key));
+    } else {
+      fields.push(`${key}: ${formatValue(child)}`);
+    }
+  }
+  if (fields.length) {
+    blocks.unshift({ type: 'text', heading, text: fields.join('\n') });
+  }
+  return blocks;
+}
+
+/**
+ * Arrays of objects become tables (keyed by their JSON path), remaining
+ * scalar fields become "key: value" text.
+ */
+export function parseJson(text: string): DocumentBlock[] {
+  return jsonBlocks(JSON.parse(text), '');
+}
+
+/** One object per line; row numbers are the file's line numbers. */
+export function parseNdjson(text: string): DocumentBlock[] {
+  const items: Array<Record<string, unknown>> = [];
+  const rowNumbers: number[] = [];
+  const other: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch (err) {
+      throw new Error(`Invalid JSON on line ${i + 1}: ${String(err)}`);
+    }
+    if (isPlainObject(value)) {
+      items.push(value);
+      rowNumbers.push(i + 1);
+    } else {
+      other.push(formatValue(value));
+    }
+  });
+
+  const blocks: DocumentBlock[] = [];
+  if (items.length) blocks.push(recordsTable(items, rowNumbers, ''));
+  if (other.length) {
+    blocks.push({ type: 'text', heading: '', text: other.join('\n') });
+  }
+  return blocks;
+}
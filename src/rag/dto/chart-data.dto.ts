@@ -0,0 +1,45 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { ChartQueryParams, MAX_CHART_LIMIT } from '../chart-data';
+import { AGGREGATE_FNS, TableAggregateFn } from '../table-query';
+
+/** Columns are checked against the table's schema by parseChartQuery. */
+export class ChartQueryDto implements ChartQueryParams {
+  @IsOptional()
+  @IsString()
+  dimension?: string;
+
+  @IsOptional()
+  @IsString({ each: true })
+  measures?: string | string[];
+
+  @IsOptional()
+  @IsIn(AGGREGATE_FNS)
+  aggregate?: TableAggregateFn;
+
+  /** `column:op:value`, repeatable. */
+  @IsOptional()
+  @IsString({ each: true })
+  filter?: string | string[];
+
+  @IsOptional()
+  @IsString()
+  sort?: string;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_CHART_LIMIT)
+  limit?: number;
+}
@@ -0,0 +1,35 @@
+import { IsIn, IsISO8601, IsOptional, IsUUID, Matches } from 'class-validator';
+import {
+  ANSWER_EXPORT_FORMATS,
+  AnswerExportFormat,
+  TRANSCRIPT_FORMATS,
+  TranscriptFormat,
+} from '../exports';
+import { AS_OF_MESSAGE, AS_OF_PATTERN } from './snapshot.dto';
+
+export class TranscriptExportQueryDto {
+  @IsOptional()
+  @IsIn(TRANSCRIPT_FORMATS)
+  format?: TranscriptFormat;
+}
+
+/** Days are inclusive on both ends. */
+export class AnswerExportQueryDto {
+  @IsOptional()
+  @Matches(AS_OF_PATTERN, { message: AS_OF_MESSAGE })
+  @IsISO8601({ strict: true })
+  from?: string;
+
+  @IsOptional()
+  @Matches(AS_OF_PATTERN, { message: AS_OF_MESSAGE })
+  @IsISO8601({ strict: true })
+  to?: string;
+
+  @IsOptional()
+  @IsUUID()
+  conversationId?: string;
+
+  @IsOptional()
+  @IsIn(ANSWER_EXPORT_FORMATS)
+  format?: AnswerExportFormat;
+}
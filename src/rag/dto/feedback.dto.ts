@@ -0,0 +1,46 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { FEEDBACK_RATINGS, FeedbackRating } from '../rag.types';
+import { MAX_K } from './query.dto';
+
+export class SubmitFeedbackDto {
+  @IsIn(FEEDBACK_RATINGS)
+  rating: FeedbackRating;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(4000)
+  correction?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_K)
+  @IsUUID('all', { each: true })
+  flaggedChunkIds?: string[];
+}
+
+export class FeedbackReportQueryDto {
+  @IsOptional()
+  @IsDateString()
+  since?: string;
+
+  /** Low-rated questions listed per source. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  questions?: number;
+}
@@ -0,0 +1,58 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  Max,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { MAX_TOKENS } from '../chunking';
+import {
+  CHUNK_STRATEGIES,
+  ChunkStrategy,
+  INGEST_MODES,
+  IngestMode,
+} from '../rag.types';
+import { AS_OF_MESSAGE, AS_OF_PATTERN } from './snapshot.dto';
+
+/** Chunking overrides, from upload query params or a source's settings. */
+export class ChunkingDto {
+  @IsOptional()
+  @IsIn(CHUNK_STRATEGIES)
+  strategy?: ChunkStrategy;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(MAX_TOKENS)
+  maxTokens?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(MAX_TOKENS)
+  overlapTokens?: number;
+}
+
+export class IngestFileQueryDto extends ChunkingDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  source?: string;
+
+  @IsOptional()
+  @IsIn(INGEST_MODES)
+  mode: IngestMode = 'replace';
+
+  /** Reporting date of the upload; detected from the file when unset. */
+  @IsOptional()
+  @Matches(AS_OF_PATTERN, { message: AS_OF_MESSAGE })
+  @IsISO8601({ strict: true })
+  asOf?: string;
+}
@@ -0,0 +1,84 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBooleanString,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ChunkFilterQuery } from '../chunk-filters';
+
+export const MAX_QUESTION_LENGTH = 2000;
+export const MAX_K = 50;
+
+/** `?source=` narrowing a listing to one source. */
+export class SourceQueryDto {
+  @IsOptional()
+  @IsString()
+  source?: string;
+}
+
+/** `?source=&sheet=&after=&before=&kind=&latest=`, see parseChunkFilters. */
+export class ChunkFilterQueryDto implements ChunkFilterQuery {
+  @IsOptional()
+  @IsString({ each: true })
+  source?: string | string[];
+
+  @IsOptional()
+  @IsString()
+  sheet?: string;
+
+  @IsOptional()
+  @IsDateString()
+  after?: string;
+
+  @IsOptional()
+  @IsDateString()
+  before?: string;
+
+  @IsOptional()
+  @IsString({ each: true })
+  kind?: string | string[];
+
+  @IsOptional()
+  @IsBooleanString()
+  latest?: string;
+}
+
+export class QueryDto extends ChunkFilterQueryDto {
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_QUESTION_LENGTH)
+  q: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_K)
+  k: number = 5;
+
+  @IsOptional()
+  @IsUUID()
+  conversationId?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  debug?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  visualize?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  cache?: string;
+}
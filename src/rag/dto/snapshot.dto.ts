@@ -0,0 +1,27 @@
+import { IsISO8601, IsOptional, IsString, Matches } from 'class-validator';
+
+/** Reporting dates are calendar days. */
+export const AS_OF_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+export const AS_OF_MESSAGE = '$property must be a YYYY-MM-DD date';
+
+export class SnapshotDiffQueryDto {
+  /** Sheet title; optional when the snapshots share a single table. */
+  @IsOptional()
+  @IsString()
+  table?: string;
+
+  @IsOptional()
+  @Matches(AS_OF_PATTERN, { message: AS_OF_MESSAGE })
+  @IsISO8601({ strict: true })
+  from?: string;
+
+  @IsOptional()
+  @Matches(AS_OF_PATTERN, { message: AS_OF_MESSAGE })
+  @IsISO8601({ strict: true })
+  to?: string;
+
+  /** Column matching rows across snapshots; inferred when unset. */
+  @IsOptional()
+  @IsString()
+  key?: string;
+}
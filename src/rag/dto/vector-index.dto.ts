@@ -0,0 +1,48 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { VECTOR_INDEX_METHODS, VectorIndexMethod } from '../vector-index';
+import { MAX_K } from './query.dto';
+
+/** Unset parameters get pgvector's recommended defaults. */
+export class RebuildVectorIndexDto {
+  @IsIn(VECTOR_INDEX_METHODS)
+  method: VectorIndexMethod;
+
+  /** HNSW only. */
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(100)
+  m?: number;
+
+  /** HNSW only; at least 2 * m. */
+  @IsOptional()
+  @IsInt()
+  @Min(4)
+  @Max(1000)
+  efConstruction?: number;
+
+  /** IVFFlat only. */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(32768)
+  lists?: number;
+}
+
+export class VectorIndexReportQueryDto {
+  /** Chunks to use as recall queries; 0 skips the measurement. */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(200)
+  sample?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_K)
+  k?: number;
+}
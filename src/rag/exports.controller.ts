@@ -0,0 +1,58 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import { WorkspaceId } from '../auth/auth.decorators';
+import {
+  AnswerExportQueryDto,
+  TranscriptExportQueryDto,
+} from './dto/export.dto';
+import { ExportFile } from './exports';
+import { ExportsService } from './exports.service';
+
+function attachment(file: ExportFile): StreamableFile {
+  return new StreamableFile(file.content, {
+    type: file.contentType,
+    disposition: `attachment; filename="${file.fileName}"`,
+    length: file.content.length,
+  });
+}
+
+@Controller('rag')
+export class ExportsController {
+  constructor(private readonly exports: ExportsService) {}
+
+  /** The conversation as Markdown (default) or a printable HTML page. */
+  @Get('conversations/:id/export')
+  async conversation(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() { format = 'md' }: TranscriptExportQueryDto,
+  ): Promise<StreamableFile> {
+    return attachment(
+      await this.exports.conversationTranscript(workspaceId, id, format),
+    );
+  }
+
+  /** e.g. ?from=2026-10-01&to=2026-10-31&format=xlsx */
+  @Get('chat-history/export')
+  async answers(
+    @WorkspaceId() workspaceId: string,
+    @Query() { format = 'csv', ...range }: AnswerExportQueryDto,
+  ): Promise<StreamableFile> {
+    return attachment(await this.exports.answers(workspaceId, range, format));
+  }
+
+  /** The computed result of a table answer as an .xlsx workbook. */
+  @Get('chat-history/:id/table/export')
+  async tableAnswer(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<StreamableFile> {
+    return attachment(await this.exports.tableAnswer(workspaceId, id));
+  }
+}
@@ -0,0 +1,66 @@
+import { GoneException } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+import { DatabaseService } from '../database/database.service';
+import { ExportedExchange } from './exports';
+import { ExportsService } from './exports.service';
+import { RetrievalRecord } from './rag.types';
+import { TableQueryPlan } from './table-query';
+
+describe('ExportsService', () => {
+  const plan: TableQueryPlan = {
+    tableId: 't1',
+    filters: [],
+    groupBy: null,
+    aggregate: null,
+    orderBy: { column: 'Risk', direction: 'desc' },
+    limit: 1,
+  };
+  const table: RetrievalRecord = {
+    id: 't1',
+    kind: 'table',
+    source: 'risk.xlsx',
+    score: null,
+    plan,
+  };
+  const exchange = (record: RetrievalRecord): ExportedExchange => ({
+    id: 'h1',
+    conversation_id: null,
+    query: 'Top risk contributor?',
+    response: 'AEUUU.',
+    retrieved: [record],
+    created_at: '2026-10-01T09:00:00.000Z',
+  });
+  // graph_data has no rows: the table was replaced by a later ingest
+  const serviceFor = (record: RetrievalRecord) =>
+    new ExportsService({
+      query: (sql: string) =>
+        Promise.resolve({
+          rows: sql.includes('FROM chat_history') ? [exchange(record)] : [],
+        }),
+    } as unknown as DatabaseService);
+
+  it('exports the result saved with the answer after the table is replaced', async () => {
+    const file = await serviceFor({
+      ...table,
+      title: 'Risk',
+      result: {
+        columns: ['Securities', 'Risk'],
+        rows: [{ Securities: 'AEUUU', Risk: 30.8 }],
+      },
+    }).tableAnswer('ws-1', 'h1');
+    const workbook = XLSX.read(file.content);
+    expect(workbook.SheetNames).toEqual(['Risk', 'Query']);
+    expect(
+      XLSX.utils.sheet_to_json(workbook.Sheets.Risk, { header: 1 }),
+    ).toEqual([
+      ['Securities', 'Risk'],
+      ['AEUUU', 30.8],
+    ]);
+  });
+
+  it('reports older answers whose table was replaced as gone', async () => {
+    await expect(serviceFor(table).tableAnswer('ws-1', 'h1')).rejects.toThrow(
+      GoneException,
+    );
+  });
+});
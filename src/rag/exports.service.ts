@@ -0,0 +1,201 @@
+import {
+  BadRequestException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import {
+  ANSWER_EXPORT_COLUMNS,
+  AnswerExportFormat,
+  answerRows,
+  CONTENT_TYPES,
+  ExportedExchange,
+  ExportFile,
+  fileSlug,
+  toCsv,
+  toXlsx,
+  TranscriptFormat,
+  transcriptHtml,
+  transcriptMarkdown,
+} from './exports';
+import { RetrievalRecord } from './rag.types';
+import {
+  executeTablePlan,
+  TableQueryPlan,
+  TableQueryResult,
+} from './table-query';
+
+// Larger exports should be split by date range
+export const MAX_EXPORT_ANSWERS = 10000;
+
+const EXCHANGE_COLUMNS =
+  'id, conversation_id, query, response, retrieved, created_at';
+
+/** Conversations, answers and table results as files to share outside the app. */
+@Injectable()
+export class ExportsService {
+  constructor(private readonly db: DatabaseService) {}
+
+  async conversationTranscript(
+    workspaceId: string,
+    conversationId: string,
+    format: TranscriptFormat,
+  ): Promise<ExportFile> {
+    const { rows: conversations } = await this.db.query<{
+      title: string;
+      created_at: string;
+    }>(
+      `SELECT title, created_at FROM conversations
+       WHERE workspace_id = $1 AND id = $2`,
+      [workspaceId, conversationId],
+    );
+    if (conversations.length === 0) {
+      throw new NotFoundException(`Conversation ${conversationId} not found`);
+    }
+    const { rows: exchanges } = await this.db.query<ExportedExchange>(
+      `SELECT ${EXCHANGE_COLUMNS} FROM chat_history
+       WHERE workspace_id = $1 AND conversation_id = $2
+       ORDER BY created_at`,
+      [workspaceId, conversationId],
+    );
+
+    const [conversation] = conversations;
+    const render = format === 'html' ? transcriptHtml : transcriptMarkdown;
+    const name = fileSlug(conversation.title) || conversationId;
+    return {
+      fileName: `conversation-${name}.${format}`,
+      contentType: CONTENT_TYPES[format],
+      content: Buffer.from(render(conversation, exchanges)),
+    };
+  }
+
+  /**
+   * Questions and answers asked between `from` and `to` (whole days, both
+   * inclusive; unbounded when unset), oldest first.
+   */
+  async answers(
+    workspaceId: string,
+    range: { from?: string; to?: string; conversationId?: string },
+    format: AnswerExportFormat,
+  ): Promise<ExportFile> {
+    const { rows } = await this.db.query<ExportedExchange>(
+      `SELECT ${EXCHANGE_COLUMNS} FROM chat_history
+       WHERE workspace_id = $1
+         AND ($2::date IS NULL OR created_at >= $2::date)
+         AND ($3::date IS NULL OR created_at < $3::date + 1)
+         AND ($4::uuid IS NULL OR conversation_id = $4)
+       ORDER BY created_at
+       LIMIT $5`,
+      [
+        workspaceId,
+        range.from ?? null,
+        range.to ?? null,
+        range.conversationId ?? null,
+        MAX_EXPORT_ANSWERS + 1,
+      ],
+    );
+    if (rows.length > MAX_EXPORT_ANSWERS) {
+      throw new BadRequestException(
+        `More than ${MAX_EXPORT_ANSWERS} answers in range; narrow it with from and to`,
+      );
+    }
+
+    const exported = answerRows(rows);
+    const period = [range.from ?? 'start', range.to ?? 'now'].join('-to-');
+    return {
+      fileName: `answers-${period}.${format}`,
+      contentType: CONTENT_TYPES[format],
+      content:
+        format === 'xlsx'
+          ? toXlsx([
+              {
+                name: 'Answers',
+                columns: ANSWER_EXPORT_COLUMNS,
+                rows: exported,
+              },
+            ])
+          : Buffer.from(toCsv(ANSWER_EXPORT_COLUMNS, exported)),
+    };
+  }
+
+  /**
+   * The result of a table answer as it was when answered, with a second
+   * sheet saying how it was computed. Answers saved before results were
+   * kept with them are recomputed from graph_data, which fails once a
+   * later ingest has replaced the table.
+   */
+  async tableAnswer(
+    workspaceId: string,
+    chatHistoryId: string,
+  ): Promise<ExportFile> {
+    const { rows: answers } = await this.db.query<ExportedExchange>(
+      `SELECT ${EXCHANGE_COLUMNS} FROM chat_history
+       WHERE workspace_id = $1 AND id = $2`,
+      [workspaceId, chatHistoryId],
+    );
+    if (answers.length === 0) {
+      throw new NotFoundException(`Chat history ${chatHistoryId} not found`);
+    }
+    const [answer] = answers;
+    const record = answer.retrieved.find((r) => r.kind === 'table' && r.plan);
+    if (!record?.plan) {
+      throw new NotFoundException(
+        `No table result for chat history ${chatHistoryId}`,
+      );
+    }
+
+    const { title, result } =
+      record.title !== undefined && record.result
+        ? { title: record.title, result: record.result }
+        : await this.recomputeTable(workspaceId, record, record.plan);
+    const { tableId, ...plan } = record.plan;
+    return {
+      fileName: `answer-${chatHistoryId}.xlsx`,
+      contentType: CONTENT_TYPES.xlsx,
+      content: toXlsx([
+        { name: title || 'Result', ...result },
+        {
+          name: 'Query',
+          columns: ['field', 'value'],
+          rows: [
+            { field: 'question', value: answer.query },
+            {
+              field: 'asked_at',
+              value: new Date(answer.created_at).toISOString(),
+            },
+            { field: 'source', value: record.source },
+            { field: 'table', value: title },
+            { field: 'table_id', value: tableId },
+            { field: 'plan', value: JSON.stringify(plan) },
+          ],
+        },
+      ]),
+    };
+  }
+
+  private async recomputeTable(
+    workspaceId: string,
+    record: RetrievalRecord,
+    plan: TableQueryPlan,
+  ): Promise<{ title: string; result: TableQueryResult }> {
+    const { rows: tables } = await this.db.query<{
+      title: string;
+      table_data: Array<Record<string, unknown>>;
+    }>(
+      `SELECT title, table_data FROM graph_data
+       WHERE workspace_id = $1 AND id = $2`,
+      [workspaceId, record.id],
+    );
+    if (tables.length === 0) {
+      throw new GoneException(
+        `Table ${record.id} was replaced by a later ingest of ${record.source}`,
+      );
+    }
+    const [table] = tables;
+    return {
+      title: table.title,
+      result: executeTablePlan(table.table_data, plan),
+    };
+  }
+}
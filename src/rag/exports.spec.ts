@@ -0,0 +1,100 @@
+import * as XLSX from 'xlsx';
+import {
+  ANSWER_EXPORT_COLUMNS,
+  answerRows,
+  ExportedExchange,
+  fileSlug,
+  toCsv,
+  toXlsx,
+  transcriptHtml,
+  transcriptMarkdown,
+} from './exports';
+
+describe('exports', () => {
+  const conversation = {
+    title: 'Risk <review>',
+    created_at: '2026-10-01T09:00:00.000Z',
+  };
+  const exchanges: ExportedExchange[] = [
+    {
+      id: 'h1',
+      conversation_id: 'c1',
+      query: 'Top risk\ncontributors?',
+      response: 'AEUUU leads with 4.2% [1].',
+      retrieved: [
+        { id: 'k1', kind: 'chunk', source: 'risk.xlsx', score: 0.03 },
+        { id: 'k2', kind: 'chunk', source: 'risk.xlsx', score: 0.02 },
+        { id: 'k3', kind: 'chunk', source: 'notes.pdf', score: 0.01 },
+      ],
+      created_at: '2026-10-01T09:01:30.250Z',
+    },
+    {
+      id: 'h2',
+      conversation_id: 'c1',
+      query: '=HYPERLINK("http://x")',
+      response: null,
+      retrieved: [],
+      created_at: '2026-10-01T09:05:00.000Z',
+    },
+  ];
+
+  it('writes a Markdown transcript oldest first', () => {
+    const md = transcriptMarkdown(conversation, exchanges);
+    expect(md).toContain('# Risk <review>\n');
+    expect(md).toContain('## 1. Top risk contributors?');
+    expect(md).toContain('_Asked 2026-10-01T09:01:30Z_');
+    expect(md).toContain('**Sources:** risk.xlsx, notes.pdf');
+    expect(md).toContain('_No answer was saved._');
+    expect(md.indexOf('## 1.')).toBeLessThan(md.indexOf('## 2.'));
+  });
+
+  it('escapes everything that goes into the HTML transcript', () => {
+    const html = transcriptHtml(conversation, exchanges);
+    expect(html).toContain('<title>Risk &lt;review&gt;</title>');
+    expect(html).toContain('=HYPERLINK(&quot;http://x&quot;)');
+    expect(html).not.toContain('<review>');
+  });
+
+  it('quotes CSV cells and neutralizes formulas', () => {
+    const csv = toCsv(ANSWER_EXPORT_COLUMNS, answerRows(exchanges));
+    const lines = csv.split('\r\n');
+    expect(lines[0]).toBe(ANSWER_EXPORT_COLUMNS.join(','));
+    expect(lines[1]).toBe(
+      '2026-10-01T09:01:30Z,c1,h1,"Top risk\ncontributors?",AEUUU leads with 4.2% [1].,risk.xlsx; notes.pdf',
+    );
+    expect(lines[2]).toBe(
+      `2026-10-01T09:05:00Z,c1,h2,"'=HYPERLINK(""http://x"")",,`,
+    );
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+
+  it('writes one sheet per entry with valid, unique names', () => {
+    const workbook = XLSX.read(
+      toXlsx([
+        {
+          name: 'Risk: by sector [Q3]',
+          columns: ['Sector', 'sum(Risk)'],
+          rows: [{ 'sum(Risk)': 12.5, Sector: 'Energy' }],
+        },
+        { name: 'Risk: by sector [Q3]', columns: ['field'], rows: [] },
+      ]),
+    );
+    expect(workbook.SheetNames).toEqual([
+      'Risk  by sector  Q3',
+      'Risk  by sector  Q3 2',
+    ]);
+    expect(
+      XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], {
+        header: 1,
+      }),
+    ).toEqual([
+      ['Sector', 'sum(Risk)'],
+      ['Energy', 12.5],
+    ]);
+  });
+
+  it('makes ASCII file names', () => {
+    expect(fileSlug('Risk — Q3 Review!')).toBe('risk-q3-review');
+    expect(fileSlug('???')).toBe('');
+  });
+});
@@ -0,0 +1,225 @@
+import * as XLSX from 'xlsx';
+import { RetrievalRecord } from './rag.types';
+
+export const TRANSCRIPT_FORMATS = ['md', 'html'] as const;
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export const ANSWER_EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type AnswerExportFormat = (typeof ANSWER_EXPORT_FORMATS)[number];
+
+export const CONTENT_TYPES = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+} as const;
+
+/** A rendered export, sent as an attachment. */
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/** One saved question and answer, as read from chat_history. */
+export interface ExportedExchange {
+  id: string;
+  conversation_id: string | null;
+  query: string;
+  response: string | null;
+  retrieved: RetrievalRecord[];
+  created_at: string;
+}
+
+export interface ExportSheet {
+  name: string;
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+}
+
+export const ANSWER_EXPORT_COLUMNS = [
+  'asked_at',
+  'conversation_id',
+  'chat_history_id',
+  'question',
+  'answer',
+  'sources',
+];
+
+const NO_ANSWER = 'No answer was saved.';
+
+/** Sources an answer was built from, in retrieval order. */
+export function answerSources(retrieved: RetrievalRecord[]): string[] {
+  return [...new Set(retrieved.map((r) => r.source))];
+}
+
+/** Lowercase ASCII file name part; empty when nothing usable is left. */
+export function fileSlug(text: string): string {
+  return text
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+}
+
+function timestamp(value: string): string {
+  return new Date(value).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** A conversation as a Markdown document, oldest exchange first. */
+export function transcriptMarkdown(
+  conversation: { title: string; created_at: string },
+  exchanges: ExportedExchange[],
+): string {
+  const parts = [
+    `# ${oneLine(conversation.title) || 'Untitled conversation'}`,
+    `Started ${timestamp(conversation.created_at)}, ${exchanges.length} question(s).`,
+  ];
+  exchanges.forEach((exchange, i) => {
+    const sources = answerSources(exchange.retrieved);
+    parts.push(
+      `## ${i + 1}. ${oneLine(exchange.query)}`,
+      `_Asked ${timestamp(exchange.created_at)}_`,
+      exchange.response?.trim() || `_${NO_ANSWER}_`,
+    );
+    if (sources.length > 0) parts.push(`**Sources:** ${sources.join(', ')}`);
+  });
+  return parts.join('\n\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * A conversation as a self-contained HTML page that prints cleanly. Answers
+ * keep their line breaks but are not rendered as Markdown.
+ */
+export function transcriptHtml(
+  conversation: { title: string; created_at: string },
+  exchanges: ExportedExchange[],
+): string {
+  const title = escapeHtml(
+    oneLine(conversation.title) || 'Untitled conversation',
+  );
+  const items = exchanges.map((exchange, i) => {
+    const sources = answerSources(exchange.retrieved);
+    return [
+      '<section>',
+      `<h2>${i + 1}. ${escapeHtml(oneLine(exchange.query))}</h2>`,
+      `<p class="meta">Asked ${timestamp(exchange.created_at)}</p>`,
+      `<div class="answer">${escapeHtml(exchange.response?.trim() || NO_ANSWER)}</div>`,
+      sources.length > 0
+        ? `<p class="meta">Sources: ${sources.map(escapeHtml).join(', ')}</p>`
+        : '',
+      '</section>',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  });
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    '<style>',
+    'body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; line-height: 1.5; }',
+    'h2 { font-size: 1.1rem; margin-top: 2rem; }',
+    '.answer { white-space: pre-wrap; }',
+    '.meta { color: #666; font-size: 0.85rem; }',
+    'section { break-inside: avoid; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<h1>${title}</h1>`,
+    `<p class="meta">Started ${timestamp(conversation.created_at)}, ${exchanges.length} question(s).</p>`,
+    ...items,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/** Flat rows for the question/answer export, in ANSWER_EXPORT_COLUMNS. */
+export function answerRows(
+  exchanges: ExportedExchange[],
+): Array<Record<string, string>> {
+  return exchanges.map((exchange) => ({
+    asked_at: timestamp(exchange.created_at),
+    conversation_id: exchange.conversation_id ?? '',
+    chat_history_id: exchange.id,
+    question: exchange.query,
+    answer: exchange.response ?? '',
+    sources: answerSources(exchange.retrieved).join('; '),
+  }));
+}
+
+function csvCell(value: unknown): string {
+  let text =
+    value === null || value === undefined
+      ? ''
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value as string | number | boolean);
+  // Spreadsheets run cells starting with these as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with a header row and CRLF line endings. */
+export function toCsv(
+  columns: string[],
+  rows: Array<Record<string, unknown>>,
+): string {
+  const lines = [columns, ...rows.map((row) => columns.map((c) => row[c]))];
+  return (
+    lines.map((cells) => cells.map(csvCell).join(',')).join('\r\n') + '\r\n'
+  );
+}
+
+/** Excel allows 31 characters and no []:*?/\ in a sheet name. */
+function sheetName(name: string, taken: Set<string>): string {
+  const base =
+    name
+      .replace(/[[\]:*?/\\]/g, ' ')
+      .trim()
+      .slice(0, 31) || 'Sheet';
+  let candidate = base;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/** An .xlsx workbook with one sheet per entry, columns in the given order. */
+export function toXlsx(sheets: ExportSheet[]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  const taken = new Set<string>();
+  for (const sheet of sheets) {
+    const worksheet =
+      sheet.rows.length > 0
+        ? XLSX.utils.json_to_sheet(sheet.rows, { header: sheet.columns })
+        : XLSX.utils.aoa_to_sheet([sheet.columns]);
+    XLSX.utils.book_append_sheet(
+      workbook,
+      worksheet,
+      sheetName(sheet.name, taken),
+    );
+  }
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
@@ -0,0 +1,61 @@
+import { lowRatedBySource, RatedAnswer } from './feedback-report';
+import { RetrievalRecord } from './rag.types';
+
+describe('lowRatedBySource', () => {
+  const chunk = (id: string, source: string): RetrievalRecord => ({
+    id,
+    kind: 'chunk',
+    source,
+    score: 0.03,
+  });
+  const answer = (
+    id: string,
+    rating: 'up' | 'down',
+    retrieved: RetrievalRecord[],
+    flagged: string[] = [],
+  ): RatedAnswer => ({
+    chat_history_id: id,
+    rating,
+    correction: null,
+    flagged_chunk_ids: flagged,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    query: `question ${id}`,
+    response: `answer ${id}`,
+    retrieved,
+  });
+
+  it('groups thumbs-down answers by source, worst first', () => {
+    const report = lowRatedBySource(
+      [
+        answer('h1', 'down', [chunk('c1', 'risk'), chunk('c2', 'pnl')], ['c2']),
+        answer('h2', 'down', [chunk('c3', 'pnl')], ['c3']),
+        answer('h3', 'up', [chunk('c1', 'risk')]),
+        answer('h4', 'up', [chunk('c4', 'fx')]),
+        answer('h5', 'down', []),
+      ],
+      10,
+    );
+
+    expect(report.map((s) => s.source)).toEqual(['pnl', null, 'risk']);
+    const [pnl, none, risk] = report;
+    expect(pnl).toMatchObject({ rated: 2, down: 2, downRate: 1 });
+    expect(pnl.flaggedChunks).toEqual([
+      { chunkId: 'c2', count: 1 },
+      { chunkId: 'c3', count: 1 },
+    ]);
+    expect(risk).toMatchObject({ rated: 2, down: 1, downRate: 0.5 });
+    // The chunk flagged on h1 belongs to pnl, not risk
+    expect(risk.questions[0].flaggedChunkIds).toEqual([]);
+    expect(none.questions.map((q) => q.chatHistoryId)).toEqual(['h5']);
+  });
+
+  it('caps the questions listed per source', () => {
+    const answers = ['h1', 'h2', 'h3'].map((id) =>
+      answer(id, 'down', [chunk('c1', 'risk')]),
+    );
+    const [risk] = lowRatedBySource(answers, 2);
+    expect(risk.down).toBe(3);
+    expect(risk.questions.map((q) => q.chatHistoryId)).toEqual(['h1', 'h2']);
+  });
+});
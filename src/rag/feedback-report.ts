@@ -0,0 +1,76 @@
+import { AnswerFeedback, LowRatedSource, RetrievalRecord } from './rag.types';
+
+export type RatedAnswer = AnswerFeedback & {
+  query: string;
+  response: string | null;
+  retrieved: RetrievalRecord[];
+};
+
+/**
+ * Groups rated answers by the sources they were built from and keeps the
+ * sources with at least one thumbs-down, worst first. An answer counts once
+ * for each source it retrieved from; flagged chunks are attributed to the
+ * source they belong to. `answers` are expected newest first.
+ */
+export function lowRatedBySource(
+  answers: RatedAnswer[],
+  questionLimit: number,
+): LowRatedSource[] {
+  const groups = new Map<
+    string | null,
+    LowRatedSource & { flagged: Map<string, number> }
+  >();
+
+  for (const answer of answers) {
+    const sourceOf = new Map(answer.retrieved.map((r) => [r.id, r.source]));
+    const sources =
+      answer.retrieved.length > 0 ? [...new Set(sourceOf.values())] : [null];
+
+    for (const source of sources) {
+      let group = groups.get(source);
+      if (!group) {
+        group = {
+          source,
+          rated: 0,
+          down: 0,
+          downRate: 0,
+          flaggedChunks: [],
+          questions: [],
+          flagged: new Map(),
+        };
+        groups.set(source, group);
+      }
+      group.rated++;
+      if (answer.rating !== 'down') continue;
+
+      group.down++;
+      const flagged = answer.flagged_chunk_ids.filter(
+        (id) => (sourceOf.get(id) ?? null) === source,
+      );
+      for (const id of flagged) {
+        group.flagged.set(id, (group.flagged.get(id) ?? 0) + 1);
+      }
+      if (group.questions.length < questionLimit) {
+        group.questions.push({
+          chatHistoryId: answer.chat_history_id,
+          query: answer.query,
+          response: answer.response,
+          correction: answer.correction,
+          flaggedChunkIds: flagged,
+          ratedAt: answer.updated_at,
+        });
+      }
+    }
+  }
+
+  return [...groups.values()]
+    .filter((g) => g.down > 0)
+    .map(({ flagged, ...group }) => ({
+      ...group,
+      downRate: group.down / group.rated,
+      flaggedChunks: [...flagged]
+        .map(([chunkId, count]) => ({ chunkId, count }))
+        .sort((a, b) => b.count - a.count),
+    }))
+    .sort((a, b) => b.down - a.down || b.downRate - a.downRate);
+}
@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { RequireScopes, WorkspaceId } from '../auth/auth.decorators';
+import { FeedbackReportQueryDto, SubmitFeedbackDto } from './dto/feedback.dto';
+import { FeedbackService } from './feedback.service';
+
+@Controller('rag')
+export class FeedbackController {
+  constructor(private readonly feedback: FeedbackService) {}
+
+  /** Rates an answer by its `chatHistoryId`; resubmitting replaces it. */
+  @Put('chat-history/:id/feedback')
+  async submit(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: SubmitFeedbackDto,
+  ) {
+    return this.feedback.submit(workspaceId, id, body);
+  }
+
+  @Get('chat-history/:id/feedback')
+  async get(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.feedback.get(workspaceId, id);
+  }
+
+  @Delete('chat-history/:id/feedback')
+  async delete(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.feedback.delete(workspaceId, id);
+  }
+
+  @Get('feedback/report')
+  @RequireScopes('admin')
+  async report(
+    @WorkspaceId() workspaceId: string,
+    @Query() query: FeedbackReportQueryDto,
+  ) {
+    return this.feedback.lowRatedReport(workspaceId, {
+      since: query.since,
+      questionLimit: query.questions,
+    });
+  }
+}
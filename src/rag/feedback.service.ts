@@ -0,0 +1,138 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { lowRatedBySource, RatedAnswer } from './feedback-report';
+import {
+  AnswerFeedback,
+  FeedbackRating,
+  LowRatedSource,
+  RetrievalRecord,
+} from './rag.types';
+
+const FEEDBACK_COLUMNS = `chat_history_id, rating, correction,
+  flagged_chunk_ids, created_at, updated_at`;
+
+/** Thumbs up/down on answers, and the report of where answers go wrong. */
+@Injectable()
+export class FeedbackService {
+  constructor(private readonly db: DatabaseService) {}
+
+  /**
+   * Records (or replaces) the feedback on one answer. Flagged chunks must
+   * be among those the answer was generated from.
+   */
+  async submit(
+    workspaceId: string,
+    chatHistoryId: string,
+    feedback: {
+      rating: FeedbackRating;
+      correction?: string;
+      flaggedChunkIds?: string[];
+    },
+  ): Promise<AnswerFeedback> {
+    const retrieved = await this.retrievedFor(workspaceId, chatHistoryId);
+    const flagged = [...new Set(feedback.flaggedChunkIds ?? [])];
+    const unknown = flagged.filter((id) => !retrieved.some((r) => r.id === id));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Chunks ${unknown.join(', ')} were not retrieved for this answer`,
+      );
+    }
+
+    const { rows } = await this.db.query<AnswerFeedback>(
+      `INSERT INTO answer_feedback
+         (chat_history_id, workspace_id, rating, correction, flagged_chunk_ids)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (chat_history_id) DO UPDATE
+       SET rating = EXCLUDED.rating,
+           correction = EXCLUDED.correction,
+           flagged_chunk_ids = EXCLUDED.flagged_chunk_ids,
+           updated_at = now()
+       RETURNING ${FEEDBACK_COLUMNS}`,
+      [
+        chatHistoryId,
+        workspaceId,
+        feedback.rating,
+        feedback.correction ?? null,
+        flagged,
+      ],
+    );
+    return rows[0];
+  }
+
+  async get(
+    workspaceId: string,
+    chatHistoryId: string,
+  ): Promise<AnswerFeedback> {
+    const { rows } = await this.db.query<AnswerFeedback>(
+      `SELECT ${FEEDBACK_COLUMNS} FROM answer_feedback
+       WHERE workspace_id = $1 AND chat_history_id = $2`,
+      [workspaceId, chatHistoryId],
+    );
+    if (rows.length === 0) {
+      throw new NotFoundException(
+        `No feedback for chat history ${chatHistoryId}`,
+      );
+    }
+    return rows[0];
+  }
+
+  async delete(
+    workspaceId: string,
+    chatHistoryId: string,
+  ): Promise<{ deleted: boolean }> {
+    const { rows } = await this.db.query(
+      `DELETE FROM answer_feedback
+       WHERE workspace_id = $1 AND chat_history_id = $2
+       RETURNING chat_history_id`,
+      [workspaceId, chatHistoryId],
+    );
+    if (rows.length === 0) {
+      throw new NotFoundException(
+        `No feedback for chat history ${chatHistoryId}`,
+      );
+    }
+    return { deleted: true };
+  }
+
+  /**
+   * Low-rated questions grouped by the sources their answers came from,
+   * over feedback given since `since` (all time when unset).
+   */
+  async lowRatedReport(
+    workspaceId: string,
+    { since, questionLimit = 20 }: { since?: string; questionLimit?: number },
+  ): Promise<{ since: string | null; sources: LowRatedSource[] }> {
+    const { rows } = await this.db.query<RatedAnswer>(
+      `SELECT f.chat_history_id, f.rating, f.correction, f.flagged_chunk_ids,
+              f.created_at, f.updated_at, h.query, h.response, h.retrieved
+       FROM answer_feedback f
+       JOIN chat_history h ON h.id = f.chat_history_id
+       WHERE f.workspace_id = $1
+         AND ($2::timestamptz IS NULL OR f.updated_at >= $2)
+       ORDER BY f.updated_at DESC`,
+      [workspaceId, since ?? null],
+    );
+    return {
+      since: since ?? null,
+      sources: lowRatedBySource(rows, questionLimit),
+    };
+  }
+
+  private async retrievedFor(
+    workspaceId: string,
+    chatHistoryId: string,
+  ): Promise<RetrievalRecord[]> {
+    const { rows } = await this.db.query<{ retrieved: RetrievalRecord[] }>(
+      'SELECT retrieved FROM chat_history WHERE workspace_id = $1 AND id = $2',
+      [workspaceId, chatHistoryId],
+    );
+    if (rows.length === 0) {
+      throw new NotFoundException(`Chat history ${chatHistoryId} not found`);
+    }
+    return rows[0].retrieved;
+  }
+}
@@ -0,0 +1,587 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { hostname } from 'os';
+import { toSql } from 'pgvector';
+import { describeError } from '../common/errors';
+import { DatabaseService } from '../database/database.service';
+import { EMBEDDING_PROVIDER, EmbeddingProvider } from '../llm/llm.types';
+import { MetricsService } from '../metrics/metrics.service';
+import { parseDocument, resolveParser } from './ingest-parser';
+import { parseChunkingOverrides, resolveChunking, TOKENIZER } from './chunking';
+import {
+  ChunkingOptions,
+  IngestJob,
+  IngestMode,
+  SheetProgress,
+} from './rag.types';
+import { SourcesService } from './sources.service';
+import { SnapshotsService } from './snapshots.service';
+import { detectAsOfDate } from './snapshots';
+import { VectorIndexService } from './vector-index.service';
+
+interface ClaimedJob {
+  id: string;
+  workspace_id: string;
+  source: string;
+  mode: IngestMode;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  content_hash: string;
+  chunking: ChunkingOptions | null;
+  as_of: string | null;
+  file_data: Buffer | null;
+  embedding_model: string | null;
+  staged: boolean;
+}
+
+const JOB_COLUMNS = `id, source, mode, status, file_name, mime_type,
+  size_bytes::int AS size_bytes, content_hash, chunking, as_of::text AS as_of,
+  sheets, total_chunks,
+  processed_chunks, inserted, graph_data_inserted, attempts, error, error_code,
+  created_at, updated_at, finished_at, usage`;
+
+async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from(
+    { length: Math.min(concurrency, items.length) },
+    async () => {
+      while (next < items.length) {
+        const item = items[next++];
+        await worker(item);
+      }
+    },
+  );
+  await Promise.all(lanes);
+}
+
+/**
+ * Runs uploads as background jobs: parse and stage chunks, embed them in
+ * batches, then swap them into dashboard_chunks/graph_data in one
+ * transaction. Staged embeddings are kept, so resuming a failed job only
+ * embeds what is still missing.
+ */
+@Injectable()
+export class IngestJobsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(IngestJobsService.name);
+  // Jobs run one at a time; batches within a job run concurrently
+  private queue: Promise<void> = Promise.resolve();
+  private readonly batchSize: number;
+  private readonly concurrency: number;
+  private readonly maxRetries: number;
+  private readonly chunkingDefaults: Partial<ChunkingOptions>;
+  // Stable across restarts of the same host, so its own jobs are recovered at once
+  private readonly instanceId: string;
+  private readonly heartbeatMs: number;
+  private readonly staleAfterMs: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly sources: SourcesService,
+    private readonly snapshots: SnapshotsService,
+    @Inject(EMBEDDING_PROVIDER) private readonly embedder: EmbeddingProvider,
+    private readonly metrics: MetricsService,
+    private readonly vectorIndex: VectorIndexService,
+    config: ConfigService,
+  ) {
+    this.batchSize = Number(config.get<string>('INGEST_BATCH_SIZE') ?? 64);
+    this.concurrency = Number(config.get<string>('INGEST_CONCURRENCY') ?? 3);
+    this.maxRetries = Number(config.get<string>('INGEST_MAX_RETRIES') ?? 5);
+    this.instanceId = config.get<string>('INSTANCE_ID') ?? hostname();
+    this.heartbeatMs = Number(
+      config.get<string>('INGEST_HEARTBEAT_MS') ?? 30000,
+    );
+    this.staleAfterMs = Number(
+      config.get<string>('INGEST_STALE_AFTER_MS') ?? 120000,
+    );
+    this.chunkingDefaults = parseChunkingOverrides({
+      strategy: config.get<string>('CHUNK_STRATEGY'),
+      maxTokens: config.get<string>('CHUNK_MAX_TOKENS'),
+      overlapTokens: config.get<string>('CHUNK_OVERLAP_TOKENS'),
+    });
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    // A process that died mid-job leaves it running; make it resumable.
+    // Jobs of other instances are only failed once their heartbeat stops.
+    await this.db.query(
+      `UPDATE ingest_jobs
+       SET status = 'failed', error = 'Interrupted by restart', updated_at = now()
+       WHERE status = 'running'
+         AND (owner = $1
+              OR heartbeat_at IS NULL
+              OR heartbeat_at < now() - make_interval(secs => $2))`,
+      [this.instanceId, this.staleAfterMs / 1000],
+    );
+    const { rows } = await this.db.query<{ id: string }>(
+      `SELECT id FROM ingest_jobs WHERE status = 'queued' ORDER BY created_at`,
+    );
+    for (const row of rows) this.schedule(row.id);
+  }
+
+  async enqueue(
+    workspaceId: string,
+    source: string,
+    file: Express.Multer.File,
+    mode: IngestMode,
+    chunkingOverrides: Partial<ChunkingOptions> = {},
+    asOf?: string,
+  ): Promise<IngestJob> {
+    // Reject unsupported binaries before they are stored as a job
+    resolveParser({
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      buffer: file.buffer,
+    });
+    // Upload params win over the source's settings, which win over env defaults
+    const chunking = resolveChunking(
+      this.chunkingDefaults,
+      await this.sources.getChunking(workspaceId, source),
+      chunkingOverrides,
+    );
+    const contentHash = createHash('sha256').update(file.buffer).digest('hex');
+    const unchanged =
+      mode === 'skip-if-unchanged' &&
+      (await this.sources.getContentHash(workspaceId, source)) === contentHash;
+
+    const { rows } = await this.db.query<{ id: string }>(
+      `INSERT INTO ingest_jobs
+         (source, mode, status, file_name, mime_type, size_bytes, content_hash, file_data, chunking, workspace_id, as_of, finished_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CASE WHEN $3 = 'skipped' THEN now() END)
+       RETURNING id`,
+      [
+        source,
+        mode,
+        unchanged ? 'skipped' : 'queued',
+        file.originalname,
+        file.mimetype,
+        file.size,
+        contentHash,
+        unchanged ? null : file.buffer,
+        JSON.stringify(chunking),
+        workspaceId,
+        asOf ?? null,
+      ],
+    );
+    if (!unchanged) this.schedule(rows[0].id);
+    return this.get(workspaceId, rows[0].id);
+  }
+
+  async resume(workspaceId: string, id: string): Promise<IngestJob> {
+    const job = await this.get(workspaceId, id);
+    if (job.status !== 'failed') {
+      throw new ConflictException(
+        `Only failed jobs can be resumed (job ${id} is ${job.status})`,
+      );
+    }
+    await this.db.query(
+      `UPDATE ingest_jobs SET status = 'queued', error = NULL, updated_at = now()
+       WHERE id = $1`,
+      [id],
+    );
+    this.schedule(id);
+    return this.get(workspaceId, id);
+  }
+
+  async get(workspaceId: string, id: string): Promise<IngestJob> {
+    const { rows } = await this.db.query<IngestJob>(
+      `SELECT ${JOB_COLUMNS} FROM ingest_jobs WHERE workspace_id = $1 AND id = $2`,
+      [workspaceId, id],
+    );
+    if (rows.length === 0) throw new NotFoundException(`Job ${id} not found`);
+    return this.withSheetStatus(rows[0]);
+  }
+
+  async list(
+    workspaceId: string,
+    limit: number = 20,
+  ): Promise<{ jobs: IngestJob[] }> {
+    const { rows } = await this.db.query<IngestJob>(
+      `SELECT ${JOB_COLUMNS} FROM ingest_jobs
+       WHERE workspace_id = $1
+       ORDER BY created_at DESC LIMIT $2`,
+      [workspaceId, limit],
+    );
+    return { jobs: rows.map((job) => this.withSheetStatus(job)) };
+  }
+
+  private withSheetStatus(job: IngestJob): IngestJob {
+    const sheets = job.sheets.map(
+      (sheet): SheetProgress => ({
+        ...sheet,
+        status:
+          job.status === 'completed'
+            ? 'completed'
+            : sheet.embedded === sheet.total
+              ? 'embedded'
+              : 'pending',
+      }),
+    );
+    return { ...job, sheets };
+  }
+
+  private schedule(id: string): void {
+    this.queue = this.queue
+      .then(() => this.run(id))
+      .catch((err) => this.logger.error(`Ingest job ${id} crashed`, err));
+  }
+
+  private async run(id: string): Promise<void> {
+    const { rows } = await this.db.query<ClaimedJob>(
+      `UPDATE ingest_jobs
+       SET status = 'running', attempts = attempts + 1, owner = $2,
+           heartbeat_at = now(), updated_at = now()
+       WHERE id = $1 AND status = 'queued'
+       RETURNING id, workspace_id, source, mode, file_name, mime_type, size_bytes::int AS size_bytes,
+                 content_hash, chunking, as_of::text AS as_of, file_data, embedding_model,
+                 tables IS NOT NULL AS staged`,
+      [id, this.instanceId],
+    );
+    const job = rows[0];
+    if (!job) return;
+
+    const heartbeat = setInterval(() => {
+      this.db
+        .query('UPDATE ingest_jobs SET heartbeat_at = now() WHERE id = $1', [
+          id,
+        ])
+        .catch((err) =>
+          this.logger.warn(
+            `Heartbeat of ingest job ${id} failed: ${err instanceof Error ? err.message : String(err)}`,
+          ),
+        );
+    }, this.heartbeatMs);
+    heartbeat.unref();
+
+    await this.metrics
+      .trace('ingest', async (trace) => {
+        try {
+          await this.stage(job);
+          await this.embedPending(job);
+          await this.metrics.time('commit', () => this.commit(job));
+          this.logger.log(
+            `Ingest job ${id} finished in ${Math.round(trace.elapsedMs())}ms ` +
+              `(${trace.summary().embeddingTokens} embedding tokens)`,
+          );
+        } finally {
+          await this.db.query(
+            'UPDATE ingest_jobs SET usage = $2 WHERE id = $1',
+            [id, JSON.stringify(trace.summary())],
+          );
+        }
+      })
+      .catch(async (err) => {
+        const message = err instanceof Error ? err.message : String(err);
+        this.logger.error(`Ingest job ${id} failed: ${message}`);
+        await this.db.query(
+          `UPDATE ingest_jobs
+           SET status = 'failed', error = $2, error_code = $3, updated_at = now()
+           WHERE id = $1`,
+          [id, message, describeError(err).code],
+        );
+      })
+      .finally(() => clearInterval(heartbeat));
+
+    // Outside the job: a slow or failed rebuild must not fail the ingest
+    await this.vectorIndex
+      .afterIngest()
+      .catch((err) =>
+        this.logger.warn(
+          `Vector index rebuild after ingest job ${id} failed: ${err instanceof Error ? err.message : String(err)}`,
+        ),
+      );
+  }
+
+  /** Parses the upload and stages its chunks; skipped if a prior run did. */
+  private async stage(job: ClaimedJob): Promise<void> {
+    if (job.staged) return;
+    if (!job.file_data) throw new Error('Upload data is no longer available');
+
+    const fileData = job.file_data;
+    const sections = await this.metrics.time('parse', () =>
+      parseDocument(
+        {
+          fileName: job.file_name,
+          mimeType: job.mime_type,
+          buffer: fileData,
+        },
+        resolveChunking(job.chunking),
+      ),
+    );
+    const seqs: number[] = [];
+    const sheets: string[] = [];
+    const contents: string[] = [];
+    const titles: string[] = [];
+    const kinds: string[] = [];
+    const columns: Array<string | null> = [];
+    const rowStarts: Array<number | null> = [];
+    const rowEnds: Array<number | null> = [];
+    for (const section of sections) {
+      for (const chunk of section.chunks) {
+        seqs.push(seqs.length);
+        sheets.push(section.name);
+        contents.push(chunk.content);
+        titles.push(chunk.title);
+        kinds.push(chunk.kind);
+        columns.push(chunk.column);
+        rowStarts.push(chunk.rowStart);
+        rowEnds.push(chunk.rowEnd);
+      }
+    }
+    const tables = sections
+      .filter((s) => s.table && s.table.length > 0)
+      .map((s) => ({ title: s.name, rows: s.table }));
+
+    await this.db.transaction(async () => {
+      await this.db.query(
+        `INSERT INTO ingest_job_chunks
+           (job_id, seq, sheet, content, kind, column_name, row_start, row_end, title)
+         SELECT $1, * FROM unnest(
+           $2::int[], $3::text[], $4::text[], $5::text[], $6::text[], $7::int[], $8::int[], $9::text[]
+         )`,
+        [
+          job.id,
+          seqs,
+          sheets,
+          contents,
+          kinds,
+          columns,
+          rowStarts,
+          rowEnds,
+          titles,
+        ],
+      );
+      // Without an as-of date from the upload, read it from the file or use today
+      const { rows } = await this.db.query<{ as_of: string }>(
+        `UPDATE ingest_jobs
+         SET tables = $2, total_chunks = $3,
+             as_of = COALESCE(as_of, $4::date, current_date), updated_at = now()
+         WHERE id = $1
+         RETURNING as_of::text AS as_of`,
+        [
+          job.id,
+          JSON.stringify(tables),
+          contents.length,
+          detectAsOfDate(job.file_name, contents.slice(0, 20)),
+        ],
+      );
+      job.as_of = rows[0].as_of;
+      await this.updateProgress(job.id);
+    });
+  }
+
+  private async embedPending(job: ClaimedJob): Promise<void> {
+    if (job.embedding_model && job.embedding_model !== this.embedder.model) {
+      // Resumed under a different model: staged vectors cannot be mixed
+      await this.db.query(
+        'UPDATE ingest_job_chunks SET embedding = NULL WHERE job_id = $1',
+        [job.id],
+      );
+    }
+    await this.db.query(
+      'UPDATE ingest_jobs SET embedding_model = $2 WHERE id = $1',
+      [job.id, this.embedder.model],
+    );
+
+    const { rows: pending } = await this.db.query<{
+      seq: number;
+      content: string;
+    }>(
+      `SELECT seq, content FROM ingest_job_chunks
+       WHERE job_id = $1 AND embedding IS NULL
+       ORDER BY seq`,
+      [job.id],
+    );
+    const batches: Array<typeof pending> = [];
+    for (let i = 0; i < pending.length; i += this.batchSize) {
+      batches.push(pending.slice(i, i + this.batchSize));
+    }
+
+    await runWithConcurrency(batches, this.concurrency, async (batch) => {
+      const vectors = await this.embedWithRetry(batch.map((c) => c.content));
+      await this.db.query(
+        `UPDATE ingest_job_chunks c
+         SET embedding = v.embedding::vector
+         FROM unnest($2::int[], $3::text[]) AS v(seq, embedding)
+         WHERE c.job_id = $1 AND c.seq = v.seq`,
+        [
+          job.id,
+          batch.map((c) => c.seq),
+          vectors.map((v) => toSql(v) as string),
+        ],
+      );
+      await this.updateProgress(job.id);
+    });
+  }
+
+  /** Retries rate limits and server errors with exponential backoff. */
+  private async embedWithRetry(inputs: string[]): Promise<number[][]> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.metrics.time('embed', () =>
+          this.embedder.embed(inputs),
+        );
+      } catch (err) {
+        const status = (err as { status?: number }).status;
+        const retryable = status === 429 || (status ?? 0) >= 500;
+        if (!retryable || attempt >= this.maxRetries) throw err;
+        const delay = 500 * 2 ** attempt + Math.random() * 250;
+        this.logger.warn(
+          `Embedding request failed with ${status}, retrying in ${Math.round(delay)}ms`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async updateProgress(jobId: string): Promise<void> {
+    await this.db.query(
+      `UPDATE ingest_jobs j
+       SET processed_chunks = p.embedded, sheets = p.sheets, updated_at = now()
+       FROM (
+         SELECT COALESCE(SUM(embedded), 0)::int AS embedded,
+                COALESCE(jsonb_agg(jsonb_build_object(
+                  'name', sheet, 'total', total, 'embedded', embedded
+                ) ORDER BY first_seq), '[]'::jsonb) AS sheets
+         FROM (
+           SELECT sheet, MIN(seq) AS first_seq, COUNT(*)::int AS total,
+                  COUNT(embedding)::int AS embedded
+           FROM ingest_job_chunks
+           WHERE job_id = $1
+           GROUP BY sheet
+         ) s
+       ) p
+       WHERE j.id = $1`,
+      [jobId],
+    );
+  }
+
+  /** Swaps the staged chunks and tables into the source atomically. */
+  private async commit(job: ClaimedJob): Promise<void> {
+    await this.db.transaction(async () => {
+      await this.sources.lock(job.workspace_id, job.source);
+      if (
+        job.mode === 'skip-if-unchanged' &&
+        (await this.sources.getContentHash(job.workspace_id, job.source)) ===
+          job.content_hash
+      ) {
+        await this.finish(job.id, 'skipped', 0, 0);
+        return;
+      }
+
+      if (job.mode === 'append')
+        await this.assertSameEmbeddingModel(job.workspace_id, job.source);
+      else await this.db.deleteBySource(job.workspace_id, job.source);
+
+      const { rows: inserted } = await this.db.query<{ count: number }>(
+        `WITH ins AS (
+           INSERT INTO dashboard_chunks
+             (workspace_id, source, title, content, embedding, embedding_model, embedding_dim,
+              sheet, kind, column_name, row_start, row_end, ingest_job_id, chunking)
+           SELECT $6, $2, title, content, embedding, $3, $4,
+                  sheet, kind, column_name, row_start, row_end, $1, $5
+           FROM ingest_job_chunks
+           WHERE job_id = $1
+           ORDER BY seq
+           RETURNING 1
+         )
+         SELECT COUNT(*)::int AS count FROM ins`,
+        [
+          job.id,
+          job.source,
+          this.embedder.model,
+          this.embedder.dimensions,
+          JSON.stringify({
+            ...resolveChunking(job.chunking),
+            tokenizer: TOKENIZER,
+          }),
+          job.workspace_id,
+        ],
+      );
+      const { rows: tables } = await this.db.query<{ count: number }>(
+        `WITH ins AS (
+           INSERT INTO graph_data (workspace_id, source, title, table_data, ingest_job_id)
+           SELECT workspace_id, $2, t->>'title', t->'rows', $1
+           FROM ingest_jobs, jsonb_array_elements(tables) AS t
+           WHERE id = $1
+           RETURNING 1
+         )
+         SELECT COUNT(*)::int AS count FROM ins`,
+        [job.id, job.source],
+      );
+      await this.snapshots.record(
+        job.workspace_id,
+        job.source,
+        job.id,
+        job.as_of,
+        job.mode,
+      );
+
+      await this.sources.record(
+        job.workspace_id,
+        job.source,
+        {
+          fileName: job.file_name,
+          mimeType: job.mime_type,
+          sizeBytes: job.size_bytes,
+        },
+        job.content_hash,
+      );
+      await this.finish(
+        job.id,
+        'completed',
+        inserted[0].count,
+        tables[0].count,
+      );
+    });
+  }
+
+  private async finish(
+    jobId: string,
+    status: 'completed' | 'skipped',
+    inserted: number,
+    graphDataInserted: number,
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE ingest_jobs
+       SET status = $2, inserted = $3, graph_data_inserted = $4,
+           file_data = NULL, finished_at = now(), updated_at = now()
+       WHERE id = $1`,
+      [jobId, status, inserted, graphDataInserted],
+    );
+    // The chunks now live in dashboard_chunks
+    await this.db.query('DELETE FROM ingest_job_chunks WHERE job_id = $1', [
+      jobId,
+    ]);
+  }
+
+  /** Appending must not mix embedding models within one source. */
+  private async assertSameEmbeddingModel(
+    workspaceId: string,
+    source: string,
+  ): Promise<void> {
+    const { rows } = await this.db.query<{ embedding_model: string }>(
+      `SELECT DISTINCT embedding_model FROM dashboard_chunks
+       WHERE workspace_id = $1 AND source = $2 AND embedding_model <> $3`,
+      [workspaceId, source, this.embedder.model],
+    );
+    if (rows.length > 0) {
+      throw new ConflictException(
+        `Source ${source} was embedded with ${rows[0].embedding_model}; ` +
+          `use mode=replace to re-ingest it with ${this.embedder.model}`,
+      );
+    }
+  }
+}
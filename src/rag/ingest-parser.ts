@@ -0,0 +1,259 @@
+import { HttpException, UnsupportedMediaTypeException } from '@nestjs/common';
+import { parse as parseCsv } from 'csv-parse/sync';
+import { extname } from 'path';
+import * as XLSX from 'xlsx';
+import {
+  DocumentBlock,
+  parseDocx,
+  parseHtml,
+  parseJson,
+  parseMarkdown,
+  parseNdjson,
+  parsePdf,
+} from './document-formats';
+import {
+  DEFAULT_CHUNKING,
+  ParsedChunk,
+  rowsToChunks,
+  textChunks,
+} from './chunking';
+import { ChunkingOptions } from './rag.types';
+import { DocumentParseError } from '../common/errors';
+
+export interface UploadedDocument {
+  fileName: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+/** One sheet (or the whole file for CSV/text) split into chunks. */
+export interface ParsedSection {
+  name: string;
+  chunks: ParsedChunk[];
+  table: Array<Record<string, unknown>> | null;
+}
+
+function decodeText(buf: Buffer): string {
+  return buf.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+function parseCsvDocument(
+  doc: UploadedDocument,
+  chunking: ChunkingOptions,
+): ParsedSection[] {
+  const records = parseCsv(doc.buffer.toString('utf8'), {
+    columns: true,
+    skip_empty_lines: true,
+    bom: true,
+  }) as Array<Record<string, string>>;
+  // Line 1 is the header row
+  const rowNumbers = records.map((_, i) => i + 2);
+  return [
+    {
+      name: '',
+      chunks: rowsToChunks(records, rowNumbers, undefined, chunking),
+      table: records,
+    },
+  ];
+}
+
+function parseWorkbook(
+  doc: UploadedDocument,
+  chunking: ChunkingOptions,
+): ParsedSection[] {
+  const workbook = XLSX.read(doc.buffer, { type: 'buffer' });
+  return workbook.SheetNames.map((sheetName) => {
+    const sheet = workbook.Sheets[sheetName];
+    const json = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, {
+      defval: '',
+    });
+    // sheet_to_json tags each row with its 0-based sheet row (non-enumerable)
+    const rowNumbers = json.map(
+      (row) => (row as { __rowNum__?: number }).__rowNum__! + 1,
+    );
+    return {
+      name: sheetName,
+      chunks: rowsToChunks(json, rowNumbers, `Sheet: ${sheetName}`, chunking),
+      table: json,
+    };
+  });
+}
+
+/**
+ * Text goes into one unnamed section titled by heading; each table gets its
+ * own section so it is stored in graph_data like a spreadsheet sheet.
+ */
+export function blocksToSections(
+  blocks: DocumentBlock[],
+  chunking: ChunkingOptions,
+): ParsedSection[] {
+  const text: ParsedChunk[] = [];
+  const tables: ParsedSection[] = [];
+  for (const block of blocks) {
+    if (block.type === 'text') {
+      text.push(...textChunks(block.text, block.heading, chunking));
+      continue;
+    }
+    const n = tables.length + 1;
+    const name = block.heading ? `${block.heading} (table ${n})` : `Table ${n}`;
+    tables.push({
+      name,
+      chunks: rowsToChunks(
+        block.records,
+        block.rowNumbers,
+        `Table: ${name}`,
+        chunking,
+      ).map((chunk) => ({ ...chunk, title: block.heading })),
+      table: block.records,
+    });
+  }
+  return [{ name: '', chunks: text, table: null }, ...tables].filter(
+    (s) => s.chunks.length > 0,
+  );
+}
+
+interface DocumentParser {
+  mimeTypes: string[];
+  /** Lower-case, with the leading dot. */
+  extensions: string[];
+  parse(
+    doc: UploadedDocument,
+    chunking: ChunkingOptions,
+  ): ParsedSection[] | Promise<ParsedSection[]>;
+}
+
+const TEXT_PARSER: DocumentParser = {
+  mimeTypes: ['text/plain'],
+  extensions: ['.txt', '.text', '.log'],
+  parse: (doc, chunking) => [
+    {
+      name: '',
+      chunks: textChunks(decodeText(doc.buffer), '', chunking),
+      table: null,
+    },
+  ],
+};
+
+const PARSERS: DocumentParser[] = [
+  {
+    mimeTypes: ['text/csv', 'application/csv'],
+    extensions: ['.csv'],
+    parse: parseCsvDocument,
+  },
+  {
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+    ],
+    extensions: ['.xlsx', '.xls'],
+    parse: parseWorkbook,
+  },
+  {
+    mimeTypes: ['application/pdf'],
+    extensions: ['.pdf'],
+    parse: async (doc, chunking) =>
+      blocksToSections(await parsePdf(doc.buffer), chunking),
+  },
+  {
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ],
+    extensions: ['.docx'],
+    parse: async (doc, chunking) =>
+      blocksToSections(await parseDocx(doc.buffer), chunking),
+  },
+  {
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extensions: ['.md', '.markdown'],
+    parse: (doc, chunking) =>
+      blocksToSections(parseMarkdown(decodeText(doc.buffer)), chunking),
+  },
+  {
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extensions: ['.html', '.htm', '.xhtml'],
+    parse: (doc, chunking) =>
+      blocksToSections(parseHtml(decodeText(doc.buffer)), chunking),
+  },
+  {
+    mimeTypes: ['application/x-ndjson', 'application/jsonl'],
+    extensions: ['.ndjson', '.jsonl'],
+    parse: (doc, chunking) =>
+      blocksToSections(parseNdjson(decodeText(doc.buffer)), chunking),
+  },
+  {
+    mimeTypes: ['application/json'],
+    extensions: ['.json'],
+    parse: (doc, chunking) =>
+      blocksToSections(parseJson(decodeText(doc.buffer)), chunking),
+  },
+  TEXT_PARSER,
+];
+
+/** No NUL bytes and valid UTF-8: safe to index as plain text. */
+function looksLikeText(buf: Buffer): boolean {
+  if (buf.subarray(0, 8192).includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buf);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Upfront check for the upload interceptor, which sees the name and MIME
+ * type but not the content: known formats, plus anything that may turn out
+ * to be text once sniffed.
+ */
+export function isAcceptedUpload(fileName: string, mimeType: string): boolean {
+  const extension = extname(fileName).toLowerCase();
+  const mime = mimeType.split(';')[0].trim().toLowerCase();
+  return (
+    PARSERS.some(
+      (p) => p.extensions.includes(extension) || p.mimeTypes.includes(mime),
+    ) ||
+    mime === '' ||
+    mime === 'application/octet-stream' ||
+    mime.startsWith('text/')
+  );
+}
+
+/**
+ * Picks a parser by file extension, then by MIME type (browsers often send
+ * application/octet-stream); unknown types are accepted only if they are
+ * text. Throws 415 for anything else.
+ */
+export function resolveParser(doc: UploadedDocument): DocumentParser {
+  const extension = extname(doc.fileName).toLowerCase();
+  const mime = doc.mimeType.split(';')[0].trim().toLowerCase();
+  const parser =
+    PARSERS.find((p) => p.extensions.includes(extension)) ??
+    PARSERS.find((p) => p.mimeTypes.includes(mime)) ??
+    (looksLikeText(doc.buffer) ? TEXT_PARSER : null);
+  if (!parser) {
+    throw new UnsupportedMediaTypeException(
+      `Unsupported file type "${mime || extension || 'unknown'}" for ${doc.fileName}; ` +
+        'upload CSV, XLS/XLSX, PDF, DOCX, Markdown, HTML, JSON/NDJSON or plain text',
+    );
+  }
+  return parser;
+}
+
+/**
+ * Splits an upload into sections of chunk texts plus, for tabular files
+ * and tables found in documents, the rows to store in graph_data. Does no
+ * I/O so ingestion jobs can re-parse a stored upload when resuming.
+ * Malformed content is reported as a DocumentParseError.
+ */
+export async function parseDocument(
+  doc: UploadedDocument,
+  chunking: ChunkingOptions = DEFAULT_CHUNKING,
+): Promise<ParsedSection[]> {
+  const parser = resolveParser(doc);
+  try {
+    return await parser.parse(doc, chunking);
+  } catch (err) {
+    if (err instanceof HttpException) throw err;
+    throw new DocumentParseError(doc.fileName, err);
+  }
+}
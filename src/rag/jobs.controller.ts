@@ -0,0 +1,41 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RequireScopes, WorkspaceId } from '../auth/auth.decorators';
+import { IngestJobsService } from './ingest-jobs.service';
+import { PaginationDto } from './dto/pagination.dto';
+
+@Controller('rag/jobs')
+export class JobsController {
+  constructor(private readonly ingestJobs: IngestJobsService) {}
+
+  @Get()
+  async list(
+    @WorkspaceId() workspaceId: string,
+    @Query() { limit = 20 }: PaginationDto,
+  ) {
+    return this.ingestJobs.list(workspaceId, limit);
+  }
+
+  @Get(':id')
+  async get(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.ingestJobs.get(workspaceId, id);
+  }
+
+  @Post(':id/resume')
+  @RequireScopes('ingest')
+  async resume(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.ingestJobs.resume(workspaceId, id);
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  heuristicPlan,
+  MAX_SUB_QUERIES,
+  mergeRetrieved,
+  validateQueryPlan,
+} from './query-plan';
+import { RetrievedChunk } from './rag.types';
+
+describe('query plans', () => {
+  const question =
+    'compare the top 3 risk contributors with their sector weights';
+
+  it('normalizes a model plan', () => {
+    expect(
+      validateQueryPlan(
+        {
+          type: 'lookup',
+          subQueries: [
+            ' top risk contributors ',
+            'Top risk contributors',
+            '',
+            'sector weights',
+          ],
+        },
+        question,
+      ),
+    ).toEqual({
+      type: 'lookup',
+      planner: 'model',
+      subQueries: [
+        { query: 'top risk contributors', chunkIds: [] },
+        { query: 'sector weights', chunkIds: [] },
+      ],
+    });
+  });
+
+  it('falls back to the question and caps sub-queries', () => {
+    expect(validateQueryPlan({ type: 'chit-chat' }, 'hi').subQueries).toEqual([
+      { query: 'hi', chunkIds: [] },
+    ]);
+    const many = Array.from({ length: 10 }, (_, i) => `part ${i}`);
+    expect(
+      validateQueryPlan({ type: 'lookup', subQueries: many }, question)
+        .subQueries,
+    ).toHaveLength(MAX_SUB_QUERIES);
+  });
+
+  it('rejects unknown types and malformed sub-queries', () => {
+    expect(() => validateQueryPlan({ type: 'forecast' }, question)).toThrow(
+      /Unknown question type/,
+    );
+    expect(() =>
+      validateQueryPlan({ type: 'lookup', subQueries: 'risk' }, question),
+    ).toThrow(/must be an array/);
+    expect(() =>
+      validateQueryPlan({ type: 'lookup', subQueries: [1] }, question),
+    ).toThrow(/must be strings/);
+  });
+
+  it('classifies from wording when there is no model plan', () => {
+    expect(heuristicPlan('How did VaR change since last month?').type).toBe(
+      'comparison',
+    );
+    expect(heuristicPlan('What is the total exposure by sector?').type).toBe(
+      'aggregation',
+    );
+    expect(heuristicPlan('What is AEUUU?')).toEqual({
+      type: 'lookup',
+      planner: 'heuristic',
+      subQueries: [{ query: 'What is AEUUU?', chunkIds: [] }],
+    });
+  });
+
+  it('interleaves sub-query results and keeps each chunk once', () => {
+    const chunk = (id: string) => ({ id }) as RetrievedChunk;
+    const merged = mergeRetrieved([
+      [chunk('a'), chunk('b'), chunk('c')],
+      [chunk('x'), chunk('a')],
+      [],
+    ]);
+    expect(merged.map((c) => c.id)).toEqual(['a', 'x', 'b', 'c']);
+  });
+});
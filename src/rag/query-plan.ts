@@ -0,0 +1,107 @@
+import { RetrievedChunk } from './rag.types';
+import { isComparisonQuestion } from './snapshots';
+import { isTableQuestion } from './table-query';
+
+/**
+ * What a question asks for: `lookup` reads values from the dashboards,
+ * `aggregation` computes over a table (totals, rankings, filters),
+ * `comparison` and `trend` compare the same figures across reporting dates,
+ * `chit-chat` covers greetings and anything the dashboards cannot answer.
+ */
+export const QUESTION_TYPES = [
+  'lookup',
+  'aggregation',
+  'comparison',
+  'trend',
+  'chit-chat',
+] as const;
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+export const MAX_SUB_QUERIES = 4;
+
+/** How a question was routed, returned with the answer for debugging. */
+export interface QueryPlan {
+  type: QuestionType;
+  /** `heuristic` when the planner was off or its reply did not validate. */
+  planner: 'model' | 'heuristic';
+  /**
+   * Searches run through the retriever, with the chunks each found; a
+   * question that is not decomposed has one. Empty ids when the answer
+   * came from a table or snapshot diff instead.
+   */
+  subQueries: Array<{ query: string; chunkIds: string[] }>;
+}
+
+/** Classification from the question's wording alone, without decomposition. */
+export function heuristicPlan(question: string): QueryPlan {
+  return {
+    type: isComparisonQuestion(question)
+      ? 'comparison'
+      : isTableQuestion(question)
+        ? 'aggregation'
+        : 'lookup',
+    planner: 'heuristic',
+    subQueries: [{ query: question, chunkIds: [] }],
+  };
+}
+
+/**
+ * Checks a model-suggested plan and returns a normalized copy, or throws
+ * with a message describing the first problem. Duplicate sub-queries are
+ * dropped and at most MAX_SUB_QUERIES kept; none means the question itself.
+ */
+export function validateQueryPlan(raw: unknown, question: string): QueryPlan {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Plan is not an object');
+  }
+  const spec = raw as Record<string, unknown>;
+
+  const type = spec.type as QuestionType;
+  if (!QUESTION_TYPES.includes(type)) {
+    throw new Error(`Unknown question type "${String(spec.type)}"`);
+  }
+  if (spec.subQueries !== undefined && !Array.isArray(spec.subQueries)) {
+    throw new Error('subQueries must be an array');
+  }
+
+  const seen = new Set<string>();
+  const queries: string[] = [];
+  for (const entry of (spec.subQueries as unknown[] | undefined) ?? []) {
+    if (typeof entry !== 'string') {
+      throw new Error('Sub-queries must be strings');
+    }
+    const query = entry.trim();
+    const key = query.toLowerCase();
+    if (!query || seen.has(key)) continue;
+    seen.add(key);
+    queries.push(query);
+  }
+
+  return {
+    type,
+    planner: 'model',
+    subQueries: (queries.length > 0 ? queries : [question])
+      .slice(0, MAX_SUB_QUERIES)
+      .map((query) => ({ query, chunkIds: [] })),
+  };
+}
+
+/**
+ * Merges the chunks retrieved for each sub-query: round-robin by rank so
+ * every part of the question is represented near the top, keeping each
+ * chunk once at its best position.
+ */
+export function mergeRetrieved(lists: RetrievedChunk[][]): RetrievedChunk[] {
+  const merged: RetrievedChunk[] = [];
+  const seen = new Set<string>();
+  const longest = Math.max(0, ...lists.map((l) => l.length));
+  for (let rank = 0; rank < longest; rank++) {
+    for (const list of lists) {
+      const chunk = list[rank];
+      if (!chunk || seen.has(chunk.id)) continue;
+      seen.add(chunk.id);
+      merged.push(chunk);
+    }
+  }
+  return merged;
+}
@@ -1,41 +1,143 @@
-import { Controller, Get, Post, Query, UploadedFile, UseInterceptors } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  MessageEvent,
+  Param,
+  ParseFilePipe,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Sse,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
 import { RagService } from './rag.service';
 import { FileInterceptor } from '@nestjs/platform-express';
-import * as multer from 'multer';
+import { Observable } from 'rxjs';
+import { IngestJob, QueryOptions } from './rag.types';
+import { IngestJobsService } from './ingest-jobs.service';
+import { parseChunkFilters } from './chunk-filters';
+import { parseChunkingOverrides } from './chunking';
+import { RequireScopes, WorkspaceId } from '../auth/auth.decorators';
+import { validationException } from '../common/errors';
+import { QueryDto, SourceQueryDto } from './dto/query.dto';
+import { ChatHistoryQueryDto, PaginationDto } from './dto/pagination.dto';
+import { CreateConversationDto } from './dto/conversation.dto';
+import { IngestFileQueryDto } from './dto/ingest.dto';
+
+function toQueryOptions(query: QueryDto): QueryOptions {
+  return {
+    k: query.k,
+    conversationId: query.conversationId,
+    debug: query.debug === 'true',
+    filters: parseChunkFilters(query),
+    visualize:
+      query.visualize === undefined ? undefined : query.visualize === 'true',
+    cache: query.cache !== 'false',
+  };
+}
 
 @Controller('rag')
 export class RagController {
-  constructor(private readonly ragService: RagService) { }
+  constructor(
+    private readonly ragService: RagService,
+    private readonly ingestJobs: IngestJobsService,
+  ) {}
 
   @Get('query')
-  async query(
-    @Query('q') question: string,
-    @Query('k') k: string = '5',
+  async query(@WorkspaceId() workspaceId: string, @Query() query: QueryDto) {
+    return this.ragService.query(workspaceId, query.q, toQueryOptions(query));
+  }
+
+  @Sse('query/stream')
+  queryStream(
+    @WorkspaceId() workspaceId: string,
+    @Query() query: QueryDto,
+  ): Observable<MessageEvent> {
+    return this.ragService.queryStream(
+      workspaceId,
+      query.q,
+      toQueryOptions(query),
+    );
+  }
+
+  @Post('conversations')
+  async createConversation(
+    @WorkspaceId() workspaceId: string,
+    @Body() body: CreateConversationDto,
+  ) {
+    return this.ragService.createConversation(workspaceId, body.title);
+  }
+
+  @Get('conversations')
+  async listConversations(
+    @WorkspaceId() workspaceId: string,
+    @Query() { page = 1, limit = 20 }: PaginationDto,
   ) {
-    return this.ragService.query(question, Number(k));
+    return this.ragService.listConversations(workspaceId, page, limit);
+  }
+
+  @Delete('conversations/:id')
+  async deleteConversation(
+    @WorkspaceId() workspaceId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.ragService.deleteConversation(workspaceId, id);
   }
 
   @Get('data')
-  async getData(@Query('source') source?: string): Promise<{ data: Array<{ id: string; source: string; table_data: any; created_at: string }> }> {
-    return this.ragService.getData(source);
+  async getData(
+    @WorkspaceId() workspaceId: string,
+    @Query() query: SourceQueryDto,
+  ): Promise<{
+    data: Array<{
+      id: string;
+      source: string;
+      table_data: Array<Record<string, unknown>>;
+      created_at: string;
+    }>;
+  }> {
+    return this.ragService.getData(workspaceId, query.source);
   }
 
   @Post('ingest/file')
-  @UseInterceptors(FileInterceptor('file', { storage: multer.memoryStorage() }))
+  @HttpCode(202)
+  @RequireScopes('ingest')
+  // Size and type limits come from the module's MulterModule options
+  @UseInterceptors(FileInterceptor('file'))
   async ingestFile(
-    @UploadedFile() file: Express.Multer.File,
-    @Query('source') source: string,
-  ): Promise<{ inserted: number; graphDataInserted: number }> {
-    return this.ragService.ingestFile(source ?? file.originalname, file);
+    @WorkspaceId() workspaceId: string,
+    @UploadedFile(
+      new ParseFilePipe({
+        exceptionFactory: (message) => validationException(message),
+      }),
+    )
+    file: Express.Multer.File,
+    @Query() query: IngestFileQueryDto,
+  ): Promise<IngestJob> {
+    return this.ingestJobs.enqueue(
+      workspaceId,
+      query.source ?? file.originalname,
+      file,
+      query.mode,
+      parseChunkingOverrides(query),
+      query.asOf,
+    );
   }
 
   @Get('chat-history')
   async getChatHistory(
-    @Query('page') page: number = 1,
-    @Query('limit') limit: number = 10,
+    @WorkspaceId() workspaceId: string,
+    @Query() { page = 1, limit = 10, conversationId }: ChatHistoryQueryDto,
   ) {
-    return this.ragService.getChatHistory(page, limit)
+    return this.ragService.getChatHistory(
+      workspaceId,
+      page,
+      limit,
+      conversationId,
+    );
   }
 }
-
-
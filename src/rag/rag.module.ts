@@ -1,13 +1,55 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
 import { RagService } from './rag.service';
 import { RagController } from './rag.controller';
+import { SourcesController } from './sources.controller';
+import { JobsController } from './jobs.controller';
+import { ChartDataController } from './chart-data.controller';
+import { FeedbackController } from './feedback.controller';
+import { VectorIndexController } from './vector-index.controller';
+import { ExportsController } from './exports.controller';
+import { IngestJobsService } from './ingest-jobs.service';
+import { RetrieverService } from './retriever.service';
+import { SourcesService } from './sources.service';
+import { ChartDataService } from './chart-data.service';
+import { FeedbackService } from './feedback.service';
+import { SnapshotsService } from './snapshots.service';
+import { AnswerCacheService } from './answer-cache.service';
+import { VectorIndexService } from './vector-index.service';
+import { ExportsService } from './exports.service';
 import { DatabaseModule } from '../database/database.module';
+import { uploadOptions } from './upload-options';
 
 @Module({
-  imports: [DatabaseModule],
-  controllers: [RagController],
-  providers: [RagService],
+  imports: [
+    DatabaseModule,
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: uploadOptions,
+    }),
+  ],
+  controllers: [
+    RagController,
+    SourcesController,
+    JobsController,
+    ChartDataController,
+    FeedbackController,
+    VectorIndexController,
+    ExportsController,
+  ],
+  providers: [
+    RagService,
+    RetrieverService,
+    SourcesService,
+    IngestJobsService,
+    ChartDataService,
+    FeedbackService,
+    SnapshotsService,
+    AnswerCacheService,
+    VectorIndexService,
+    ExportsService,
+  ],
+  exports: [RagService],
 })
 export class RagModule {}
-
-
@@ -0,0 +1,75 @@
+import { ConfigService } from '@nestjs/config';
+import { lastValueFrom, toArray } from 'rxjs';
+import { DatabaseService } from '../database/database.service';
+import { ChatProvider } from '../llm/llm.types';
+import { MetricsService } from '../metrics/metrics.service';
+import { Trace } from '../metrics/trace';
+import { AnswerCacheService } from './answer-cache.service';
+import { ChartDataService } from './chart-data.service';
+import { RagService } from './rag.service';
+import { RetrieverService } from './retriever.service';
+import { SnapshotsService } from './snapshots.service';
+
+describe('RagService', () => {
+  const rateLimited = new Error('429 Too Many Requests');
+  const complete = jest.fn(() => Promise.reject<string>(rateLimited));
+  const chat = {
+    model: 'chat',
+    complete,
+    // eslint-disable-next-line require-yield
+    stream: async function* () {
+      await Promise.resolve();
+      throw rateLimited;
+    },
+  } as unknown as ChatProvider;
+  const findTables = jest.fn(() =>
+    Promise.reject(new Error('connection reset')),
+  );
+  const chartData = { findTables } as unknown as ChartDataService;
+  const metrics = {
+    trace: <T>(operation: string, fn: (trace: Trace) => Promise<T>) =>
+      fn(new Trace(operation)),
+    time: <T>(_stage: string, fn: () => Promise<T>) => fn(),
+  } as unknown as MetricsService;
+  const service = new RagService(
+    {
+      query: () => Promise.resolve({ rows: [{ id: 'h1' }] }),
+    } as unknown as DatabaseService,
+    { retrieve: () => Promise.resolve([]) } as unknown as RetrieverService,
+    chartData,
+    {} as SnapshotsService,
+    { applies: () => false } as unknown as AnswerCacheService,
+    metrics,
+    chat,
+    {
+      get: (key: string) => (key === 'QUERY_PLANNER' ? 'off' : undefined),
+    } as unknown as ConfigService,
+  );
+
+  const unhandled: unknown[] = [];
+  const onUnhandled = (reason: unknown) => unhandled.push(reason);
+  beforeAll(() => process.on('unhandledRejection', onUnhandled));
+  afterAll(() => process.off('unhandledRejection', onUnhandled));
+
+  it('fails a stream with the generation error when the chart also fails', async () => {
+    const events = lastValueFrom(
+      service
+        .queryStream('ws-1', 'What is AEUUU?', { visualize: true })
+        .pipe(toArray()),
+    );
+    await expect(events).rejects.toBe(rateLimited);
+    // Give a dangling rejection time to surface
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(findTables).toHaveBeenCalled();
+    expect(unhandled).toEqual([]);
+  });
+
+  it('answers without a chart when the suggestion fails', async () => {
+    complete.mockResolvedValueOnce('AEUUU is a fund.');
+    const result = await service.query('ws-1', 'What is AEUUU?', {
+      visualize: true,
+    });
+    expect(result.answer).toBe('AEUUU is a fund.');
+    expect(result.visualization).toBeNull();
+  });
+});
@@ -1,270 +1,857 @@
-import { Injectable } from '@nestjs/common';
+import {
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  MessageEvent,
+  NotFoundException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
 import { DatabaseService } from '../database/database.service';
-import { toSql } from 'pgvector';
-import { parse as parseCsv } from 'csv-parse/sync';
-import * as XLSX from 'xlsx';
-
-function splitIntoSentences(text: string): string[] {
-  return text
-    .split(/(?<=[.!?])\s+/)
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-}
-
-function chunkText(text: string, targetTokens = 120): string[] {
-  const sentences = splitIntoSentences(text);
-  const chunks: string[] = [];
-  let current = '';
-  for (const sentence of sentences) {
-    if ((current + ' ' + sentence).split(/\s+/).length > targetTokens) {
-      if (current.trim().length > 0) chunks.push(current.trim());
-      current = sentence;
-    } else {
-      current = current.length ? `${current} ${sentence}` : sentence;
-    }
-  }
-  if (current.trim().length > 0) chunks.push(current.trim());
-  return chunks;
-}
+import { CHAT_PROVIDER, ChatMessage, ChatProvider } from '../llm/llm.types';
+import { MetricsService } from '../metrics/metrics.service';
+import { Trace, UsageSummary } from '../metrics/trace';
+import { RetrieverService } from './retriever.service';
+import {
+  AnswerCacheHit,
+  AnswerCacheService,
+  CacheableResult,
+} from './answer-cache.service';
+import { Observable } from 'rxjs';
+import {
+  cellText,
+  executeTablePlan,
+  isTableQuestion,
+  tableColumns,
+  TableQueryPlan,
+  validateTablePlan,
+} from './table-query';
+import {
+  ComparisonAnswer,
+  PreparedQuery,
+  QueryOptions,
+  QueryResult,
+  RetrievalRecord,
+  TableAnswer,
+} from './rag.types';
+import { extractCitations, numberContexts } from './citations';
+import { appendFilterClauses, ChunkFilters } from './chunk-filters';
+import { ChartDataService } from './chart-data.service';
+import { SnapshotsService } from './snapshots.service';
+import {
+  comparisonStart,
+  ComparisonPlan,
+  diffToText,
+  isComparisonQuestion,
+  narrowDiff,
+  validateComparisonPlan,
+} from './snapshots';
+import {
+  isChartQuestion,
+  validateVisualization,
+  Visualization,
+} from './visualization';
+import { packContexts, queryTerms } from './context-packer';
+import {
+  heuristicPlan,
+  MAX_SUB_QUERIES,
+  mergeRetrieved,
+  QueryPlan,
+  validateQueryPlan,
+} from './query-plan';
 
 @Injectable()
 export class RagService {
-  private readonly openai: OpenAI;
+  private readonly logger = new Logger(RagService.name);
+  private readonly plannerEnabled: boolean;
+  private readonly contextBudget: number;
+  private readonly minExcerptTokens: number;
 
   constructor(
     private readonly db: DatabaseService,
-    private readonly config: ConfigService,
+    private readonly retriever: RetrieverService,
+    private readonly chartData: ChartDataService,
+    private readonly snapshots: SnapshotsService,
+    private readonly answerCache: AnswerCacheService,
+    private readonly metrics: MetricsService,
+    @Inject(CHAT_PROVIDER) private readonly chat: ChatProvider,
+    config: ConfigService,
   ) {
-    this.openai = new OpenAI({ apiKey: this.config.get<string>('OPENAI_API_KEY') });
+    this.plannerEnabled = config.get<string>('QUERY_PLANNER') !== 'off';
+    this.contextBudget = Number(
+      config.get<string>('CONTEXT_MAX_TOKENS') ?? 6000,
+    );
+    this.minExcerptTokens = Number(
+      config.get<string>('CONTEXT_MIN_EXCERPT_TOKENS') ?? 64,
+    );
   }
 
-  private async ingestText(source: string, content: string): Promise<{ inserted: number }> {
-    const chunks = chunkText(content, 120);
-    let inserted = 0;
-    for (const chunk of chunks) {
-      inserted += await this.insertChunk(source, chunk);
-    }
-    return { inserted };
+  async query(
+    workspaceId: string,
+    question: string,
+    options: QueryOptions = {},
+  ): Promise<QueryResult> {
+    return this.metrics.trace('query', async (trace) => {
+      const { conversationId } = options;
+      const lookup = await this.lookupCachedAnswer(
+        workspaceId,
+        question,
+        options,
+      );
+      if (lookup?.hit) {
+        const { hit } = lookup;
+        const usage = trace.summary();
+        const chatHistoryId =
+          options.saveHistory === false
+            ? null
+            : await this.saveChatHistory(
+                workspaceId,
+                question,
+                hit.result.answer,
+                hit.retrieved,
+                usage,
+              );
+        this.logCacheHit(hit);
+        return {
+          ...hit.result,
+          conversationId: null,
+          chatHistoryId,
+          usage,
+          cached: hit.cached,
+        };
+      }
+
+      const prepared = await this.prepareQuery(workspaceId, question, options);
+
+      // 🔹 Step 5: Generate answer (and pick a chart alongside it)
+      const [answer, visualization] = await Promise.all([
+        this.generateAnswer(prepared.question, prepared.context),
+        this.suggestVisualization(workspaceId, prepared, options.visualize),
+      ]);
+
+      const retrieved = this.retrievalRecords(prepared);
+      const usage = trace.summary();
+      const chatHistoryId =
+        options.saveHistory === false
+          ? null
+          : await this.saveChatHistory(
+              workspaceId,
+              question,
+              answer,
+              retrieved,
+              usage,
+              conversationId,
+            );
+      this.logAnswered(prepared, trace);
+
+      const result = this.cacheableResult(prepared, answer, visualization);
+      if (lookup) {
+        await this.answerCache.store(
+          workspaceId,
+          question,
+          lookup.embedding,
+          options,
+          result,
+          retrieved,
+        );
+      }
+      return {
+        ...result,
+        conversationId: prepared.conversationId,
+        chatHistoryId,
+        usage,
+      };
+    });
   }
 
+  /**
+   * Streaming variant of `query`: emits the retrieved contexts, then answer
+   * deltas, then a final event with the full answer. The exchange is saved
+   * when the stream finishes, or with the partial answer if the client
+   * disconnects first.
+   */
+  queryStream(
+    workspaceId: string,
+    question: string,
+    options: QueryOptions = {},
+  ): Observable<MessageEvent> {
+    const { conversationId } = options;
+    return new Observable<MessageEvent>((subscriber) => {
+      const abort = new AbortController();
+      let answer = '';
+      let saving: Promise<string> | null = null;
+      const persist = () => {
+        saving ??= this.saveChatHistory(
+          workspaceId,
+          question,
+          answer,
+          prepared ? this.retrievalRecords(prepared) : [],
+          trace?.summary() ?? null,
+          conversationId,
+        );
+        return saving;
+      };
+      let prepared: PreparedQuery | null = null;
+      let trace: Trace | null = null;
+
+      const run = async (current: Trace) => {
+        trace = current;
+        const lookup = await this.lookupCachedAnswer(
+          workspaceId,
+          question,
+          options,
+        );
+        if (lookup?.hit) {
+          const { result, retrieved, cached } = lookup.hit;
+          answer = result.answer;
+          saving = this.saveChatHistory(
+            workspaceId,
+            question,
+            answer,
+            retrieved,
+            current.summary(),
+          );
+          subscriber.next({
+            type: 'contexts',
+            data: {
+              contexts: result.contexts,
+              conversationId: null,
+              standaloneQuestion: result.standaloneQuestion,
+              ...(result.table ? { table: result.table } : {}),
+              ...(result.comparison ? { comparison: result.comparison } : {}),
+              ...(result.plan ? { plan: result.plan } : {}),
+              ...(result.packing ? { packing: result.packing } : {}),
+              cached,
+            },
+          });
+          subscriber.next({ type: 'delta', data: { delta: answer } });
+          subscriber.next({
+            type: 'done',
+            data: {
+              answer,
+              chatHistoryId: await saving,
+              citations: result.citations,
+              visualization: result.visualization,
+              usage: current.summary(),
+              cached,
+            },
+          });
+          this.logCacheHit(lookup.hit);
+          subscriber.complete();
+          return;
+        }
+
+        prepared = await this.prepareQuery(workspaceId, question, options);
+        subscriber.next({
+          type: 'contexts',
+          data: {
+            contexts: prepared.contexts,
+            conversationId: prepared.conversationId,
+            standaloneQuestion: prepared.standaloneQuestion,
+            ...(prepared.table ? { table: prepared.table } : {}),
+            ...(prepared.comparison ? { comparison: prepared.comparison } : {}),
+            plan: prepared.plan,
+            ...(prepared.packing ? { packing: prepared.packing } : {}),
+          },
+        });
 
-  async ingestFile(source: string, file: Express.Multer.File): Promise<{ inserted: number; graphDataInserted: number }> {
-    // Delete old entries for this source
-    // await this.db.deleteBySource(source);
+        const visualization = this.suggestVisualization(
+          workspaceId,
+          prepared,
+          options.visualize,
+        );
+        const stream = this.chat.stream(
+          this.answerMessages(prepared.question, prepared.context),
+          { signal: abort.signal },
+        );
+        await this.metrics.time('generation', async () => {
+          for await (const delta of stream) {
+            answer += delta;
+            subscriber.next({ type: 'delta', data: { delta } });
+          }
+        });
 
-    const mime = file.mimetype;
-    const buf = file.buffer;
-    // CSV
-    if (mime === 'text/csv' || file.originalname.toLowerCase().endsWith('.csv')) {
-      const records: Array<Record<string, string>> = parseCsv(buf.toString('utf8'), {
-        columns: true,
-        skip_empty_lines: true,
-        bom: true,
+        const resolvedVisualization = await visualization;
+        const chatHistoryId = await persist();
+        this.logAnswered(prepared, current);
+        if (lookup) {
+          await this.answerCache.store(
+            workspaceId,
+            question,
+            lookup.embedding,
+            options,
+            this.cacheableResult(prepared, answer, resolvedVisualization),
+            this.retrievalRecords(prepared),
+          );
+        }
+        subscriber.next({
+          type: 'done',
+          data: {
+            answer,
+            chatHistoryId,
+            citations: extractCitations(answer, prepared.contexts),
+            visualization: resolvedVisualization,
+            usage: current.summary(),
+          },
+        });
+        subscriber.complete();
+      };
+
+      this.metrics.trace('query', run).catch((err) => {
+        if (abort.signal.aborted) return;
+        subscriber.error(err);
       });
-      const inserted = await this.ingestRows(source, records);
-      const graphDataInserted = await this.ingestGraphData(source, records);
-      return { inserted, graphDataInserted };
+
+      return () => {
+        if (saving) return;
+        // Client went away mid-answer: stop generating, keep what we have
+        abort.abort();
+        if (prepared) void persist();
+      };
+    });
+  }
+
+  /**
+   * Loads conversation history, rewrites and plans the question and
+   * retrieves the context (snapshot diff, table result or text chunks) the
+   * answer is generated from.
+   */
+  private async prepareQuery(
+    workspaceId: string,
+    question: string,
+    { k = 5, conversationId, debug = false, filters = {} }: QueryOptions,
+  ): Promise<PreparedQuery> {
+    // fetch last 3 query-response pairs of this conversation only
+    const chatHistory = conversationId
+      ? await this.metrics.time('history', () =>
+          this.getConversationHistory(workspaceId, conversationId, 3),
+        )
+      : [];
+    const historyContext = chatHistory
+      .map((h) => `Q: ${h.query}\nA: ${h.response}`)
+      .join('\n---\n');
+
+    // Follow-ups like "and for NUHGZ?" are rewritten before retrieval
+    const standaloneQuestion = await this.rewriteQuestion(
+      question,
+      historyContext,
+    );
+
+    const plan = await this.planQuery(standaloneQuestion);
+
+    // Greetings and off-topic messages are answered without dashboard data
+    if (plan.type === 'chit-chat') {
+      return {
+        question,
+        standaloneQuestion,
+        conversationId: conversationId ?? null,
+        contexts: [],
+        context: `${historyContext}\n---\n(No dashboard data: the message is small talk or outside the dashboards.)`,
+        plan,
+      };
     }
-    // XLS/XLSX
+
+    // The computed paths answer single-part questions; multi-part ones are
+    // decomposed into sub-queries for retrieval instead
+    const singlePart = plan.subQueries.length === 1;
+
+    // 🔹 Step 0a: "How did X change since last month" is diffed between snapshots
     if (
-      mime ===
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
-      mime === 'application/vnd.ms-excel' ||
-      file.originalname.toLowerCase().endsWith('.xlsx') ||
-      file.originalname.toLowerCase().endsWith('.xls')
+      singlePart &&
+      (plan.type === 'comparison' ||
+        plan.type === 'trend' ||
+        isComparisonQuestion(standaloneQuestion))
     ) {
-      const workbook = XLSX.read(buf, { type: 'buffer' });
-      const sheetNames = workbook.SheetNames;
-      let inserted = 0;
-      let graphDataInserted = 0;
-      for (const name of sheetNames) {
-        const sheet = workbook.Sheets[name];
-        const json = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' });
-        inserted += await this.ingestRows(source, json, `Sheet: ${name}`);
-        graphDataInserted += await this.ingestGraphData(source, json);
+      const comparison = await this.metrics.time('comparison', () =>
+        this.answerFromSnapshots(workspaceId, standaloneQuestion, filters),
+      );
+      if (comparison) {
+        const { diff } = comparison;
+        return {
+          question: standaloneQuestion,
+          standaloneQuestion,
+          conversationId: conversationId ?? null,
+          contexts: [],
+          context:
+            `Changes in table "${diff.table}" of ${diff.source} from the snapshot as of ${diff.from.as_of} ` +
+            `to the snapshot as of ${diff.to.as_of} (authoritative, do not recompute):\n` +
+            diffToText(diff),
+          comparison,
+          plan,
+        };
       }
-      return { inserted, graphDataInserted };
     }
-    // Fallback: treat as text
-    const result = await this.ingestText(source, buf.toString('utf8'));
-    return { inserted: result.inserted, graphDataInserted: 0 };
-  }
 
-  async query(question: string, k = 5): Promise<{
-    answer: string;
-    contexts: Array<{ id: string; content: string; score: number }>;
-  }> {
-    const qEmbedding = await this.createEmbedding(question);
-    console.log({})
-    // 🔹 Step 1: Semantic search
-    const { rows: semanticRows } = await this.db.query<{
-      id: string;
-      content: string;
-      score: number;
-    }>(
-      `SELECT id, content, 1 - (embedding <=> $1::vector) AS score
-   FROM dashboard_chunks
-   ORDER BY score DESC
-   LIMIT $2`,
-      [toSql(qEmbedding), 5],
+    // 🔹 Step 0b: Aggregation/filter/rank questions are computed from graph_data
+    if (
+      singlePart &&
+      (plan.type === 'aggregation' || isTableQuestion(standaloneQuestion))
+    ) {
+      const table = await this.metrics.time('table_query', () =>
+        this.answerFromTables(workspaceId, standaloneQuestion, filters),
+      );
+      if (table) {
+        const label = table.title || table.source;
+        return {
+          question: standaloneQuestion,
+          standaloneQuestion,
+          conversationId: conversationId ?? null,
+          contexts: [],
+          context:
+            `Computed result from table "${label}" (authoritative, do not recompute):\n` +
+            this.tabularToText(table.result.rows),
+          table,
+          plan,
+        };
+      }
+    }
+
+    // 🔹 Steps 1-3: Hybrid semantic + full-text retrieval per sub-query, in
+    // parallel, fused by rank and merged
+    const perQuery = await Promise.all(
+      plan.subQueries.map(({ query }) =>
+        this.retriever.retrieve(workspaceId, query, k, { debug, filters }),
+      ),
     );
+    const finalRows = mergeRetrieved(perQuery);
 
+    // 🔹 Step 4: Fit the chunks into the token budget, then build context
+    // (numbered so the answer can cite it)
+    const { contexts, packing } = packContexts(finalRows, {
+      budgetTokens: this.contextBudget,
+      minExcerptTokens: this.minExcerptTokens,
+      terms: queryTerms(standaloneQuestion),
+    });
+    const contextText = numberContexts(contexts);
 
-    console.log({ semanticRows });
+    return {
+      question,
+      standaloneQuestion,
+      conversationId: conversationId ?? null,
+      contexts,
+      context: `${historyContext}\n---\n${contextText}`,
+      packing,
+      plan: {
+        ...plan,
+        subQueries: plan.subQueries.map((sq, i) => ({
+          ...sq,
+          chunkIds: perQuery[i].map((c) => c.id),
+        })),
+      },
+    };
+  }
 
-    // 🔹 Step 2: Keyword fallback (always run if the Q has tokens like "AEUUU")
-    const keywordRows = await this.keywordFallbackSearch(question, k);
-    console.log({ keywordRows });
+  /**
+   * Classifies the question and splits multi-part ones into standalone
+   * sub-queries. Falls back to the wording heuristics when planning is off
+   * (QUERY_PLANNER=off) or the model's plan does not validate.
+   */
+  private async planQuery(question: string): Promise<QueryPlan> {
+    if (!this.plannerEnabled) return heuristicPlan(question);
+    const planJson = await this.metrics.time('plan', () =>
+      this.chat.complete(
+        [
+          {
+            role: 'system',
+            content:
+              'You route questions about company dashboards (spreadsheets of positions, risk, exposures and the like). ' +
+              'Respond with {"type": "lookup"|"aggregation"|"comparison"|"trend"|"chit-chat", "subQueries": [string]}. ' +
+              '"lookup": reading values or facts; "aggregation": totals, averages, counts, rankings or filters over a table; ' +
+              '"comparison": the same figures between two reporting dates; "trend": how figures moved over several dates; ' +
+              '"chit-chat": greetings, thanks or anything the dashboards cannot answer. ' +
+              `subQueries are standalone search queries, one per distinct piece of data the question needs (at most ${MAX_SUB_QUERIES}); ` +
+              'e.g. "top 3 risk contributors with their sector weights" needs ["top risk contributors", "sector weights"]. ' +
+              'A question needing one piece of data gets one sub-query, the question itself.',
+          },
+          { role: 'user', content: question },
+        ],
+        { json: true },
+      ),
+    );
 
-    // 🔹 Step 3: Merge both sets (avoid duplicates)
-    const combinedMap = new Map<string, { id: string; content: string; score: number }>();
-    for (const row of semanticRows) combinedMap.set(row.id, row);
-    for (const row of keywordRows) {
-      if (!combinedMap.has(row.id)) {
-        combinedMap.set(row.id, { ...row, score: 0.75 }); // give keyword hits medium score
-      }
+    try {
+      const parsed = JSON.parse(planJson || '{}') as unknown;
+      return validateQueryPlan(parsed, question);
+    } catch {
+      return heuristicPlan(question);
     }
+  }
 
-    const finalRows = Array.from(combinedMap.values())
-      .sort((a, b) => b.score - a.score)
-      .slice(0, k);
-
-    console.log({ finalRows });
+  /**
+   * Turns a follow-up into a self-contained search query using the
+   * conversation so far. Without history the question is used as-is.
+   */
+  private async rewriteQuestion(
+    question: string,
+    historyContext: string,
+  ): Promise<string> {
+    if (!historyContext) return question;
+    const rewritten = await this.metrics.time('rewrite', () =>
+      this.chat.complete([
+        {
+          role: 'system',
+          content:
+            'Rewrite the latest question as a standalone question that can be understood without the conversation. ' +
+            'Resolve pronouns and elliptical references (e.g. "and for NUHGZ?") using the conversation. ' +
+            'Return only the rewritten question. If it is already standalone, return it unchanged.',
+        },
+        {
+          role: 'user',
+          content: `Conversation:\n${historyContext}\n\nLatest question: ${question}`,
+        },
+      ]),
+    );
+    return rewritten.trim() || question;
+  }
 
-    // 🔹 Step 4: Build context
-    const contextText = finalRows.map((r) => r.content).join('\n---\n');
+  private answerMessages(question: string, context: string): ChatMessage[] {
+    return [
+      {
+        role: 'system',
+        content:
+          'You are a data analyst. Use both the chat history and the provided context from company dashboard. If uncertain, say you do not know. ' +
+          'Context blocks are numbered like [1]; after every claim, cite the blocks it comes from, e.g. "AEUUU contributes 30.80% [2]."',
+      },
+      {
+        role: 'user',
+        content: `Context:\n${context}\n\nQuestion: ${question}`,
+      },
+    ];
+  }
 
-    // fetch last 3 query-response pairs
-    const chatHistory = await this.getChatHistory(1, 3);
-    const historyContext = chatHistory
-      .map((h: any) => `Q: ${h.query}\nA: ${h.response}`)
-      .join("\n---\n");
+  private async generateAnswer(
+    question: string,
+    context: string,
+  ): Promise<string> {
+    return this.metrics.time('generation', () =>
+      this.chat.complete(this.answerMessages(question, context)),
+    );
+  }
 
-    // 🔹 Step 5: Generate answer
-    const answer = await this.generateAnswer(question, `${historyContext}\n---\n${contextText}`);
+  /** Null when the answer cache does not apply to this query. */
+  private async lookupCachedAnswer(
+    workspaceId: string,
+    question: string,
+    options: QueryOptions,
+  ): Promise<{ hit: AnswerCacheHit | null; embedding: number[] } | null> {
+    if (!this.answerCache.applies(options)) return null;
+    return this.metrics.time('answer_cache', () =>
+      this.answerCache.lookup(workspaceId, question, options),
+    );
+  }
 
-    await this.saveChatHistory(question, answer);
+  private cacheableResult(
+    prepared: PreparedQuery,
+    answer: string,
+    visualization: Visualization | null | undefined,
+  ): CacheableResult {
+    return {
+      answer,
+      contexts: prepared.contexts,
+      standaloneQuestion: prepared.standaloneQuestion,
+      citations: extractCitations(answer, prepared.contexts),
+      ...(prepared.table ? { table: prepared.table } : {}),
+      ...(prepared.comparison ? { comparison: prepared.comparison } : {}),
+      ...(visualization !== undefined ? { visualization } : {}),
+      plan: prepared.plan,
+      ...(prepared.packing ? { packing: prepared.packing } : {}),
+    };
+  }
 
-    return { answer, contexts: finalRows };
+  private logCacheHit(hit: AnswerCacheHit): void {
+    this.logger.log(
+      `Answered from cache (similarity ${hit.cached.similarity.toFixed(3)} ` +
+        `to a question asked at ${hit.cached.cachedAt})`,
+    );
   }
 
-  private async createEmbedding(input: string): Promise<number[]> {
-    const res = await this.openai.embeddings.create({
-      model: 'text-embedding-ada-002',
-      input,
-    });
-    return res.data[0].embedding as unknown as number[];
+  private logAnswered(prepared: PreparedQuery, trace: Trace): void {
+    const path = prepared.comparison
+      ? 'snapshot diff'
+      : prepared.table
+        ? 'table query'
+        : `${prepared.contexts.length} chunks of ${prepared.plan.subQueries.length} sub-queries`;
+    const usage = trace.summary();
+    this.logger.log(
+      `Answered ${prepared.plan.type} question from ${path} in ${Math.round(trace.elapsedMs())}ms ` +
+        `(tokens: ${usage.promptTokens} prompt, ${usage.completionTokens} completion, ` +
+        `${usage.embeddingTokens} embedding; stages: ${JSON.stringify(usage.stagesMs)})`,
+    );
   }
 
-  private async generateAnswer(question: string, context: string): Promise<string> {
-    const res = await this.openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
+  /**
+   * Asks the model for a constrained query plan over the stored tables and
+   * executes it in code. Returns null when no table fits the question or the
+   * plan does not validate, so the caller can fall back to text retrieval.
+   */
+  private async answerFromTables(
+    workspaceId: string,
+    question: string,
+    filters: ChunkFilters,
+  ): Promise<TableAnswer | null> {
+    const clauses: string[] = ['g.workspace_id = $1'];
+    const params: unknown[] = [workspaceId];
+    appendFilterClauses(
+      filters,
+      { table: 'graph_data', alias: 'g' },
+      clauses,
+      params,
+    );
+    const { rows: tables } = await this.db.query<{
+      id: string;
+      source: string;
+      title: string;
+      table_data: Array<Record<string, unknown>>;
+    }>(
+      `SELECT id, source, title, table_data
+       FROM graph_data g
+       WHERE ${clauses.join(' AND ')}
+       ORDER BY created_at DESC
+       LIMIT 20`,
+      params,
+    );
+    if (tables.length === 0) return null;
+
+    const columnsById = new Map<string, string[]>();
+    const descriptions: string[] = [];
+    for (const t of tables) {
+      const columns = tableColumns(t.table_data);
+      columnsById.set(t.id, columns);
+      descriptions.push(
+        `Table ${t.id} (source: ${t.source}${t.title ? `, sheet: ${t.title}` : ''})\n` +
+          `Columns: ${JSON.stringify(columns)}\n` +
+          `Sample rows: ${JSON.stringify(t.table_data.slice(0, 3))}`,
+      );
+    }
+
+    const planJson = await this.chat.complete(
+      [
         {
           role: 'system',
           content:
-            'You are a data analyst. Use both the chat history and the provided context from company dashboard. If uncertain, say you do not know.',
+            'You translate questions about dashboard tables into a JSON query plan. ' +
+            'Respond with {"plan": null} if no table can answer the question. Otherwise respond with ' +
+            '{"plan": {"tableId": string, "filters": [{"column": string, "op": "eq"|"neq"|"contains"|"gt"|"gte"|"lt"|"lte", "value": string|number}], ' +
+            '"groupBy": string|null, "aggregate": {"fn": "sum"|"avg"|"min"|"max"|"count", "column": string|null}|null, ' +
+            '"orderBy": {"column": string, "direction": "asc"|"desc"}|null, "limit": number|null}}. ' +
+            'Use only the exact column names listed. When aggregating, orderBy.column may be the groupBy column or "fn(column)". ' +
+            'For "highest/lowest X" without aggregation, order by X and set limit.',
+        },
+        {
+          role: 'user',
+          content: `Tables:\n${descriptions.join('\n\n')}\n\nQuestion: ${question}`,
         },
-        { role: 'user', content: `Context:\n${context}\n\nQuestion: ${question}` },
       ],
-      temperature: 0,
-    });
-    return res.choices[0]?.message?.content ?? '';
+      { json: true },
+    );
+
+    let plan: TableQueryPlan;
+    try {
+      const parsed = JSON.parse(planJson || '{}') as {
+        plan?: unknown;
+      };
+      if (!parsed.plan) return null;
+      plan = validateTablePlan(parsed.plan, columnsById);
+    } catch {
+      return null;
+    }
+
+    const table = tables.find((t) => t.id === plan.tableId)!;
+    return {
+      tableId: table.id,
+      source: table.source,
+      title: table.title,
+      plan,
+      result: executeTablePlan(table.table_data, plan),
+    };
   }
 
-  private async insertChunk(source: string, content: string): Promise<number> {
-    const embedding = await this.createEmbedding(content);
-    await this.db.query(
-      `INSERT INTO dashboard_chunks (source, content, embedding) VALUES ($1, $2, $3)`,
-      [source, content, toSql(embedding)],
+  /**
+   * Asks the model which snapshotted table (and which rows and columns) a
+   * comparison question is about, then diffs it in code. The period comes
+   * from the question ("since last month") relative to the latest snapshot,
+   * defaulting to the previous one. Returns null when nothing fits, so the
+   * caller can fall back to the other paths.
+   */
+  private async answerFromSnapshots(
+    workspaceId: string,
+    question: string,
+    filters: ChunkFilters,
+  ): Promise<ComparisonAnswer | null> {
+    const tables = await this.snapshots.comparableTables(
+      workspaceId,
+      filters.sources,
     );
-    return 1;
-  }
+    if (tables.length === 0) return null;
 
-  // private async ingestRows(
-  //   source: string,
-  //   rows: Array<Record<string, unknown>>,
-  //   prefix?: string,
-  // ): Promise<number> {
-  //   if (!rows || rows.length === 0) return 0;
-  //   const headers = Object.keys(rows[0]);
-  //   let inserted = 0;
-  //   for (const row of rows) {
-  //     const parts: string[] = [];
-  //     for (const h of headers) {
-  //       const value = (row as any)[h];
-  //       parts.push(`${h}: ${String(value)}`);
-  //     }
-  //     const content = (prefix ? `${prefix} \n` : '') + parts.join('; ');
-  //     inserted += await this.insertChunk(source, content);
-  //   }
-  //   return inserted;
-  // }
-
-
-  private async ingestRows(
-    source: string,
-    rows: Array<Record<string, unknown>>,
-    prefix?: string,
-  ): Promise<number> {
-    if (!rows || rows.length === 0) return 0;
+    const candidates = tables.map((t) => ({
+      source: t.source,
+      table: t.table,
+      columns: tableColumns(t.latest),
+    }));
+    const descriptions = tables.map(
+      (t, i) =>
+        `Source: ${t.source}, table: ${t.table}, snapshots as of: ${t.as_of.join(', ')}\n` +
+        `Columns: ${JSON.stringify(candidates[i].columns)}\n` +
+        `Sample rows: ${JSON.stringify(t.latest.slice(0, 3))}`,
+    );
 
-    const headers = Object.keys(rows[0]);
-    let inserted = 0;
+    const planJson = await this.chat.complete(
+      [
+        {
+          role: 'system',
+          content:
+            'You pick the dashboard table a question about changes over time refers to. ' +
+            'Respond with {"comparison": null} if no table fits. Otherwise respond with ' +
+            '{"comparison": {"source": string, "table": string, "key": string|null, ' +
+            '"keyValues": [string], "columns": [string]}}. key is the column naming the rows ' +
+            '(null to infer it), keyValues the rows the question mentions (empty for all rows) and ' +
+            'columns the measures it asks about (empty for all). Use only the exact names listed.',
+        },
+        {
+          role: 'user',
+          content: `Tables:\n${descriptions.join('\n\n')}\n\nQuestion: ${question}`,
+        },
+      ],
+      { json: true },
+    );
 
-    // ✅ Whole sheet as one chunk
-    {
-      const sheetParts = rows.map((row) =>
-        headers.map((h) => `${h}: ${String((row as any)[h])}`).join('; ')
-      );
-      const sheetContent = (prefix ? `${prefix}\n` : '') + sheetParts.join('\n');
-      inserted += await this.insertChunk(source, sheetContent);
+    let plan: ComparisonPlan;
+    try {
+      const parsed = JSON.parse(planJson || '{}') as {
+        comparison?: unknown;
+      };
+      if (!parsed.comparison) return null;
+      plan = validateComparisonPlan(parsed.comparison, candidates);
+    } catch {
+      return null;
     }
 
-    // ✅ Each row as one chunk (keeps relationships intact)
-    // for (const row of rows) {
-    //   const rowParts = headers.map((h) => `${h}: ${String((row as any)[h])}`);
-    //   const rowContent = (prefix ? `${prefix}\n` : '') + rowParts.join('; ');
-    //   inserted += await this.insertChunk(source, rowContent);
-    // }
-
-    // ✅ Each column as one chunk (for trend/summary queries)
-    for (const h of headers) {
-      const values = rows.map((r) => String((r as any)[h] ?? ''));
-      const colContent =
-        (prefix ? `${prefix}\n` : '') + `Column: ${h}\n` + values.join('\n');
-      inserted += await this.insertChunk(source, colContent);
+    const table = tables.find(
+      (t) => t.source === plan.source && t.table === plan.table,
+    )!;
+    try {
+      const diff = await this.snapshots.diff(workspaceId, plan.source, {
+        table: plan.table,
+        key: plan.key ?? undefined,
+        from: comparisonStart(question, table.as_of[0]) ?? undefined,
+      });
+      return { plan, diff: narrowDiff(diff, plan.keyValues, plan.columns) };
+    } catch (err) {
+      // No snapshot that far back, or no key column: answer another way
+      if (err instanceof HttpException) return null;
+      throw err;
     }
+  }
 
-    return inserted;
+  /**
+   * Asks the model for a chart over the tables behind the answer (the
+   * computed table, or the sheets the retrieved chunks came from). Returns
+   * undefined when no chart was requested and null when none fits or the
+   * suggestion does not validate against the inferred schemas. It never
+   * rejects: a chart is optional, so a failed suggestion (model or database
+   * error) is logged and gives null instead of failing the answer.
+   */
+  private suggestVisualization(
+    workspaceId: string,
+    prepared: PreparedQuery,
+    visualize?: boolean,
+  ): Promise<Visualization | null | undefined> {
+    return this.pickVisualization(workspaceId, prepared, visualize).catch(
+      (err) => {
+        this.logger.warn(
+          `Visualization suggestion failed: ${err instanceof Error ? err.message : String(err)}`,
+        );
+        return null;
+      },
+    );
   }
 
+  private async pickVisualization(
+    workspaceId: string,
+    prepared: PreparedQuery,
+    visualize?: boolean,
+  ): Promise<Visualization | null | undefined> {
+    if (visualize === false) return undefined;
+    if (visualize === undefined && !isChartQuestion(prepared.question)) {
+      return undefined;
+    }
 
+    const tables = await this.chartData.findTables(
+      workspaceId,
+      prepared.table ? [prepared.table.tableId] : [],
+      prepared.contexts.map((c) => ({
+        source: c.provenance.source,
+        sheet: c.provenance.sheet,
+      })),
+    );
+    if (tables.length === 0) return null;
 
+    const schemas = new Map(tables.map((t) => [t.id, t.schema]));
+    const descriptions = tables.map(
+      (t) =>
+        `Table ${t.id} (source: ${t.source}${t.title ? `, sheet: ${t.title}` : ''}, ${t.row_count} rows)\n` +
+        `Columns: ${t.schema.map((c) => `${c.name} (${c.type})`).join(', ')}\n` +
+        `Sample rows: ${JSON.stringify(t.sample)}`,
+    );
 
-  async getData(source?: string): Promise<{ data: Array<{ id: string; source: string; table_data: any; created_at: string }> }> {
-    const query = source
-      ? 'SELECT * FROM graph_data WHERE source = $1 ORDER BY created_at DESC'
-      : 'SELECT * FROM graph_data ORDER BY created_at DESC';
-    const params = source ? [source] : [];
-    const { rows } = await this.db.query<{ id: string; source: string; table_data: any; created_at: string }>(query, params);
-    return { data: rows };
-  }
+    const specJson = await this.metrics.time('visualization', () =>
+      this.chat.complete(
+        [
+          {
+            role: 'system',
+            content:
+              'You choose a chart that answers a question about dashboard tables. ' +
+              'Respond with {"visualization": null} if no chart would help. Otherwise respond with ' +
+              '{"visualization": {"chartType": "bar"|"line"|"pie"|"table", "tableId": string, "title": string, ' +
+              '"x": string, "y": [string], "aggregate": "sum"|"avg"|"min"|"max"|"count"|null, ' +
+              '"filters": [{"column": string, "op": "eq"|"neq"|"contains"|"gt"|"gte"|"lt"|"lte", "value": string|number}], ' +
+              '"sort": {"column": string, "direction": "asc"|"desc"}|null}}. ' +
+              'Use only the exact column names listed; y columns must be numeric, percentage or currency unless chartType is "table". ' +
+              'Use "line" for dates on x, "pie" for shares of a whole with a single y, and set aggregate when x repeats.',
+          },
+          {
+            role: 'user',
+            content: `Tables:\n${descriptions.join('\n\n')}\n\nQuestion: ${prepared.question}`,
+          },
+        ],
+        { json: true },
+      ),
+    );
 
-  private async ingestGraphData(
-    source: string,
-    rows: Array<Record<string, unknown>>,
-  ): Promise<number> {
-    if (!rows || rows.length === 0) return 0;
+    try {
+      const parsed = JSON.parse(specJson || '{}') as {
+        visualization?: unknown;
+      };
+      if (!parsed.visualization) return null;
+      return validateVisualization(parsed.visualization, schemas);
+    } catch {
+      return null;
+    }
+  }
 
-    // Store entire table data as JSONB
-    await this.db.query(
-      `INSERT INTO graph_data (source, table_data) VALUES ($1, $2)`,
-      [source, JSON.stringify(rows)],
-    );
-    return 1;
+  async getData(
+    workspaceId: string,
+    source?: string,
+  ): Promise<{
+    data: Array<{
+      id: string;
+      source: string;
+      table_data: Array<Record<string, unknown>>;
+      created_at: string;
+    }>;
+  }> {
+    const query = source
+      ? 'SELECT * FROM graph_data WHERE workspace_id = $1 AND source = $2 ORDER BY created_at DESC'
+      : 'SELECT * FROM graph_data WHERE workspace_id = $1 ORDER BY created_at DESC';
+    const params = source ? [workspaceId, source] : [workspaceId];
+    const { rows } = await this.db.query<{
+      id: string;
+      source: string;
+      table_data: Array<Record<string, unknown>>;
+      created_at: string;
+    }>(query, params);
+    return { data: rows };
   }
 
   private tabularToText(rows: Array<Record<string, unknown>>): string {
@@ -273,153 +860,191 @@ export class RagService {
     const lines: string[] = [];
     lines.push(headers.join(' | '));
     for (const row of rows) {
-      lines.push(headers.map((h) => String((row as any)[h] ?? '')).join(' | '));
+      lines.push(headers.map((h) => cellText(row[h])).join(' | '));
     }
     return lines.join('\n');
   }
 
-  private async keywordFallbackSearch(
-    question: string,
-    k: number,
-  ): Promise<Array<{ id: string; content: string }>> {
-    const normalized = question.toLowerCase();
-
-    // tokenize question
-    const stopwords = new Set([
-      'what', 'is', 'the', 'of', 'for', 'a', 'an', 'and', 'or', 'to', 'me', 'data', 'give', 'provide', 'show', 'please', 'about'
-    ]);
-    const rawTokens = normalized
-      .replace(/[^a-z0-9()\s.-]/g, ' ')
-      .split(/\s+/)
-      .filter(Boolean)
-      .filter((t) => !stopwords.has(t))
-      .filter((t) => t.length >= 2);
-
-    // Build ILIKE conditions
-    const conditions: string[] = [];
-    const params: any[] = [];
-    let paramIndex = 1;
-
-    for (const token of rawTokens) {
-      conditions.push(`content ILIKE $${paramIndex++}`);
-      params.push(`%${token}%`);
+  /** Chunk ids and scores (or the tables) kept with the answer for feedback. */
+  private retrievalRecords(prepared: PreparedQuery): RetrievalRecord[] {
+    if (prepared.comparison) {
+      const { diff } = prepared.comparison;
+      return [diff.from, diff.to].map((snapshot) => ({
+        id: snapshot.id,
+        kind: 'snapshot',
+        source: diff.source,
+        score: null,
+      }));
     }
-
-    const where = conditions.length ? conditions.join(' AND ') : '';
-
-    const sql = `SELECT id, content
-               FROM dashboard_chunks
-               ${where ? 'WHERE ' + where : ''}
-               ORDER BY created_at DESC
-               LIMIT ${k}`;
-
-    const { rows } = await this.db.query<{ id: string; content: string }>(sql, params);
-    return rows;
+    if (prepared.table) {
+      return [
+        {
+          id: prepared.table.tableId,
+          kind: 'table',
+          source: prepared.table.source,
+          score: null,
+          plan: prepared.table.plan,
+          // A later replace ingest drops the table, so keep what was answered
+          title: prepared.table.title,
+          result: prepared.table.result,
+        },
+      ];
+    }
+    return prepared.contexts.map((c) => ({
+      id: c.id,
+      kind: 'chunk',
+      source: c.provenance.source,
+      score: c.score,
+    }));
   }
 
-  private async saveChatHistory(query: string, response: string) {
-    await this.db.query(
-      `INSERT INTO chat_history (query, response) VALUES ($1, $2)`,
-      [query, response]
+  private async saveChatHistory(
+    workspaceId: string,
+    query: string,
+    response: string,
+    retrieved: RetrievalRecord[],
+    usage: UsageSummary | null,
+    conversationId?: string,
+  ): Promise<string> {
+    const { rows } = await this.db.query<{ id: string }>(
+      `INSERT INTO chat_history (workspace_id, query, response, conversation_id, retrieved, usage)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [
+        workspaceId,
+        query,
+        response,
+        conversationId ?? null,
+        JSON.stringify(retrieved),
+        usage && JSON.stringify(usage),
+      ],
     );
+    if (conversationId) {
+      // First question becomes the title of an untitled conversation
+      await this.db.query(
+        `UPDATE conversations
+         SET updated_at = now(),
+             title = CASE WHEN title = '' THEN left($2, 120) ELSE title END
+         WHERE id = $1`,
+        [conversationId, query],
+      );
+    }
+    return rows[0].id;
   }
 
-  async getChatHistory(page: number = 1, limit: number = 10) {
+  async getChatHistory(
+    workspaceId: string,
+    page: number = 1,
+    limit: number = 10,
+    conversationId?: string,
+  ) {
     const offset = (page - 1) * limit;
+    if (conversationId) {
+      await this.assertConversation(workspaceId, conversationId);
+    }
 
     const result = await this.db.query(
-      `SELECT id, query, response, created_at
+      `SELECT id, conversation_id, query, response, retrieved, usage, created_at
      FROM chat_history
+     WHERE workspace_id = $3
+     ${conversationId ? 'AND conversation_id = $4' : ''}
      ORDER BY created_at DESC
      LIMIT $1 OFFSET $2`,
-      [limit, offset]
+      conversationId
+        ? [limit, offset, workspaceId, conversationId]
+        : [limit, offset, workspaceId],
     );
 
     return result.rows;
   }
-}
 
+  /** Last `limit` exchanges of one conversation, oldest first. */
+  private async getConversationHistory(
+    workspaceId: string,
+    conversationId: string,
+    limit: number,
+  ): Promise<Array<{ query: string; response: string | null }>> {
+    await this.assertConversation(workspaceId, conversationId);
+    const { rows } = await this.db.query<{
+      query: string;
+      response: string | null;
+    }>(
+      `SELECT query, response
+       FROM chat_history
+       WHERE conversation_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [conversationId, limit],
+    );
+    return rows.reverse();
+  }
+
+  async createConversation(
+    workspaceId: string,
+    title?: string,
+  ): Promise<{
+    id: string;
+    title: string;
+    created_at: string;
+    updated_at: string;
+  }> {
+    const { rows } = await this.db.query<{
+      id: string;
+      title: string;
+      created_at: string;
+      updated_at: string;
+    }>(
+      `INSERT INTO conversations (workspace_id, title) VALUES ($1, $2)
+       RETURNING id, title, created_at, updated_at`,
+      [workspaceId, title ?? ''],
+    );
+    return rows[0];
+  }
 
+  async listConversations(
+    workspaceId: string,
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    const offset = (page - 1) * limit;
+    const { rows } = await this.db.query(
+      `SELECT c.id, c.title, c.created_at, c.updated_at,
+              COUNT(h.id)::int AS message_count
+       FROM conversations c
+       LEFT JOIN chat_history h ON h.conversation_id = c.id
+       WHERE c.workspace_id = $3
+       GROUP BY c.id
+       ORDER BY c.updated_at DESC
+       LIMIT $1 OFFSET $2`,
+      [limit, offset, workspaceId],
+    );
+    return rows;
+  }
 
+  async deleteConversation(
+    workspaceId: string,
+    id: string,
+  ): Promise<{ deleted: boolean }> {
+    await this.assertConversation(workspaceId, id);
+    // chat_history rows go with it via ON DELETE CASCADE
+    await this.db.query(
+      'DELETE FROM conversations WHERE workspace_id = $1 AND id = $2',
+      [workspaceId, id],
+    );
+    return { deleted: true };
+  }
 
-{
-  finalRows: [
-    {
-      id: 'c300f707-122c-42e7-8df1-f97ca144b9bb',
-      content: 'Column: Sum of Risk Contribution\n' +
-        '30.80%\n' +
-        '11.80%\n' +
-        '10.00%\n' +
-        '7.00%\n' +
-        '6.50%\n' +
-        '5.60%\n' +
-        '5.40%\n' +
-        '4.80%\n' +
-        '3.90%\n' +
-        '3.20%\n' +
-        '2.10%\n' +
-        '1.60%\n' +
-        '1.40%\n' +
-        '1.40%\n' +
-        '1.40%\n' +
-        '1.10%\n' +
-        '0.90%\n' +
-        '0.70%\n' +
-        '0.30%\n' +
-        '0.00%\n' +
-        '99.90%',
-      score: 0.8255897268301426
-    },
-    {
-      id: 'd841982a-1524-43f0-80d5-0f228c191d7a',
-      content: 'Securities: AEUUU; Sum of Risk Contribution: 30.80%\n' +
-        'Securities: NUHGZ; Sum of Risk Contribution: 11.80%\n' +
-        'Securities: CSTNL; Sum of Risk Contribution: 10.00%\n' +
-        'Securities: SSDRF; Sum of Risk Contribution: 7.00%\n' +
-        'Securities: JPMMZ; Sum of Risk Contribution: 6.50%\n' +
-        'Securities: AGACZ; Sum of Risk Contribution: 5.60%\n' +
-        'Securities: MFMER; Sum of Risk Contribution: 5.40%\n' +
-        'Securities: TIESI; Sum of Risk Contribution: 4.80%\n' +
-        'Securities: SCHHH; Sum of Risk Contribution: 3.90%\n' +
-        'Securities: IHHSF; Sum of Risk Contribution: 3.20%\n' +
-        'Securities: MOTTZ; Sum of Risk Contribution: 2.10%\n' +
-        'Securities: CACCZ; Sum of Risk Contribution: 1.60%\n' +
-        'Securities: LODUT; Sum of Risk Contribution: 1.40%\n' +
-        'Securities: ISHVF; Sum of Risk Contribution: 1.40%\n' +
-        'Securities: PGLAZ; Sum of Risk Contribution: 1.40%\n' +
-        'Securities: IMSCF; Sum of Risk Contribution: 1.10%\n' +
-        'Securities: LODEZ; Sum of Risk Contribution: 0.90%\n' +
-        'Securities: EUEIC; Sum of Risk Contribution: 0.70%\n' +
-        'Securities: LOMIZ; Sum of Risk Contribution: 0.30%\n' +
-        'Securities: USD.CCY; Sum of Risk Contribution: 0.00%\n' +
-        'Securities: Grand Total; Sum of Risk Contribution: 99.90%',
-      score: 0.8001854538807016
-    },
-    {
-      id: 'b239c015-ccb7-490a-b392-1cc73ef1bf7a',
-      content: 'Column: Securities\n' +
-        'AEUUU\n' +
-        'NUHGZ\n' +
-        'CSTNL\n' +
-        'SSDRF\n' +
-        'JPMMZ\n' +
-        'AGACZ\n' +
-        'MFMER\n' +
-        'TIESI\n' +
-        'SCHHH\n' +
-        'IHHSF\n' +
-        'MOTTZ\n' +
-        'CACCZ\n' +
-        'LODUT\n' +
-        'ISHVF\n' +
-        'PGLAZ\n' +
-        'IMSCF\n' +
-        'LODEZ\n' +
-        'EUEIC\n' +
-        'LOMIZ\n' +
-        'USD.CCY\n' +
-        'Grand Total',
-      score: 0.7389190417206084
+  /** Conversations of other workspaces are reported as missing. */
+  private async assertConversation(
+    workspaceId: string,
+    id: string,
+  ): Promise<void> {
+    const { rows } = await this.db.query(
+      'SELECT 1 FROM conversations WHERE workspace_id = $1 AND id = $2',
+      [workspaceId, id],
+    );
+    if (rows.length === 0) {
+      throw new NotFoundException(`Conversation ${id} not found`);
     }
-  ]
-}
\ No newline at end of file
+  }
+}
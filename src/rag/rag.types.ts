@@ -0,0 +1,261 @@
+import { TableQueryPlan, TableQueryResult } from './table-query';
+import { Visualization } from './visualization';
+import { ChunkFilters } from './chunk-filters';
+import { ComparisonPlan } from './snapshots';
+import { UsageSummary } from '../metrics/trace';
+import { QueryPlan } from './query-plan';
+import { ContextPacking } from './context-packer';
+
+export type ChunkKind = 'sheet' | 'column' | 'row' | 'text';
+
+/** Where a chunk came from; row numbers are 1-based rows of the sheet/file. */
+export interface ChunkProvenance {
+  source: string;
+  sheet: string;
+  kind: ChunkKind;
+  column: string | null;
+  rowStart: number | null;
+  rowEnd: number | null;
+}
+
+/** Per-retriever ranks, returned when a query asks for `debug`. */
+export interface RetrievalDebug {
+  semanticRank: number | null;
+  lexicalRank: number | null;
+  semanticScore: number | null;
+  lexicalScore: number | null;
+  /** Set when a reranker ordered the results. */
+  rerankScore?: number;
+}
+
+export interface RetrievedChunk {
+  id: string;
+  content: string;
+  /**
+   * Reciprocal rank fusion score of the semantic and lexical ranks. With a
+   * reranker the chunks are in rerank order, so scores need not descend.
+   */
+  score: number;
+  provenance: ChunkProvenance;
+  debug?: RetrievalDebug;
+}
+
+/**
+ * What an answer was generated from, stored with its chat_history row: the
+ * retrieved chunks with their fused scores, or the table or snapshots a
+ * computed answer came from (no score).
+ */
+export interface RetrievalRecord {
+  id: string;
+  kind: 'chunk' | 'table' | 'snapshot';
+  source: string;
+  score: number | null;
+  /** How a table answer was computed, so its result can be exported. */
+  plan?: TableQueryPlan;
+  /** Table answers: the sheet title and result as of answering. */
+  title?: string;
+  result?: TableQueryResult;
+}
+
+/** One claim of the answer and the numbered contexts it cites. */
+export interface Citation {
+  claim: string;
+  chunks: Array<{ index: number; chunkId: string } & ChunkProvenance>;
+}
+
+export interface TableAnswer {
+  tableId: string;
+  source: string;
+  title: string;
+  plan: TableQueryPlan;
+  result: TableQueryResult;
+}
+
+/** One ingested version of a source, identified by its reporting date. */
+export interface SnapshotRef {
+  id: string;
+  as_of: string;
+}
+
+export interface SnapshotSummary extends SnapshotRef {
+  ingest_job_id: string | null;
+  created_at: string;
+  updated_at: string;
+  tables: Array<{ title: string; row_count: number }>;
+}
+
+export interface CellChange {
+  from: unknown;
+  to: unknown;
+  /** to - from when both cells are numeric. */
+  delta: number | null;
+}
+
+export interface TableDiff {
+  key: string;
+  added: Array<Record<string, unknown>>;
+  removed: Array<Record<string, unknown>>;
+  changed: Array<{ key: string; changes: Record<string, CellChange> }>;
+  unchanged: number;
+}
+
+export interface SnapshotDiff extends TableDiff {
+  source: string;
+  table: string;
+  from: SnapshotRef;
+  to: SnapshotRef;
+}
+
+/** A comparison question answered from two snapshots of a table. */
+export interface ComparisonAnswer {
+  plan: ComparisonPlan;
+  diff: SnapshotDiff;
+}
+
+export interface QueryOptions {
+  k?: number;
+  conversationId?: string;
+  debug?: boolean;
+  filters?: ChunkFilters;
+  /** Suggest a chart: true/false forces it on/off, unset decides from the question. */
+  visualize?: boolean;
+  /** False for synthetic questions (evaluation runs) that are not chat. */
+  saveHistory?: boolean;
+  /** False to bypass the answer cache. */
+  cache?: boolean;
+}
+
+/** The earlier question a cached answer was served for. */
+export interface CachedAnswerRef {
+  question: string;
+  /** Cosine similarity between the two questions' embeddings. */
+  similarity: number;
+  cachedAt: string;
+}
+
+export interface QueryResult {
+  answer: string;
+  contexts: RetrievedChunk[];
+  conversationId: string | null;
+  standaloneQuestion: string;
+  /** Null when the exchange was not saved (`saveHistory: false`). */
+  chatHistoryId: string | null;
+  citations: Citation[];
+  table?: TableAnswer;
+  comparison?: ComparisonAnswer;
+  visualization?: Visualization | null;
+  /** Tokens used and time spent per stage answering the question. */
+  usage: UsageSummary;
+  /** Set when the answer came from the answer cache. */
+  cached?: CachedAnswerRef;
+  /** How the question was classified and split; unset on answers cached before plans existed. */
+  plan?: QueryPlan;
+  /** Chunks excerpted or left out to fit the context budget. */
+  packing?: ContextPacking;
+}
+
+export const FEEDBACK_RATINGS = ['up', 'down'] as const;
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+
+/** A user's verdict on one answer; resubmitting replaces it. */
+export interface AnswerFeedback {
+  chat_history_id: string;
+  rating: FeedbackRating;
+  /** What the answer should have said. */
+  correction: string | null;
+  /** Retrieved chunks the user marked as wrong or irrelevant. */
+  flagged_chunk_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+/** Thumbs-down answers of one source (null: answers with nothing retrieved). */
+export interface LowRatedSource {
+  source: string | null;
+  rated: number;
+  down: number;
+  downRate: number;
+  flaggedChunks: Array<{ chunkId: string; count: number }>;
+  questions: Array<{
+    chatHistoryId: string;
+    query: string;
+    response: string | null;
+    correction: string | null;
+    flaggedChunkIds: string[];
+    ratedAt: string;
+  }>;
+}
+
+/** Everything retrieval produces before the answer is generated. */
+export interface PreparedQuery {
+  question: string;
+  standaloneQuestion: string;
+  conversationId: string | null;
+  contexts: RetrievedChunk[];
+  context: string;
+  table?: TableAnswer;
+  comparison?: ComparisonAnswer;
+  plan: QueryPlan;
+  /** Set when the context came from retrieved chunks. */
+  packing?: ContextPacking;
+}
+
+export const INGEST_MODES = ['replace', 'append', 'skip-if-unchanged'] as const;
+export type IngestMode = (typeof INGEST_MODES)[number];
+
+/**
+ * How tables are chunked: `auto` keeps a whole-sheet chunk when it fits the
+ * token budget and falls back to row windows, plus one chunk per column;
+ * `row-window` emits only header-repeating row windows; `row` one chunk per
+ * row. Text is always packed by tokens with overlap.
+ */
+export const CHUNK_STRATEGIES = ['auto', 'row-window', 'row'] as const;
+export type ChunkStrategy = (typeof CHUNK_STRATEGIES)[number];
+
+export interface ChunkingOptions {
+  strategy: ChunkStrategy;
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+export type IngestJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'skipped';
+
+export interface SheetProgress {
+  name: string;
+  total: number;
+  embedded: number;
+  status: 'pending' | 'embedded' | 'completed';
+}
+
+export interface IngestJob {
+  id: string;
+  source: string;
+  mode: IngestMode;
+  status: IngestJobStatus;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  content_hash: string;
+  chunking: ChunkingOptions | null;
+  /** Reporting date of the upload (YYYY-MM-DD), given or detected. */
+  as_of: string | null;
+  sheets: SheetProgress[];
+  total_chunks: number;
+  processed_chunks: number;
+  inserted: number;
+  graph_data_inserted: number;
+  attempts: number;
+  error: string | null;
+  /** Same codes as API error responses, e.g. PARSE_FAILED. */
+  error_code: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+  /** Tokens used and time per stage of the latest attempt. */
+  usage: UsageSummary | null;
+}
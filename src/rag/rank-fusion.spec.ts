@@ -0,0 +1,24 @@
+import { reciprocalRankFusion } from './rank-fusion';
+
+describe('reciprocalRankFusion', () => {
+  it('rewards documents found by both retrievers', () => {
+    const fused = reciprocalRankFusion([
+      { name: 'semantic', weight: 1, ids: ['a', 'b', 'c'] },
+      { name: 'lexical', weight: 1, ids: ['c', 'd'] },
+    ]);
+    expect(fused[0].id).toBe('c');
+    expect(fused[0].ranks).toEqual({ semantic: 3, lexical: 1 });
+    expect(fused.find((r) => r.id === 'd')?.ranks).toEqual({
+      semantic: null,
+      lexical: 2,
+    });
+  });
+
+  it('applies list weights', () => {
+    const fused = reciprocalRankFusion([
+      { name: 'semantic', weight: 0.2, ids: ['a'] },
+      { name: 'lexical', weight: 1, ids: ['b'] },
+    ]);
+    expect(fused.map((r) => r.id)).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,40 @@
+export interface RankedList {
+  name: string;
+  weight: number;
+  ids: string[];
+}
+
+export interface FusedResult {
+  id: string;
+  score: number;
+  /** 1-based rank of the id in each list, null when the list missed it. */
+  ranks: Record<string, number | null>;
+}
+
+/**
+ * Weighted reciprocal rank fusion: score(d) = Σ weight / (rrfK + rank(d)).
+ * Only ranks matter, so cosine similarities and ts_rank_cd values can be
+ * combined without calibrating their scales.
+ */
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  rrfK = 60,
+): FusedResult[] {
+  const fused = new Map<string, FusedResult>();
+  for (const list of lists) {
+    list.ids.forEach((id, index) => {
+      let entry = fused.get(id);
+      if (!entry) {
+        entry = {
+          id,
+          score: 0,
+          ranks: Object.fromEntries(lists.map((l) => [l.name, null])),
+        };
+        fused.set(id, entry);
+      }
+      entry.ranks[list.name] ??= index + 1;
+      entry.score += list.weight / (rrfK + index + 1);
+    });
+  }
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
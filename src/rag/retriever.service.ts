@@ -0,0 +1,321 @@
+import { ConflictException, Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { toSql } from 'pgvector';
+import { DatabaseService } from '../database/database.service';
+import {
+  EMBEDDING_PROVIDER,
+  EmbeddingProvider,
+  RERANKER,
+  Reranker,
+} from '../llm/llm.types';
+import { MetricsService } from '../metrics/metrics.service';
+import { PROVENANCE_COLUMNS, ProvenanceRow, toProvenance } from './citations';
+import { reciprocalRankFusion } from './rank-fusion';
+import { appendFilterClauses, ChunkFilters } from './chunk-filters';
+import { RetrievedChunk } from './rag.types';
+import { VectorIndexService } from './vector-index.service';
+
+type ChunkRow = { id: string; content: string; score: number } & ProvenanceRow;
+
+const STOPWORDS = new Set([
+  'what',
+  'is',
+  'the',
+  'of',
+  'for',
+  'a',
+  'an',
+  'and',
+  'or',
+  'to',
+  'me',
+  'data',
+  'give',
+  'provide',
+  'show',
+  'please',
+  'about',
+]);
+
+// Ticker-like tokens ("AEUUU", "USD.CCY") are matched as substrings via the
+// trigram index; stemming and tokenizing would mangle them.
+const TICKER_PATTERN = /^[A-Z0-9][A-Z0-9.]{2,}$/;
+
+function escapeLike(token: string): string {
+  return token.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Hybrid retrieval: pgvector cosine search and Postgres full-text search
+ * (ts_rank_cd plus trigram matching for tickers), fused with weighted
+ * reciprocal rank fusion. With a reranker configured, a larger fused pool
+ * is scored against the question and cut down to the top k.
+ */
+@Injectable()
+export class RetrieverService {
+  private readonly logger = new Logger(RetrieverService.name);
+  private readonly semanticWeight: number;
+  private readonly lexicalWeight: number;
+  private readonly rrfK: number;
+  private readonly candidateMultiplier: number;
+  private readonly rerankPoolMultiplier: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    @Inject(EMBEDDING_PROVIDER) private readonly embedder: EmbeddingProvider,
+    private readonly metrics: MetricsService,
+    private readonly vectorIndex: VectorIndexService,
+    @Inject(RERANKER) private readonly reranker: Reranker | null,
+    config: ConfigService,
+  ) {
+    this.semanticWeight = Number(
+      config.get<string>('RETRIEVAL_SEMANTIC_WEIGHT') ?? 1,
+    );
+    this.lexicalWeight = Number(
+      config.get<string>('RETRIEVAL_LEXICAL_WEIGHT') ?? 1,
+    );
+    this.rrfK = Number(config.get<string>('RETRIEVAL_RRF_K') ?? 60);
+    this.candidateMultiplier = Number(
+      config.get<string>('RETRIEVAL_CANDIDATE_MULTIPLIER') ?? 4,
+    );
+    this.rerankPoolMultiplier = Number(
+      config.get<string>('RERANK_POOL_MULTIPLIER') ?? 5,
+    );
+  }
+
+  async retrieve(
+    workspaceId: string,
+    question: string,
+    k: number,
+    options: { debug?: boolean; filters?: ChunkFilters } = {},
+  ): Promise<RetrievedChunk[]> {
+    const pool = this.reranker ? k * this.rerankPoolMultiplier : k;
+    const candidates = Math.max(k * this.candidateMultiplier, pool);
+    const filters = options.filters ?? {};
+    const [semanticRows, lexicalRows] = await Promise.all([
+      this.semanticSearch(workspaceId, question, candidates, filters),
+      this.metrics.time('keyword_search', () =>
+        this.lexicalSearch(workspaceId, question, candidates, filters),
+      ),
+    ]);
+
+    const byId = new Map<string, ChunkRow>();
+    for (const row of [...semanticRows, ...lexicalRows]) byId.set(row.id, row);
+    const semanticScores = new Map(semanticRows.map((r) => [r.id, r.score]));
+    const lexicalScores = new Map(lexicalRows.map((r) => [r.id, r.score]));
+
+    const fused = reciprocalRankFusion(
+      [
+        {
+          name: 'semantic',
+          weight: this.semanticWeight,
+          ids: semanticRows.map((r) => r.id),
+        },
+        {
+          name: 'lexical',
+          weight: this.lexicalWeight,
+          ids: lexicalRows.map((r) => r.id),
+        },
+      ],
+      this.rrfK,
+    );
+
+    const fusedRows = fused.slice(0, pool).map((f): RetrievedChunk => {
+      const row = byId.get(f.id)!;
+      return {
+        id: row.id,
+        content: row.content,
+        score: f.score,
+        provenance: toProvenance(row),
+        ...(options.debug
+          ? {
+              debug: {
+                semanticRank: f.ranks.semantic,
+                lexicalRank: f.ranks.lexical,
+                semanticScore: semanticScores.get(f.id) ?? null,
+                lexicalScore: lexicalScores.get(f.id) ?? null,
+              },
+            }
+          : {}),
+      };
+    });
+    const finalRows = await this.rerank(question, fusedRows, k);
+    this.logger.debug(
+      `Retrieved ${finalRows.length} of ${byId.size} candidates ` +
+        `(${semanticRows.length} semantic, ${lexicalRows.length} lexical): ` +
+        finalRows.map((r) => `${r.id}@${r.score.toFixed(4)}`).join(', '),
+    );
+    return finalRows;
+  }
+
+  /**
+   * Orders the pool by reranker score and keeps the top k. If the reranker
+   * fails the fused order is kept: a broken reranker should make answers
+   * worse, not fail them.
+   */
+  private async rerank(
+    question: string,
+    rows: RetrievedChunk[],
+    k: number,
+  ): Promise<RetrievedChunk[]> {
+    const reranker = this.reranker;
+    if (!reranker || rows.length === 0) return rows.slice(0, k);
+    let scores: number[];
+    try {
+      scores = await this.metrics.time('rerank', () =>
+        reranker.score(
+          question,
+          rows.map((r) => r.content),
+        ),
+      );
+    } catch (err) {
+      this.logger.warn(
+        `Reranking with ${reranker.model} failed, keeping fused order: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return rows.slice(0, k);
+    }
+    // Stable sort: ties keep their fused order
+    return rows
+      .map((row, i) => ({ row, rerankScore: scores[i] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, k)
+      .map(({ row, rerankScore }) =>
+        row.debug ? { ...row, debug: { ...row.debug, rerankScore } } : row,
+      );
+  }
+
+  private async semanticSearch(
+    workspaceId: string,
+    question: string,
+    limit: number,
+    filters: ChunkFilters,
+  ): Promise<ChunkRow[]> {
+    const [qEmbedding] = await this.metrics.time('embed', () =>
+      this.embedder.embed([question]),
+    );
+    await this.assertSearchableModel(workspaceId);
+    // Only chunks from the active embedding model; the cast matches the
+    // per-dimension partial index
+    const dim = this.embedder.dimensions;
+    const params: unknown[] = [
+      toSql(qEmbedding),
+      limit,
+      this.embedder.model,
+      workspaceId,
+    ];
+    const clauses = [
+      'c.workspace_id = $4',
+      `c.embedding_model = $3`,
+      `c.embedding_dim = ${dim}`,
+    ];
+    appendFilterClauses(
+      filters,
+      { table: 'dashboard_chunks', alias: 'c' },
+      clauses,
+      params,
+    );
+    const { rows } = await this.metrics.time('vector_search', () =>
+      this.vectorIndex.withSearchSettings(limit, () =>
+        this.db.query<ChunkRow>(
+          `SELECT id, content, ${PROVENANCE_COLUMNS},
+                  1 - (embedding::vector(${dim}) <=> $1::vector(${dim})) AS score
+           FROM dashboard_chunks c
+           WHERE ${clauses.join(' AND ')}
+           ORDER BY embedding::vector(${dim}) <=> $1::vector(${dim})
+           LIMIT $2`,
+          params,
+        ),
+      ),
+    );
+    return rows;
+  }
+
+  /**
+   * Full-text search ranked by ts_rank_cd (cover density, normalized to
+   * 0..1), with ticker-like tokens matched as substrings and ranked first.
+   */
+  private async lexicalSearch(
+    workspaceId: string,
+    question: string,
+    limit: number,
+    filters: ChunkFilters,
+  ): Promise<ChunkRow[]> {
+    const rawTokens = question
+      .split(/\s+/)
+      .map((t) => t.replace(/[?,!;:"'()]+/g, ''));
+    const tickers = Array.from(
+      new Set(rawTokens.filter((t) => TICKER_PATTERN.test(t))),
+    );
+    const terms = Array.from(
+      new Set(
+        question
+          .toLowerCase()
+          .split(/[^a-z0-9]+/)
+          .filter((t) => t.length >= 2 && !STOPWORDS.has(t)),
+      ),
+    );
+    if (terms.length === 0 && tickers.length === 0) return [];
+
+    const params: unknown[] = [
+      terms.join(' | '),
+      tickers.map((t) => `%${escapeLike(t)}%`),
+      limit,
+      workspaceId,
+    ];
+    const clauses = [
+      'c.workspace_id = $4',
+      '(c.content_tsv @@ q OR c.content ILIKE ANY($2::text[]))',
+    ];
+    appendFilterClauses(
+      filters,
+      { table: 'dashboard_chunks', alias: 'c' },
+      clauses,
+      params,
+    );
+    const { rows } = await this.db.query<ChunkRow>(
+      `SELECT id, content, ${PROVENANCE_COLUMNS},
+              ts_rank_cd(content_tsv, q, 32) + ticker_hits AS score
+       FROM dashboard_chunks c,
+            to_tsquery('english', $1) AS q,
+            LATERAL (
+              SELECT COUNT(*)::int AS ticker_hits
+              FROM unnest($2::text[]) AS p
+              WHERE c.content ILIKE p
+            ) t
+       WHERE ${clauses.join(' AND ')}
+       ORDER BY score DESC
+       LIMIT $3`,
+      params,
+    );
+    return rows;
+  }
+
+  /**
+   * Refuses to search when every stored chunk came from a different
+   * embedding model: the scores would be meaningless.
+   */
+  private async assertSearchableModel(workspaceId: string): Promise<void> {
+    const { rows } = await this.db.query<{
+      embedding_model: string;
+      embedding_dim: number;
+    }>(
+      `SELECT DISTINCT embedding_model, embedding_dim FROM dashboard_chunks
+       WHERE workspace_id = $1`,
+      [workspaceId],
+    );
+    const active = rows.some(
+      (r) =>
+        r.embedding_model === this.embedder.model &&
+        r.embedding_dim === this.embedder.dimensions,
+    );
+    if (rows.length > 0 && !active) {
+      const stored = rows
+        .map((r) => `${r.embedding_model} (${r.embedding_dim})`)
+        .join(', ');
+      throw new ConflictException(
+        `Stored chunks were embedded with ${stored}, but the active model is ` +
+          `${this.embedder.model} (${this.embedder.dimensions}). Re-ingest the sources first.`,
+      );
+    }
+  }
+}
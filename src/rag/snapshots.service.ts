@@ -0,0 +1,237 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { tableColumns } from './table-query';
+import { diffTables, inferKeyColumn } from './snapshots';
+import {
+  IngestMode,
+  SnapshotDiff,
+  SnapshotRef,
+  SnapshotSummary,
+} from './rag.types';
+
+type TableRows = Array<Record<string, unknown>>;
+
+/**
+ * Versions of each source's tables by reporting date. Ingest records one
+ * snapshot per (source, as-of date); re-uploading the same period replaces
+ * it, appending adds to it.
+ */
+@Injectable()
+export class SnapshotsService {
+  constructor(private readonly db: DatabaseService) {}
+
+  /**
+   * Stores the tables staged by an ingest job as the source's snapshot for
+   * `asOf`. Must run inside the job's commit transaction.
+   */
+  async record(
+    workspaceId: string,
+    source: string,
+    jobId: string,
+    asOf: string | null,
+    mode: IngestMode,
+  ): Promise<SnapshotRef> {
+    const { rows } = await this.db.query<SnapshotRef>(
+      `INSERT INTO source_snapshots (workspace_id, source, as_of, ingest_job_id)
+       VALUES ($1, $2, COALESCE($3::date, current_date), $4)
+       ON CONFLICT (workspace_id, source, as_of) DO UPDATE
+       SET ingest_job_id = EXCLUDED.ingest_job_id, updated_at = now()
+       RETURNING id, as_of::text AS as_of`,
+      [workspaceId, source, asOf, jobId],
+    );
+    const snapshot = rows[0];
+    if (mode !== 'append') {
+      await this.db.query(
+        'DELETE FROM snapshot_tables WHERE snapshot_id = $1',
+        [snapshot.id],
+      );
+    }
+    await this.db.query(
+      `INSERT INTO snapshot_tables (snapshot_id, title, table_data)
+       SELECT $1, t->>'title', t->'rows'
+       FROM ingest_jobs, jsonb_array_elements(tables) AS t
+       WHERE id = $2`,
+      [snapshot.id, jobId],
+    );
+    return snapshot;
+  }
+
+  /** Snapshots of a source, newest reporting date first. */
+  async list(
+    workspaceId: string,
+    source: string,
+  ): Promise<{ source: string; snapshots: SnapshotSummary[] }> {
+    const { rows } = await this.db.query<SnapshotSummary>(
+      `SELECT s.id, s.as_of::text AS as_of, s.ingest_job_id, s.created_at, s.updated_at,
+              COALESCE(jsonb_agg(jsonb_build_object(
+                'title', t.title, 'row_count', jsonb_array_length(t.table_data)
+              ) ORDER BY t.title) FILTER (WHERE t.id IS NOT NULL), '[]'::jsonb) AS tables
+       FROM source_snapshots s
+       LEFT JOIN snapshot_tables t ON t.snapshot_id = s.id
+       WHERE s.workspace_id = $1 AND s.source = $2
+       GROUP BY s.id
+       ORDER BY s.as_of DESC`,
+      [workspaceId, source],
+    );
+    if (rows.length === 0) {
+      throw new NotFoundException(`Source ${source} has no snapshots`);
+    }
+    return { source, snapshots: rows };
+  }
+
+  /** Tables with at least two snapshots, i.e. the ones that can be compared. */
+  async comparableTables(
+    workspaceId: string,
+    sources: string[] = [],
+  ): Promise<
+    Array<{
+      source: string;
+      table: string;
+      as_of: string[];
+      latest: TableRows;
+    }>
+  > {
+    const { rows } = await this.db.query<{
+      source: string;
+      table: string;
+      as_of: string[];
+      latest: TableRows;
+    }>(
+      `SELECT s.source, t.title AS table,
+              array_agg(s.as_of::text ORDER BY s.as_of DESC) AS as_of,
+              (array_agg(t.table_data ORDER BY s.as_of DESC))[1] AS latest
+       FROM source_snapshots s
+       JOIN snapshot_tables t ON t.snapshot_id = s.id
+       WHERE s.workspace_id = $1
+         AND (cardinality($2::text[]) = 0 OR s.source = ANY($2::text[]))
+       GROUP BY s.source, t.title
+       HAVING COUNT(DISTINCT s.id) > 1
+       ORDER BY MAX(s.as_of) DESC
+       LIMIT 20`,
+      [workspaceId, sources],
+    );
+    return rows;
+  }
+
+  /**
+   * Compares one table between two snapshots. `to` and `from` pick the
+   * snapshot in effect on that date; by default the latest snapshot is
+   * compared with the one before it. `key` is inferred when unset.
+   */
+  async diff(
+    workspaceId: string,
+    source: string,
+    options: { table?: string; from?: string; to?: string; key?: string } = {},
+  ): Promise<SnapshotDiff> {
+    const to = await this.resolve(workspaceId, source, options.to, null);
+    const from = await this.resolve(workspaceId, source, options.from, to);
+
+    const [before, after] = await Promise.all([
+      this.tables(from.id),
+      this.tables(to.id),
+    ]);
+    const shared = [...after.keys()].filter((title) => before.has(title));
+    const table = options.table ?? (shared.length === 1 ? shared[0] : null);
+    if (table === null) {
+      throw new BadRequestException(
+        `Pass ?table= to pick one of: ${shared.join(', ') || '(no shared tables)'}`,
+      );
+    }
+    const beforeRows = before.get(table);
+    const afterRows = after.get(table);
+    if (!beforeRows || !afterRows) {
+      throw new NotFoundException(
+        `Table ${table} is not in both snapshots (${from.as_of}, ${to.as_of})`,
+      );
+    }
+
+    let key = options.key ?? null;
+    if (key !== null) {
+      if (
+        !tableColumns(beforeRows).includes(key) ||
+        !tableColumns(afterRows).includes(key)
+      ) {
+        throw new BadRequestException(`Unknown key column "${key}"`);
+      }
+    } else {
+      key = inferKeyColumn(beforeRows, afterRows);
+      if (key === null) {
+        throw new BadRequestException(
+          `No column identifies rows of ${table} in both snapshots; pass ?key=`,
+        );
+      }
+    }
+
+    return {
+      source,
+      table,
+      from,
+      to,
+      ...diffTables(beforeRows, afterRows, key),
+    };
+  }
+
+  /**
+   * The snapshot in effect on `date` (latest as of that day), or the latest
+   * one. With `before` set, only snapshots older than it qualify.
+   */
+  private async resolve(
+    workspaceId: string,
+    source: string,
+    date: string | undefined,
+    before: SnapshotRef | null,
+  ): Promise<SnapshotRef> {
+    const { rows } = await this.db.query<SnapshotRef>(
+      `SELECT id, as_of::text AS as_of FROM source_snapshots
+       WHERE workspace_id = $1 AND source = $2
+         AND ($3::date IS NULL OR as_of <= $3::date)
+         AND ($4::date IS NULL OR as_of < $4::date)
+       ORDER BY as_of DESC
+       LIMIT 1`,
+      [workspaceId, source, date ?? null, before?.as_of ?? null],
+    );
+    if (rows.length === 0) {
+      const bound = [
+        date && `on or before ${date}`,
+        before && `before ${before.as_of}`,
+      ].filter(Boolean);
+      throw new NotFoundException(
+        `Source ${source} has no snapshot${bound.length ? ` ${bound.join(' and ')}` : ''}`,
+      );
+    }
+    return rows[0];
+  }
+
+  private async tables(snapshotId: string): Promise<Map<string, TableRows>> {
+    const { rows } = await this.db.query<{
+      title: string;
+      table_data: TableRows;
+    }>(
+      `SELECT title, table_data FROM snapshot_tables
+       WHERE snapshot_id = $1
+       ORDER BY title`,
+      [snapshotId],
+    );
+    // An appended snapshot can hold a sheet more than once; rows are combined
+    const tables = new Map<string, TableRows>();
+    for (const row of rows) {
+      tables.set(row.title, [
+        ...(tables.get(row.title) ?? []),
+        ...row.table_data,
+      ]);
+    }
+    return tables;
+  }
+
+  /** Drops every snapshot of a deleted source, with their tables. */
+  async deleteAll(workspaceId: string, source: string): Promise<void> {
+    await this.db.query(
+      'DELETE FROM source_snapshots WHERE workspace_id = $1 AND source = $2',
+      [workspaceId, source],
+    );
+  }
+}
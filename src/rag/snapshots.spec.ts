@@ -0,0 +1,132 @@
+import {
+  comparisonStart,
+  detectAsOfDate,
+  diffTables,
+  diffToText,
+  inferKeyColumn,
+  isComparisonQuestion,
+  narrowDiff,
+  parseReportDate,
+  validateComparisonPlan,
+} from './snapshots';
+
+describe('snapshots', () => {
+  it('parses reporting dates as dashboards write them', () => {
+    expect(parseReportDate('2026-09-30')).toBe('2026-09-30');
+    expect(parseReportDate('30/09/2026')).toBe('2026-09-30');
+    expect(parseReportDate('09/30/2026')).toBe('2026-09-30');
+    expect(parseReportDate('30 Sep 2026')).toBe('2026-09-30');
+    expect(parseReportDate('September 30, 2026')).toBe('2026-09-30');
+    expect(parseReportDate('Feb 2026')).toBe('2026-02-28');
+    expect(parseReportDate('2026-02-30')).toBeNull();
+    expect(parseReportDate('Risk 2026')).toBeNull();
+  });
+
+  it('detects the as-of date from content labels, then the file name', () => {
+    expect(
+      detectAsOfDate('risk_2026-08-31.xlsx', [
+        'Sheet: Risk\nRisk report as of: 30 Sep 2026',
+      ]),
+    ).toBe('2026-09-30');
+    expect(detectAsOfDate('risk_2026-08-31.xlsx', ['Sheet: Risk'])).toBe(
+      '2026-08-31',
+    );
+    expect(detectAsOfDate('risk_20260831.csv', [])).toBe('2026-08-31');
+    expect(detectAsOfDate('risk_2026-08.xlsx', [])).toBe('2026-08-31');
+    expect(detectAsOfDate('Risk Sept 2026.xlsx', [])).toBe('2026-09-30');
+    expect(detectAsOfDate('risk.xlsx', ['Total 2026'])).toBeNull();
+  });
+
+  it('recognises comparison questions and their period', () => {
+    const question =
+      "How did AEUUU's risk contribution change since last month?";
+    expect(isComparisonQuestion(question)).toBe(true);
+    expect(
+      isComparisonQuestion('What is the risk contribution of AEUUU?'),
+    ).toBe(false);
+    expect(comparisonStart(question, '2026-03-31')).toBe('2026-02-28');
+    expect(comparisonStart('change vs 2 weeks ago', '2026-10-15')).toBe(
+      '2026-10-01',
+    );
+    expect(comparisonStart('year over year change', '2026-10-15')).toBe(
+      '2025-10-15',
+    );
+    expect(comparisonStart('changes since 2026-09-01', '2026-10-15')).toBe(
+      '2026-09-01',
+    );
+    expect(
+      comparisonStart('what changed vs previous upload', '2026-10-15'),
+    ).toBe(null);
+  });
+
+  const before = [
+    { Securities: 'AEUUU', Currency: 'USD', 'Risk Contribution': '30.80%' },
+    { Securities: 'NUHGZ', Currency: 'EUR', 'Risk Contribution': '11.80%' },
+    { Securities: 'OLDCO', Currency: 'EUR', 'Risk Contribution': '1.00%' },
+  ];
+  const after = [
+    { Securities: 'AEUUU', Currency: 'USD', 'Risk Contribution': '28.1%' },
+    { Securities: 'NUHGZ', Currency: 'EUR', 'Risk Contribution': '11.8%' },
+    { Securities: 'NEWCO', Currency: 'GBP', 'Risk Contribution': '2.50%' },
+  ];
+
+  it('diffs two versions of a table by an inferred key column', () => {
+    const key = inferKeyColumn(before, after);
+    expect(key).toBe('Securities');
+
+    const diff = diffTables(before, after, key!);
+    expect(diff.changed).toEqual([
+      {
+        key: 'AEUUU',
+        changes: {
+          'Risk Contribution': { from: '30.80%', to: '28.1%', delta: -2.7 },
+        },
+      },
+    ]);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.added.map((r) => r.Securities)).toEqual(['NEWCO']);
+    expect(diff.removed.map((r) => r.Securities)).toEqual(['OLDCO']);
+    expect(diffToText(diff)).toContain(
+      'Changed AEUUU: Risk Contribution 30.80% -> 28.1% (-2.7)',
+    );
+  });
+
+  it('narrows a diff to the rows and columns asked about', () => {
+    const diff = diffTables(before, after, 'Securities');
+    const narrowed = narrowDiff(diff, ['aeuuu'], ['Currency']);
+    expect(narrowed.changed).toEqual([]);
+    expect(narrowed.added).toEqual([]);
+    expect(narrowDiff(diff, ['AEUUU'], []).changed).toHaveLength(1);
+  });
+
+  it('validates comparison plans against comparable tables', () => {
+    const candidates = [
+      {
+        source: 'risk.xlsx',
+        table: 'Risk',
+        columns: ['Securities', 'Risk Contribution'],
+      },
+    ];
+    expect(
+      validateComparisonPlan(
+        { source: 'risk.xlsx', table: 'Risk', keyValues: ['AEUUU'] },
+        candidates,
+      ),
+    ).toEqual({
+      source: 'risk.xlsx',
+      table: 'Risk',
+      key: null,
+      keyValues: ['AEUUU'],
+      columns: [],
+    });
+    expect(() =>
+      validateComparisonPlan({ source: 'pnl.xlsx', table: 'Risk' }, candidates),
+    ).toThrow('Unknown table');
+    expect(() =>
+      validateComparisonPlan(
+        { source: 'risk.xlsx', table: 'Risk', columns: ['Weight'] },
+        candidates,
+      ),
+    ).toThrow('Unknown column');
+  });
+});
@@ -0,0 +1,440 @@
+import { parseNumericCell, tableColumns } from './table-query';
+import { CellChange, TableDiff } from './rag.types';
+
+/** A comparison the model picked for a question, checked by validateComparisonPlan. */
+export interface ComparisonPlan {
+  source: string;
+  table: string;
+  /** Key column; null lets the diff infer it. */
+  key: string | null;
+  /** Rows the question is about (key values); empty means all rows. */
+  keyValues: string[];
+  /** Columns the question is about; empty means all columns. */
+  columns: string[];
+}
+
+type Row = Record<string, unknown>;
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const MONTH_WORD =
+  '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]{0,6}\\.?';
+const DATE_PATTERN = [
+  '\\d{4}-\\d{1,2}-\\d{1,2}',
+  '\\d{1,2}[/.]\\d{1,2}[/.]\\d{4}',
+  `\\d{1,2} ${MONTH_WORD},? \\d{4}`,
+  `${MONTH_WORD} \\d{1,2},? \\d{4}`,
+  `${MONTH_WORD} \\d{4}`,
+].join('|');
+
+const AS_OF_LABEL = new RegExp(
+  `\\b(?:as of|as at|as-of|report(?:ing)? date|valuation date|period end(?:ing)?|reporting period)\\s*:?\\s*(${DATE_PATTERN})`,
+  'i',
+);
+
+const COMPARISON_PATTERN =
+  /\b(change[sd]?|changing|compare[sd]?|comparison|differ(?:ence|ent)?|increase[sd]?|decrease[sd]?|grew|grown|drop(?:ped)?|fell|rose|moved?|delta|versus|vs\.?)\b/i;
+
+const PERIOD_PATTERN =
+  /\b(since|last|previous|prior|earlier|ago|between|versus|vs\.?|(?:week|month|quarter|year)[- ]over[- ](?:week|month|quarter|year)|wow|mom|qoq|yoy)\b/i;
+
+const UNIT_MONTHS: Record<string, number> = { month: 1, quarter: 3, year: 12 };
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  six: 6,
+};
+
+function monthIndex(word: string): number | null {
+  const name = word.toLowerCase().replace(/\.$/, '');
+  if (name.length < 3) return null;
+  const index = MONTHS.findIndex(
+    (m) => m.startsWith(name) || (name === 'sept' && m === 'september'),
+  );
+  return index === -1 ? null : index;
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function endOfMonth(year: number, month: number): string | null {
+  if (month < 0 || month > 11) return null;
+  return new Date(Date.UTC(year, month + 1, 0)).toISOString().slice(0, 10);
+}
+
+/**
+ * Parses a reporting date as written on dashboards into YYYY-MM-DD.
+ * Numeric dates are read day-first unless only month-first is valid;
+ * "Sep 2026" means the end of that month.
+ */
+export function parseReportDate(text: string): string | null {
+  const value = text.trim();
+  let m = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  if (m) return isoDate(+m[1], +m[2] - 1, +m[3]);
+
+  m = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/.exec(value);
+  if (m) {
+    return isoDate(+m[3], +m[2] - 1, +m[1]) ?? isoDate(+m[3], +m[1] - 1, +m[2]);
+  }
+
+  m = /^(\d{1,2}) ([A-Za-z]{3,9}\.?),? (\d{4})$/.exec(value);
+  if (m) {
+    const month = monthIndex(m[2]);
+    return month === null ? null : isoDate(+m[3], month, +m[1]);
+  }
+
+  m = /^([A-Za-z]{3,9}\.?) (\d{1,2}),? (\d{4})$/.exec(value);
+  if (m) {
+    const month = monthIndex(m[1]);
+    return month === null ? null : isoDate(+m[3], month, +m[2]);
+  }
+
+  m = /^([A-Za-z]{3,9}\.?) (\d{4})$/.exec(value);
+  if (m) {
+    const month = monthIndex(m[1]);
+    return month === null ? null : endOfMonth(+m[2], month);
+  }
+  return null;
+}
+
+/**
+ * Finds the reporting date of an upload: a labelled date in its content
+ * ("As of: 30 Sep 2026", "Report date 2026-09-30") wins over a date in the
+ * file name (risk_2026-09-30.xlsx, risk_20260930.csv, risk_2026-09.xlsx,
+ * risk_sep_2026.xlsx). Null when neither has one.
+ */
+export function detectAsOfDate(
+  fileName: string,
+  texts: string[],
+): string | null {
+  for (const text of texts) {
+    const labelled = AS_OF_LABEL.exec(text);
+    const date = labelled && parseReportDate(labelled[1]);
+    if (date) return date;
+  }
+
+  const name = fileName.replace(/\.[^.]+$/, '');
+  let m = /(?<!\d)(\d{4})[-_.]?(\d{2})[-_.]?(\d{2})(?!\d)/.exec(name);
+  if (m) {
+    const date = isoDate(+m[1], +m[2] - 1, +m[3]);
+    if (date) return date;
+  }
+  m = /(?<!\d)(\d{4})[-_.](\d{2})(?!\d)/.exec(name);
+  if (m) {
+    const date = endOfMonth(+m[1], +m[2] - 1);
+    if (date) return date;
+  }
+  m = /(?:^|[^A-Za-z])([A-Za-z]{3,9})[-_ ]?(\d{4})(?!\d)/.exec(name);
+  if (m) {
+    const month = monthIndex(m[1]);
+    if (month !== null) return endOfMonth(+m[2], month);
+  }
+  return null;
+}
+
+/**
+ * Heuristic gate for the snapshot path: a change word plus a reference to
+ * another period ("since last month", "vs previous", "week over week").
+ */
+export function isComparisonQuestion(question: string): boolean {
+  return COMPARISON_PATTERN.test(question) && PERIOD_PATTERN.test(question);
+}
+
+function shiftDate(iso: string, { days = 0, months = 0 }): string {
+  const date = new Date(`${iso}T00:00:00Z`);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  // Clamp to the end of shorter months (Mar 31 - 1 month = Feb 28)
+  const last = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  date.setUTCDate(Math.min(day, last) + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The date to compare the latest snapshot against: an explicit date in the
+ * question, or a period back from `latestAsOf` ("last month", "2 weeks
+ * ago", "quarter over quarter"). Null means the previous snapshot.
+ */
+export function comparisonStart(
+  question: string,
+  latestAsOf: string,
+): string | null {
+  const explicit = new RegExp(`\\b(?:${DATE_PATTERN})`, 'i').exec(question);
+  const date = explicit && parseReportDate(explicit[0]);
+  if (date) return date;
+
+  const text = question.toLowerCase();
+  const ago =
+    /\b(\d+|an?|one|two|three|four|six) (day|week|month|quarter|year)s? ago\b/.exec(
+      text,
+    );
+  const last =
+    /\b(?:last|previous|prior|past) (day|week|month|quarter|year)\b/.exec(text);
+  const over = /\b(day|week|month|quarter|year)[- ]over[- ]\1\b/.exec(text);
+  const short = /\b(wow|mom|qoq|yoy)\b/.exec(text);
+
+  let count = 1;
+  let unit: string | null = null;
+  if (ago) {
+    count = NUMBER_WORDS[ago[1]] ?? Number(ago[1]);
+    unit = ago[2];
+  } else if (last) {
+    unit = last[1];
+  } else if (over) {
+    unit = over[1];
+  } else if (short) {
+    unit = { wow: 'week', mom: 'month', qoq: 'quarter', yoy: 'year' }[
+      short[1]
+    ] as string;
+  }
+  if (!unit) return null;
+  if (unit === 'day') return shiftDate(latestAsOf, { days: -count });
+  if (unit === 'week') return shiftDate(latestAsOf, { days: -7 * count });
+  return shiftDate(latestAsOf, { months: -UNIT_MONTHS[unit] * count });
+}
+
+function cellText(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function keyOf(row: Row, key: string): string | null {
+  const value = row[key];
+  if (value === null || value === undefined) return null;
+  const text = cellText(value).trim();
+  return text === '' ? null : text;
+}
+
+function isUniqueKey(rows: Row[], key: string): boolean {
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const value = keyOf(row, key);
+    if (value === null || seen.has(value)) return false;
+    seen.add(value);
+  }
+  return seen.size > 0;
+}
+
+/**
+ * Picks the column identifying rows across snapshots: the first column that
+ * is present, filled and unique in both, preferring labels over numbers.
+ */
+export function inferKeyColumn(before: Row[], after: Row[]): string | null {
+  const beforeColumns = new Set(tableColumns(before));
+  const candidates = tableColumns(after).filter(
+    (c) =>
+      beforeColumns.has(c) && isUniqueKey(before, c) && isUniqueKey(after, c),
+  );
+  const label = candidates.find((c) =>
+    after.some((row) => parseNumericCell(row[c]) === null),
+  );
+  return label ?? candidates[0] ?? null;
+}
+
+function decimals(value: number): number {
+  const [, fraction = ''] = String(value).split('.');
+  return fraction.length;
+}
+
+function compareCells(from: unknown, to: unknown): CellChange | null {
+  const a = parseNumericCell(from);
+  const b = parseNumericCell(to);
+  if (a !== null && b !== null) {
+    if (a === b) return null;
+    const places = Math.max(decimals(a), decimals(b));
+    return { from, to, delta: Number((b - a).toFixed(places)) };
+  }
+  if (JSON.stringify(from ?? null) === JSON.stringify(to ?? null)) return null;
+  return { from: from ?? null, to: to ?? null, delta: null };
+}
+
+/**
+ * Row-level diff of two versions of a table, matching rows on `key`. Rows
+ * without a key value are ignored; numeric cells compare by value so
+ * "30.8%" and "30.80%" are unchanged.
+ */
+export function diffTables(
+  before: Row[],
+  after: Row[],
+  key: string,
+): TableDiff {
+  const beforeByKey = new Map<string, Row>();
+  for (const row of before) {
+    const value = keyOf(row, key);
+    if (value !== null) beforeByKey.set(value, row);
+  }
+  const columns = [
+    ...new Set([...tableColumns(before), ...tableColumns(after)]),
+  ].filter((c) => c !== key);
+
+  const diff: TableDiff = {
+    key,
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+  };
+  const seen = new Set<string>();
+  for (const row of after) {
+    const value = keyOf(row, key);
+    if (value === null) continue;
+    seen.add(value);
+    const previous = beforeByKey.get(value);
+    if (!previous) {
+      diff.added.push(row);
+      continue;
+    }
+    const changes: Record<string, CellChange> = {};
+    for (const column of columns) {
+      const change = compareCells(previous[column], row[column]);
+      if (change) changes[column] = change;
+    }
+    if (Object.keys(changes).length > 0) {
+      diff.changed.push({ key: value, changes });
+    } else {
+      diff.unchanged++;
+    }
+  }
+  for (const [value, row] of beforeByKey) {
+    if (!seen.has(value)) diff.removed.push(row);
+  }
+  return diff;
+}
+
+/** Keeps only the rows and columns a question asked about. */
+export function narrowDiff<T extends TableDiff>(
+  diff: T,
+  keyValues: string[],
+  columns: string[],
+): T {
+  const wanted = new Set(keyValues.map((v) => v.toLowerCase()));
+  const keep = (value: string | null) =>
+    wanted.size === 0 || (value !== null && wanted.has(value.toLowerCase()));
+  const changed = diff.changed
+    .filter((c) => keep(c.key))
+    .map((c) => ({
+      key: c.key,
+      changes:
+        columns.length === 0
+          ? c.changes
+          : Object.fromEntries(
+              Object.entries(c.changes).filter(([col]) =>
+                columns.includes(col),
+              ),
+            ),
+    }))
+    .filter((c) => Object.keys(c.changes).length > 0);
+  return {
+    ...diff,
+    added: diff.added.filter((r) => keep(keyOf(r, diff.key))),
+    removed: diff.removed.filter((r) => keep(keyOf(r, diff.key))),
+    changed,
+  };
+}
+
+function formatCell(value: unknown): string {
+  return value === null || value === undefined ? '(empty)' : cellText(value);
+}
+
+/** Plain-text rendering of a diff for the answer prompt. */
+export function diffToText(diff: TableDiff, maxLines: number = 50): string {
+  const lines = [
+    `Key column: ${diff.key}. ${diff.added.length} rows added, ${diff.removed.length} removed, ` +
+      `${diff.changed.length} changed, ${diff.unchanged} unchanged.`,
+  ];
+  for (const { key, changes } of diff.changed) {
+    const parts = Object.entries(changes).map(
+      ([column, c]) =>
+        `${column} ${formatCell(c.from)} -> ${formatCell(c.to)}` +
+        (c.delta !== null ? ` (${c.delta > 0 ? '+' : ''}${c.delta})` : ''),
+    );
+    lines.push(`Changed ${key}: ${parts.join('; ')}`);
+  }
+  for (const row of diff.added) {
+    lines.push(`Added: ${Object.values(row).map(formatCell).join(' | ')}`);
+  }
+  for (const row of diff.removed) {
+    lines.push(`Removed: ${Object.values(row).map(formatCell).join(' | ')}`);
+  }
+  return lines.length > maxLines
+    ? [...lines.slice(0, maxLines), `... ${lines.length - maxLines} more`].join(
+        '\n',
+      )
+    : lines.join('\n');
+}
+
+/**
+ * Checks a model-produced comparison plan against the tables that have at
+ * least two snapshots and returns a normalized copy, or throws with a
+ * message describing the first problem.
+ */
+export function validateComparisonPlan(
+  raw: unknown,
+  candidates: Array<{ source: string; table: string; columns: string[] }>,
+): ComparisonPlan {
+  if (!raw || typeof raw !== 'object') throw new Error('Plan is not an object');
+  const plan = raw as Record<string, unknown>;
+  const candidate = candidates.find(
+    (c) => c.source === plan.source && c.table === plan.table,
+  );
+  if (!candidate) {
+    throw new Error(
+      `Unknown table ${String(plan.source)} / ${String(plan.table)}`,
+    );
+  }
+
+  const key = plan.key ?? null;
+  if (key !== null && !candidate.columns.includes(key as string)) {
+    throw new Error(`Unknown key column ${JSON.stringify(key)}`);
+  }
+  const keyValues = plan.keyValues ?? [];
+  if (
+    !Array.isArray(keyValues) ||
+    !keyValues.every((v) => typeof v === 'string' || typeof v === 'number')
+  ) {
+    throw new Error('keyValues must be an array of strings');
+  }
+  const columns = plan.columns ?? [];
+  if (!Array.isArray(columns)) throw new Error('columns must be an array');
+  for (const column of columns) {
+    if (!candidate.columns.includes(column as string)) {
+      throw new Error(`Unknown column ${String(column)}`);
+    }
+  }
+
+  return {
+    source: candidate.source,
+    table: candidate.table,
+    key: key as string | null,
+    keyValues: keyValues.map(String),
+    columns: columns as string[],
+  };
+}
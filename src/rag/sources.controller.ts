@@ -0,0 +1,91 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { RequireScopes, WorkspaceId } from '../auth/auth.decorators';
+import { SourcesService } from './sources.service';
+import { SnapshotsService } from './snapshots.service';
+import { parseChunkingOverrides, resolveChunking } from './chunking';
+import { ChunkingDto } from './dto/ingest.dto';
+import { SnapshotDiffQueryDto } from './dto/snapshot.dto';
+
+@Controller('rag/sources')
+export class SourcesController {
+  constructor(
+    private readonly sourcesService: SourcesService,
+    private readonly snapshots: SnapshotsService,
+  ) {}
+
+  @Get()
+  async list(@WorkspaceId() workspaceId: string) {
+    return this.sourcesService.list(workspaceId);
+  }
+
+  @Get(':source')
+  async get(
+    @WorkspaceId() workspaceId: string,
+    @Param('source') source: string,
+  ) {
+    return this.sourcesService.get(workspaceId, source);
+  }
+
+  @Get(':source/chunking')
+  async getChunking(
+    @WorkspaceId() workspaceId: string,
+    @Param('source') source: string,
+  ) {
+    return {
+      source,
+      chunking: await this.sourcesService.getChunking(workspaceId, source),
+    };
+  }
+
+  /** Chunking used by later uploads of this source unless overridden. */
+  @Put(':source/chunking')
+  @RequireScopes('ingest')
+  async setChunking(
+    @WorkspaceId() workspaceId: string,
+    @Param('source') source: string,
+    @Body() body: ChunkingDto,
+  ) {
+    const chunking = parseChunkingOverrides(body);
+    // Reject combinations that could never be used
+    resolveChunking(chunking);
+    return this.sourcesService.setChunking(workspaceId, source, chunking);
+  }
+
+  @Get(':source/snapshots')
+  async listSnapshots(
+    @WorkspaceId() workspaceId: string,
+    @Param('source') source: string,
+  ) {
+    return this.snapshots.list(workspaceId, source);
+  }
+
+  /**
+   * Row diff of one table between the snapshots in effect on `from` and
+   * `to` (default: the latest and the one before it).
+   */
+  @Get(':source/snapshots/diff')
+  async diffSnapshots(
+    @WorkspaceId() workspaceId: string,
+    @Param('source') source: string,
+    @Query() query: SnapshotDiffQueryDto,
+  ) {
+    return this.snapshots.diff(workspaceId, source, query);
+  }
+
+  @Delete(':source')
+  @RequireScopes('ingest')
+  async delete(
+    @WorkspaceId() workspaceId: string,
+    @Param('source') source: string,
+  ) {
+    return this.sourcesService.delete(workspaceId, source);
+  }
+}
@@ -0,0 +1,204 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { PROVENANCE_COLUMNS, ProvenanceRow } from './citations';
+import { ChunkingOptions } from './rag.types';
+import { SnapshotsService } from './snapshots.service';
+
+export interface SourceSummary {
+  source: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  content_hash: string | null;
+  ingested_at: string;
+  chunk_count: number;
+  table_count: number;
+}
+
+@Injectable()
+export class SourcesService {
+  constructor(
+    private readonly db: DatabaseService,
+    private readonly snapshots: SnapshotsService,
+  ) {}
+
+  async list(workspaceId: string): Promise<{ sources: SourceSummary[] }> {
+    const { rows } = await this.db.query<SourceSummary>(
+      `SELECT s.source, s.file_name, s.mime_type, s.size_bytes::int AS size_bytes,
+              s.content_hash, s.ingested_at,
+              (SELECT COUNT(*)::int FROM dashboard_chunks c
+               WHERE c.workspace_id = s.workspace_id AND c.source = s.source) AS chunk_count,
+              (SELECT COUNT(*)::int FROM graph_data g
+               WHERE g.workspace_id = s.workspace_id AND g.source = s.source) AS table_count
+       FROM sources s
+       WHERE s.workspace_id = $1
+       ORDER BY s.ingested_at DESC`,
+      [workspaceId],
+    );
+    return { sources: rows };
+  }
+
+  async get(
+    workspaceId: string,
+    source: string,
+  ): Promise<{
+    source: SourceSummary;
+    chunks: Array<
+      {
+        id: string;
+        title: string;
+        content: string;
+        created_at: string;
+      } & ProvenanceRow
+    >;
+    tables: Array<{
+      id: string;
+      title: string;
+      table_data: Array<Record<string, unknown>>;
+      created_at: string;
+    }>;
+  }> {
+    const { sources } = await this.list(workspaceId);
+    const summary = sources.find((s) => s.source === source);
+    if (!summary) throw new NotFoundException(`Source ${source} not found`);
+
+    const { rows: chunks } = await this.db.query<
+      {
+        id: string;
+        title: string;
+        content: string;
+        created_at: string;
+      } & ProvenanceRow
+    >(
+      `SELECT id, title, content, ${PROVENANCE_COLUMNS}, created_at
+       FROM dashboard_chunks
+       WHERE workspace_id = $1 AND source = $2
+       ORDER BY created_at`,
+      [workspaceId, source],
+    );
+    const { rows: tables } = await this.db.query<{
+      id: string;
+      title: string;
+      table_data: Array<Record<string, unknown>>;
+      created_at: string;
+    }>(
+      `SELECT id, title, table_data, created_at
+       FROM graph_data
+       WHERE workspace_id = $1 AND source = $2
+       ORDER BY created_at`,
+      [workspaceId, source],
+    );
+    return { source: summary, chunks, tables };
+  }
+
+  async delete(
+    workspaceId: string,
+    source: string,
+  ): Promise<{ deleted: boolean }> {
+    const { rows } = await this.db.query(
+      'SELECT 1 FROM sources WHERE workspace_id = $1 AND source = $2',
+      [workspaceId, source],
+    );
+    if (rows.length === 0) {
+      throw new NotFoundException(`Source ${source} not found`);
+    }
+    await this.db.transaction(async () => {
+      await this.db.deleteBySource(workspaceId, source);
+      await this.snapshots.deleteAll(workspaceId, source);
+      await this.db.query(
+        'DELETE FROM source_settings WHERE workspace_id = $1 AND source = $2',
+        [workspaceId, source],
+      );
+      await this.invalidateAnswers(workspaceId);
+    });
+    return { deleted: true };
+  }
+
+  /** Per-source chunking overrides; unset fields use the server defaults. */
+  async getChunking(
+    workspaceId: string,
+    source: string,
+  ): Promise<Partial<ChunkingOptions>> {
+    const { rows } = await this.db.query<{
+      chunking: Partial<ChunkingOptions>;
+    }>(
+      'SELECT chunking FROM source_settings WHERE workspace_id = $1 AND source = $2',
+      [workspaceId, source],
+    );
+    return rows[0]?.chunking ?? {};
+  }
+
+  async setChunking(
+    workspaceId: string,
+    source: string,
+    chunking: Partial<ChunkingOptions>,
+  ): Promise<{ source: string; chunking: Partial<ChunkingOptions> }> {
+    await this.db.query(
+      `INSERT INTO source_settings (workspace_id, source, chunking, updated_at)
+       VALUES ($1, $2, $3, now())
+       ON CONFLICT (workspace_id, source) DO UPDATE
+       SET chunking = EXCLUDED.chunking, updated_at = EXCLUDED.updated_at`,
+      [workspaceId, source, JSON.stringify(chunking)],
+    );
+    return { source, chunking };
+  }
+
+  async getContentHash(
+    workspaceId: string,
+    source: string,
+  ): Promise<string | null> {
+    const { rows } = await this.db.query<{ content_hash: string | null }>(
+      'SELECT content_hash FROM sources WHERE workspace_id = $1 AND source = $2',
+      [workspaceId, source],
+    );
+    return rows[0]?.content_hash ?? null;
+  }
+
+  /**
+   * Serializes concurrent ingests of the same source. Must be called inside
+   * a transaction; the lock is released on commit or rollback.
+   */
+  async lock(workspaceId: string, source: string): Promise<void> {
+    await this.db.query(
+      "SELECT pg_advisory_xact_lock(hashtext($1 || ':' || $2))",
+      [workspaceId, source],
+    );
+  }
+
+  async record(
+    workspaceId: string,
+    source: string,
+    file: { fileName: string; mimeType: string; sizeBytes: number },
+    contentHash: string,
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO sources (workspace_id, source, file_name, mime_type, size_bytes, content_hash, ingested_at)
+       VALUES ($1, $2, $3, $4, $5, $6, now())
+       ON CONFLICT (workspace_id, source) DO UPDATE
+       SET file_name = EXCLUDED.file_name,
+           mime_type = EXCLUDED.mime_type,
+           size_bytes = EXCLUDED.size_bytes,
+           content_hash = EXCLUDED.content_hash,
+           ingested_at = EXCLUDED.ingested_at`,
+      [
+        workspaceId,
+        source,
+        file.fileName,
+        file.mimeType,
+        file.sizeBytes,
+        contentHash,
+      ],
+    );
+    await this.invalidateAnswers(workspaceId);
+  }
+
+  /**
+   * Cached answers may rest on any source (a new one can outrank the chunks
+   * an answer used), so every change drops the workspace's answer cache.
+   */
+  private async invalidateAnswers(workspaceId: string): Promise<void> {
+    await this.db.query('DELETE FROM answer_cache WHERE workspace_id = $1', [
+      workspaceId,
+    ]);
+  }
+}
@@ -0,0 +1,158 @@
+import {
+  executeTablePlan,
+  isTableQuestion,
+  parseNumericCell,
+  validateTablePlan,
+} from './table-query';
+
+describe('table-query', () => {
+  const rows = [
+    {
+      Securities: 'AEUUU',
+      Currency: 'EUR',
+      'Sum of Risk Contribution': '30.80%',
+    },
+    {
+      Securities: 'NUHGZ',
+      Currency: 'USD',
+      'Sum of Risk Contribution': '11.80%',
+    },
+    {
+      Securities: 'CSTNL',
+      Currency: 'EUR',
+      'Sum of Risk Contribution': '10.00%',
+    },
+    {
+      Securities: 'Grand Total',
+      Currency: '',
+      'Sum of Risk Contribution': '99.90%',
+    },
+  ];
+  const tables = new Map([['t1', Object.keys(rows[0])]]);
+
+  it('detects aggregation and ranking questions', () => {
+    expect(
+      isTableQuestion(
+        'which security has the highest Sum of Risk Contribution',
+      ),
+    ).toBe(true);
+    expect(isTableQuestion('what does this dashboard describe')).toBe(false);
+    expect(isTableQuestion('top 5 securities by risk')).toBe(true);
+    expect(isTableQuestion('which funds are above 2%')).toBe(true);
+    // Common wording alone does not pay for a planning call
+    expect(isTableQuestion('what is our exposure per region')).toBe(false);
+    expect(isTableQuestion('what is at the top of the report')).toBe(false);
+  });
+
+  it('parses percentage and currency cells', () => {
+    expect(parseNumericCell('30.80%')).toBe(30.8);
+    expect(parseNumericCell('$1,234.50')).toBe(1234.5);
+    expect(parseNumericCell('(12)')).toBe(-12);
+    expect(parseNumericCell('AEUUU')).toBeNull();
+  });
+
+  it('ranks rows without counting the Grand Total row', () => {
+    const plan = validateTablePlan(
+      {
+        tableId: 't1',
+        filters: [],
+        groupBy: null,
+        aggregate: null,
+        orderBy: { column: 'Sum of Risk Contribution', direction: 'desc' },
+        limit: 1,
+      },
+      tables,
+    );
+    expect(executeTablePlan(rows, plan).rows).toEqual([rows[0]]);
+  });
+
+  it('filters and sums', () => {
+    const plan = validateTablePlan(
+      {
+        tableId: 't1',
+        filters: [{ column: 'Currency', op: 'eq', value: 'eur' }],
+        aggregate: { fn: 'sum', column: 'Sum of Risk Contribution' },
+      },
+      tables,
+    );
+    const result = executeTablePlan(rows, plan);
+    expect(result.columns).toEqual(['sum(Sum of Risk Contribution)']);
+    expect(result.rows[0]['sum(Sum of Risk Contribution)']).toBeCloseTo(40.8);
+  });
+
+  it('groups by a column', () => {
+    const plan = validateTablePlan(
+      {
+        tableId: 't1',
+        groupBy: 'Currency',
+        aggregate: { fn: 'count', column: null },
+        orderBy: { column: 'count(*)', direction: 'desc' },
+      },
+      tables,
+    );
+    expect(executeTablePlan(rows, plan).rows).toEqual([
+      { Currency: 'EUR', 'count(*)': 2 },
+      { Currency: 'USD', 'count(*)': 1 },
+    ]);
+  });
+
+  it('keeps blank, "n/a" and null cells last when sorting descending', () => {
+    const sparse = [
+      {
+        Securities: 'AEUUU',
+        Currency: 'EUR',
+        'Sum of Risk Contribution': '30%',
+      },
+      { Securities: 'NUHGZ', Currency: 'USD', 'Sum of Risk Contribution': '' },
+      {
+        Securities: 'CSTNL',
+        Currency: 'GBP',
+        'Sum of Risk Contribution': 'n/a',
+      },
+      {
+        Securities: 'QWERT',
+        Currency: 'EUR',
+        'Sum of Risk Contribution': '10%',
+      },
+    ];
+    const top = validateTablePlan(
+      {
+        tableId: 't1',
+        orderBy: { column: 'Sum of Risk Contribution', direction: 'desc' },
+        limit: 1,
+      },
+      tables,
+    );
+    expect(executeTablePlan(sparse, top).rows).toEqual([sparse[0]]);
+
+    const bySum = validateTablePlan(
+      {
+        tableId: 't1',
+        groupBy: 'Currency',
+        aggregate: { fn: 'sum', column: 'Sum of Risk Contribution' },
+        orderBy: {
+          column: 'sum(Sum of Risk Contribution)',
+          direction: 'desc',
+        },
+      },
+      tables,
+    );
+    expect(executeTablePlan(sparse, bySum).rows).toEqual([
+      { Currency: 'EUR', 'sum(Sum of Risk Contribution)': 40 },
+      { Currency: 'USD', 'sum(Sum of Risk Contribution)': null },
+      { Currency: 'GBP', 'sum(Sum of Risk Contribution)': null },
+    ]);
+  });
+
+  it('rejects plans that reference unknown columns', () => {
+    expect(() =>
+      validateTablePlan(
+        { tableId: 't1', filters: [{ column: 'Sector', op: 'eq', value: 1 }] },
+        tables,
+      ),
+    ).toThrow('Unknown column "Sector"');
+    expect(() => validateTablePlan({ tableId: 'nope' }, tables)).toThrow(
+      'Unknown table',
+    );
+  });
+});
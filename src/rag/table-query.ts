@@ -0,0 +1,328 @@
+export type TableFilterOp =
+  | 'eq'
+  | 'neq'
+  | 'contains'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte';
+
+export type TableAggregateFn = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+export interface TableFilter {
+  column: string;
+  op: TableFilterOp;
+  value: string | number;
+}
+
+export interface TableQueryPlan {
+  tableId: string;
+  filters: TableFilter[];
+  groupBy: string | null;
+  aggregate: { fn: TableAggregateFn; column: string | null } | null;
+  orderBy: { column: string; direction: 'asc' | 'desc' } | null;
+  limit: number | null;
+}
+
+export interface TableQueryResult {
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+}
+
+export const FILTER_OPS: TableFilterOp[] = [
+  'eq',
+  'neq',
+  'contains',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+];
+export const AGGREGATE_FNS: TableAggregateFn[] = [
+  'sum',
+  'avg',
+  'min',
+  'max',
+  'count',
+];
+const MAX_LIMIT = 100;
+
+// Words that ask for a computation, not ones common in any dashboard
+// question ("top", "per", "exposure"): each match costs a planning call
+const TABLE_QUESTION_PATTERN =
+  /\b(highest|lowest|largest|smallest|biggest|(top|bottom) \d+|max(imum)?|min(imum)?|sum|total|average|avg|mean|count|how many|number of|rank(ed|ing)?|(greater|less|more|fewer) than|(above|below|over|under) [-+$€£]?\d|at (least|most) [-+$€£]?\d|by each|group(ed)? by)\b/i;
+
+const SUMMARY_ROW_PATTERN = /^(grand\s+)?(sub)?total$/i;
+
+/**
+ * Heuristic gate for the structured path: aggregation, filter and ranking
+ * questions are answered from graph_data instead of embedded text chunks.
+ * A match costs an extra model call to plan the table query.
+ */
+export function isTableQuestion(question: string): boolean {
+  return TABLE_QUESTION_PATTERN.test(question);
+}
+
+/**
+ * Parses dashboard cell values such as "30.80%", "$1,234.50" or "(12.5)"
+ * into numbers. Percentages keep their displayed scale (30.80% -> 30.8).
+ */
+export function parseNumericCell(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  let text = value.trim();
+  if (!text) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  text = text.replace(/[%$€£,\s]/g, '');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) return null;
+  const parsed = Number(text);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+}
+
+/** Rows such as "Grand Total" would otherwise win every max/sum. */
+export function isSummaryRow(row: Record<string, unknown>): boolean {
+  return Object.values(row).some(
+    (v) => typeof v === 'string' && SUMMARY_ROW_PATTERN.test(v.trim()),
+  );
+}
+
+export function tableColumns(rows: Array<Record<string, unknown>>): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return Array.from(columns);
+}
+
+export function aggregateColumnName(
+  fn: TableAggregateFn,
+  column: string | null,
+): string {
+  return `${fn}(${column ?? '*'})`;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * Checks a model-produced plan against the real table columns and returns a
+ * normalized copy, or throws with a message describing the first problem.
+ */
+export function validateTablePlan(
+  raw: unknown,
+  tables: Map<string, string[]>,
+): TableQueryPlan {
+  const plan = asRecord(raw);
+  if (!plan) throw new Error('Plan is not an object');
+
+  const tableId = typeof plan.tableId === 'string' ? plan.tableId : '';
+  const columns = tables.get(tableId);
+  if (!columns) throw new Error(`Unknown table "${tableId}"`);
+  const assertColumn = (column: unknown): string => {
+    if (typeof column !== 'string' || !columns.includes(column)) {
+      throw new Error(`Unknown column "${String(column)}"`);
+    }
+    return column;
+  };
+
+  const rawFilters: unknown[] = Array.isArray(plan.filters) ? plan.filters : [];
+  const filters: TableFilter[] = rawFilters.map((raw) => {
+    const f = asRecord(raw) ?? {};
+    const op = f.op as TableFilterOp;
+    if (!FILTER_OPS.includes(op)) {
+      throw new Error(`Unknown operator "${String(f.op)}"`);
+    }
+    if (typeof f.value !== 'string' && typeof f.value !== 'number') {
+      throw new Error('Filter value must be a string or number');
+    }
+    return { column: assertColumn(f.column), op, value: f.value };
+  });
+
+  const groupBy =
+    plan.groupBy === null || plan.groupBy === undefined
+      ? null
+      : assertColumn(plan.groupBy);
+
+  let aggregate: TableQueryPlan['aggregate'] = null;
+  const rawAggregate = asRecord(plan.aggregate);
+  if (rawAggregate) {
+    const fn = rawAggregate.fn as TableAggregateFn;
+    if (!AGGREGATE_FNS.includes(fn)) {
+      throw new Error(`Unknown aggregate "${fn}"`);
+    }
+    const column =
+      rawAggregate.column === null || rawAggregate.column === undefined
+        ? null
+        : assertColumn(rawAggregate.column);
+    if (column === null && fn !== 'count') {
+      throw new Error(`Aggregate "${fn}" needs a column`);
+    }
+    aggregate = { fn, column };
+  }
+  if (groupBy && !aggregate) aggregate = { fn: 'count', column: null };
+
+  let orderBy: TableQueryPlan['orderBy'] = null;
+  const rawOrderBy = asRecord(plan.orderBy);
+  if (rawOrderBy) {
+    const outputColumns = aggregate
+      ? [
+          ...(groupBy ? [groupBy] : []),
+          aggregateColumnName(aggregate.fn, aggregate.column),
+        ]
+      : columns;
+    const column = rawOrderBy.column;
+    if (typeof column !== 'string' || !outputColumns.includes(column)) {
+      throw new Error(`Cannot order by "${String(column)}"`);
+    }
+    orderBy = {
+      column,
+      direction: rawOrderBy.direction === 'asc' ? 'asc' : 'desc',
+    };
+  }
+
+  let limit: number | null = null;
+  if (plan.limit !== null && plan.limit !== undefined) {
+    const n = Math.floor(Number(plan.limit));
+    if (!Number.isFinite(n) || n < 1) throw new Error('Invalid limit');
+    limit = Math.min(n, MAX_LIMIT);
+  }
+
+  return { tableId, filters, groupBy, aggregate, orderBy, limit };
+}
+
+/** A cell as displayed text; non-string values are JSON-encoded. */
+export function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function matchesFilter(row: Record<string, unknown>, f: TableFilter): boolean {
+  const cell = row[f.column];
+  if (f.op === 'contains') {
+    return cellText(cell).toLowerCase().includes(String(f.value).toLowerCase());
+  }
+  if (f.op === 'eq' || f.op === 'neq') {
+    const a = parseNumericCell(cell);
+    const b = parseNumericCell(f.value);
+    const equal =
+      a !== null && b !== null
+        ? a === b
+        : cellText(cell).trim().toLowerCase() ===
+          String(f.value).trim().toLowerCase();
+    return f.op === 'eq' ? equal : !equal;
+  }
+  const a = parseNumericCell(cell);
+  const b = parseNumericCell(f.value);
+  if (a === null || b === null) return false;
+  switch (f.op) {
+    case 'gt':
+      return a > b;
+    case 'gte':
+      return a >= b;
+    case 'lt':
+      return a < b;
+    case 'lte':
+      return a <= b;
+  }
+}
+
+export function aggregateValues(
+  fn: TableAggregateFn,
+  rows: Array<Record<string, unknown>>,
+  column: string | null,
+): number | null {
+  if (fn === 'count') return rows.length;
+  const values = rows
+    .map((r) => parseNumericCell(r[column as string]))
+    .filter((v): v is number => v !== null);
+  if (values.length === 0) return null;
+  switch (fn) {
+    case 'sum':
+      return values.reduce((acc, v) => acc + v, 0);
+    case 'avg':
+      return values.reduce((acc, v) => acc + v, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+  }
+}
+
+/** Numbers first, then text, then blank cells. */
+function cellRank(value: unknown, numeric: number | null): number {
+  if (numeric !== null) return 0;
+  return cellText(value).trim() === '' ? 2 : 1;
+}
+
+/**
+ * Orders cells in `direction`; blank and non-numeric cells (such as "n/a"
+ * or a null aggregate) stay last in either direction.
+ */
+function compareCells(
+  a: unknown,
+  b: unknown,
+  direction: 'asc' | 'desc',
+): number {
+  const na = parseNumericCell(a);
+  const nb = parseNumericCell(b);
+  const rank = cellRank(a, na) - cellRank(b, nb);
+  if (rank !== 0) return rank;
+  const sign = direction === 'asc' ? 1 : -1;
+  if (na !== null && nb !== null) return sign * (na - nb);
+  return sign * cellText(a).localeCompare(cellText(b));
+}
+
+/**
+ * Executes a validated plan against the stored table rows. Everything here is
+ * deterministic so numeric answers never depend on the model's arithmetic.
+ */
+export function executeTablePlan(
+  tableRows: Array<Record<string, unknown>>,
+  plan: TableQueryPlan,
+): TableQueryResult {
+  let rows = tableRows
+    .filter((r) => !isSummaryRow(r))
+    .filter((r) => plan.filters.every((f) => matchesFilter(r, f)));
+
+  let columns = tableColumns(tableRows);
+  if (plan.aggregate) {
+    const { fn, column } = plan.aggregate;
+    const outputColumn = aggregateColumnName(fn, column);
+    if (plan.groupBy) {
+      const groupBy = plan.groupBy;
+      const groups = new Map<string, Array<Record<string, unknown>>>();
+      for (const row of rows) {
+        const key = cellText(row[groupBy]);
+        const group = groups.get(key) ?? [];
+        group.push(row);
+        groups.set(key, group);
+      }
+      rows = Array.from(groups.entries()).map(([key, group]) => ({
+        [groupBy]: key,
+        [outputColumn]: aggregateValues(fn, group, column),
+      }));
+      columns = [groupBy, outputColumn];
+    } else {
+      rows = [{ [outputColumn]: aggregateValues(fn, rows, column) }];
+      columns = [outputColumn];
+    }
+  }
+
+  if (plan.orderBy) {
+    const { column, direction } = plan.orderBy;
+    rows = [...rows].sort((a, b) =>
+      compareCells(a[column], b[column], direction),
+    );
+  }
+  if (plan.limit !== null) rows = rows.slice(0, plan.limit);
+
+  return { columns, rows };
+}
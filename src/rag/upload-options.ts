@@ -0,0 +1,34 @@
+import { UnsupportedMediaTypeException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModuleOptions } from '@nestjs/platform-express';
+import * as multer from 'multer';
+import { isAcceptedUpload } from './ingest-parser';
+
+const DEFAULT_MAX_UPLOAD_MB = 50;
+
+/**
+ * Uploads are kept in memory (ingest jobs store them in the database), so
+ * their size is capped; oversized files fail with 413 and unknown binary
+ * types with 415 before the body is buffered.
+ */
+export function uploadOptions(config: ConfigService): MulterModuleOptions {
+  const maxMb = Number(
+    config.get<string>('MAX_UPLOAD_MB') ?? DEFAULT_MAX_UPLOAD_MB,
+  );
+  return {
+    storage: multer.memoryStorage(),
+    limits: { fileSize: Math.round(maxMb * 1024 * 1024), files: 1 },
+    fileFilter: (_req, file, callback) => {
+      if (isAcceptedUpload(file.originalname, file.mimetype)) {
+        callback(null, true);
+        return;
+      }
+      callback(
+        new UnsupportedMediaTypeException(
+          `Unsupported file type "${file.mimetype}" for ${file.originalname}`,
+        ),
+        false,
+      );
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { Body, Controller, Get, Post, Query } from '@nestjs/common';
+import {
+  ProvisioningOnly,
+  RequireScopes,
+  WorkspaceId,
+} from '../auth/auth.decorators';
+import {
+  RebuildVectorIndexDto,
+  VectorIndexReportQueryDto,
+} from './dto/vector-index.dto';
+import { VectorIndexService } from './vector-index.service';
+
+/**
+ * The vector index is shared by all workspaces: recall is measured with
+ * the caller's chunks, and rebuilding takes the provisioning key.
+ */
+@Controller('rag/index')
+@RequireScopes('admin')
+export class VectorIndexController {
+  constructor(private readonly vectorIndex: VectorIndexService) {}
+
+  @Get()
+  async report(
+    @WorkspaceId() workspaceId: string,
+    @Query() query: VectorIndexReportQueryDto,
+  ) {
+    return this.vectorIndex.report(workspaceId, {
+      sample: query.sample ?? 20,
+      k: query.k ?? 10,
+    });
+  }
+
+  /** Rebuilds synchronously; ingest commits of every workspace wait for it. */
+  @Post('rebuild')
+  @ProvisioningOnly()
+  async rebuild(@Body() body: RebuildVectorIndexDto) {
+    await this.vectorIndex.rebuild(body);
+    return this.vectorIndex.status();
+  }
+}
@@ -0,0 +1,345 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DatabaseService } from '../database/database.service';
+import { EMBEDDING_PROVIDER, EmbeddingProvider } from '../llm/llm.types';
+import {
+  MAX_INDEXED_DIMENSIONS,
+  recallAtK,
+  resolveIndexSpec,
+  searchSettings,
+  shouldRebuild,
+  VECTOR_INDEX_METHODS,
+  VectorIndexMethod,
+  VectorIndexReport,
+  VectorIndexSpec,
+  vectorIndexDdl,
+  vectorIndexName,
+  VectorSearchTuning,
+} from './vector-index';
+
+type BuildState = {
+  method: VectorIndexMethod;
+  params: Omit<VectorIndexSpec, 'method'>;
+  rows_at_build: number;
+  build_ms: number;
+  built_at: string;
+};
+
+/**
+ * Owns the vector index of the active embedding dimension: builds it at
+ * boot (HNSW straight away; IVFFlat once there are rows to train on),
+ * rebuilds it on request or once ingests have grown the table well past
+ * it, applies the configured ef_search / probes to searches and measures
+ * its recall against exact scans.
+ */
+@Injectable()
+export class VectorIndexService implements OnModuleInit {
+  private readonly logger = new Logger(VectorIndexService.name);
+  private readonly defaultMethod: VectorIndexMethod;
+  private readonly tuning: VectorSearchTuning;
+  private readonly rebuildMinRows: number;
+  private readonly rebuildGrowth: number;
+
+  constructor(
+    private readonly db: DatabaseService,
+    @Inject(EMBEDDING_PROVIDER) private readonly embedder: EmbeddingProvider,
+    config: ConfigService,
+  ) {
+    const method = config.get<string>('VECTOR_INDEX_METHOD') ?? 'hnsw';
+    if (!(VECTOR_INDEX_METHODS as readonly string[]).includes(method)) {
+      throw new Error(`Unknown VECTOR_INDEX_METHOD "${method}"`);
+    }
+    this.defaultMethod = method as VectorIndexMethod;
+    this.tuning = {
+      efSearch: Number(config.get<string>('VECTOR_SEARCH_EF_SEARCH') ?? 40),
+      probes: Number(config.get<string>('VECTOR_SEARCH_PROBES') ?? 10),
+    };
+    this.rebuildMinRows = Number(
+      config.get<string>('VECTOR_INDEX_REBUILD_MIN_ROWS') ?? 10000,
+    );
+    this.rebuildGrowth = Number(
+      config.get<string>('VECTOR_INDEX_REBUILD_GROWTH') ?? 0.5,
+    );
+  }
+
+  async onModuleInit(): Promise<void> {
+    const dim = this.embedder.dimensions;
+    if (!this.indexable() || (await this.indexInfo(dim))) return;
+    if (
+      this.defaultMethod === 'ivfflat' &&
+      !shouldRebuild(null, await this.countRows(dim), this.rebuildOptions())
+    ) {
+      // Centroids trained on an empty table are useless; afterIngest builds it
+      return;
+    }
+    // Another instance booting at the same time may be building it already
+    await this.build({ method: this.defaultMethod });
+  }
+
+  /**
+   * Runs `fn` in a transaction with ef_search and probes set for a search
+   * returning `limit` rows. Only the setting of the index in use matters;
+   * both are set so switching methods needs no code change.
+   */
+  async withSearchSettings<T>(limit: number, fn: () => Promise<T>): Promise<T> {
+    return this.db.transaction(async () => {
+      const settings = searchSettings(this.tuning, limit);
+      await this.db.query(
+        `SELECT set_config('hnsw.ef_search', $1, true),
+                set_config('ivfflat.probes', $2, true)`,
+        [settings['hnsw.ef_search'], settings['ivfflat.probes']],
+      );
+      return fn();
+    });
+  }
+
+  /**
+   * Replaces the index with one built from `spec`. Searches keep using the
+   * old index during the build; writes to dashboard_chunks wait for it.
+   */
+  async rebuild(spec: VectorIndexSpec): Promise<void> {
+    if (!this.indexable()) {
+      throw new BadRequestException(
+        `${this.embedder.model} embeddings have ${this.embedder.dimensions} dimensions; ` +
+          `pgvector indexes support at most ${MAX_INDEXED_DIMENSIONS}`,
+      );
+    }
+    if (
+      spec.m !== undefined &&
+      spec.efConstruction !== undefined &&
+      spec.efConstruction < 2 * spec.m
+    ) {
+      throw new BadRequestException('efConstruction must be at least 2 * m');
+    }
+    if (!(await this.build(spec))) {
+      throw new ConflictException('The vector index is already being rebuilt');
+    }
+  }
+
+  /**
+   * Rebuilds the index once the table has grown enough since it was built
+   * (VECTOR_INDEX_REBUILD_MIN_ROWS new rows and VECTOR_INDEX_REBUILD_GROWTH
+   * relative growth). HNSW keeps its parameters; IVFFlat gets lists sized
+   * for the new row count.
+   */
+  async afterIngest(): Promise<void> {
+    if (!this.indexable()) return;
+    const dim = this.embedder.dimensions;
+    const state = await this.buildState(dim);
+    const builtFor = state?.rows_at_build ?? null;
+    const rows = await this.countRows(dim);
+    if (!shouldRebuild(builtFor, rows, this.rebuildOptions())) return;
+
+    const method = state?.method ?? this.defaultMethod;
+    this.logger.log(
+      `Rebuilding ${method} index for ${rows} rows (built for ${builtFor ?? 0})`,
+    );
+    await this.build(
+      method === 'hnsw' ? { ...state?.params, method } : { method },
+    );
+  }
+
+  /**
+   * The index of the active dimension and, when `sample` > 0, its recall
+   * at `k`: the share of an exact scan's top k the index search also
+   * returns, over `sample` of the workspace's chunks used as queries.
+   */
+  async report(
+    workspaceId: string,
+    { sample, k }: { sample: number; k: number },
+  ): Promise<VectorIndexReport> {
+    const report = await this.status();
+    return {
+      ...report,
+      recall:
+        report.index && sample > 0
+          ? await this.measureRecall(workspaceId, sample, k)
+          : null,
+    };
+  }
+
+  /** The index and its build, without measuring recall. */
+  async status(): Promise<VectorIndexReport> {
+    const dim = this.embedder.dimensions;
+    const [info, state, rows] = await Promise.all([
+      this.indexInfo(dim),
+      this.buildState(dim),
+      this.countRows(dim),
+    ]);
+    return {
+      model: this.embedder.model,
+      dimensions: dim,
+      rows,
+      index: info && {
+        name: info.name,
+        method: info.method,
+        params: Object.fromEntries(
+          (info.options ?? []).map((o) => o.split('=', 2) as [string, string]),
+        ),
+        sizeBytes: Number(info.size_bytes),
+        valid: info.valid,
+        builtAt: state?.built_at ?? null,
+        rowsAtBuild: state?.rows_at_build ?? null,
+        buildMs: state?.build_ms ?? null,
+      },
+      tuning: this.tuning,
+      recall: null,
+    };
+  }
+
+  /** Builds and swaps in the index; false if another build holds the lock. */
+  private async build(spec: VectorIndexSpec): Promise<boolean> {
+    const dim = this.embedder.dimensions;
+    const name = vectorIndexName(dim);
+    return this.db.transaction(async () => {
+      const { rows: lock } = await this.db.query<{ locked: boolean }>(
+        'SELECT pg_try_advisory_xact_lock(hashtext($1)) AS locked',
+        [name],
+      );
+      if (!lock[0].locked) return false;
+
+      const rows = await this.countRows(dim);
+      const { method, ...params } = resolveIndexSpec(spec, rows);
+      const start = performance.now();
+      // Built under a temporary name so searches use the old index meanwhile
+      await this.db.query(`DROP INDEX IF EXISTS ${name}_next`);
+      await this.db.query(
+        vectorIndexDdl(`${name}_next`, dim, { method, ...params }),
+      );
+      await this.db.query(`DROP INDEX IF EXISTS ${name}`);
+      await this.db.query(`ALTER INDEX ${name}_next RENAME TO ${name}`);
+      const buildMs = Math.round(performance.now() - start);
+
+      await this.db.query(
+        `INSERT INTO vector_indexes (dimensions, method, params, rows_at_build, build_ms)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (dimensions) DO UPDATE
+         SET method = EXCLUDED.method, params = EXCLUDED.params,
+             rows_at_build = EXCLUDED.rows_at_build, build_ms = EXCLUDED.build_ms,
+             built_at = now()`,
+        [dim, method, JSON.stringify(params), rows, buildMs],
+      );
+      this.logger.log(
+        `Built ${method} index ${name} on ${rows} rows in ${buildMs}ms`,
+      );
+      return true;
+    });
+  }
+
+  private async measureRecall(
+    workspaceId: string,
+    sample: number,
+    k: number,
+  ): Promise<NonNullable<VectorIndexReport['recall']>> {
+    const { rows: queries } = await this.db.query<{ embedding: string }>(
+      `SELECT embedding::text AS embedding FROM dashboard_chunks
+       WHERE workspace_id = $1 AND embedding_model = $2 AND embedding_dim = $3
+       ORDER BY random()
+       LIMIT $4`,
+      [workspaceId, this.embedder.model, this.embedder.dimensions, sample],
+    );
+
+    const approximate: string[][] = [];
+    const exact: string[][] = [];
+    const latency = { approximate: 0, exact: 0 };
+    for (const { embedding } of queries) {
+      let start = performance.now();
+      approximate.push(
+        await this.withSearchSettings(k, () =>
+          this.nearest(workspaceId, embedding, k),
+        ),
+      );
+      latency.approximate += performance.now() - start;
+
+      start = performance.now();
+      exact.push(
+        await this.db.transaction(async () => {
+          await this.db.query(
+            "SELECT set_config('enable_indexscan', 'off', true)",
+          );
+          return this.nearest(workspaceId, embedding, k);
+        }),
+      );
+      latency.exact += performance.now() - start;
+    }
+
+    const n = Math.max(queries.length, 1);
+    return {
+      k,
+      samples: queries.length,
+      recall: Math.round(recallAtK(approximate, exact) * 1000) / 1000,
+      latencyMs: {
+        approximate: Math.round(latency.approximate / n),
+        exact: Math.round(latency.exact / n),
+      },
+    };
+  }
+
+  /** Same query shape as RetrieverService's vector search. */
+  private async nearest(
+    workspaceId: string,
+    embedding: string,
+    k: number,
+  ): Promise<string[]> {
+    const dim = this.embedder.dimensions;
+    const { rows } = await this.db.query<{ id: string }>(
+      `SELECT id FROM dashboard_chunks
+       WHERE workspace_id = $2 AND embedding_model = $3 AND embedding_dim = ${dim}
+       ORDER BY embedding::vector(${dim}) <=> $1::vector(${dim})
+       LIMIT $4`,
+      [embedding, workspaceId, this.embedder.model, k],
+    );
+    return rows.map((r) => r.id);
+  }
+
+  private indexable(): boolean {
+    return this.embedder.dimensions <= MAX_INDEXED_DIMENSIONS;
+  }
+
+  private rebuildOptions(): { minRows: number; growth: number } {
+    return { minRows: this.rebuildMinRows, growth: this.rebuildGrowth };
+  }
+
+  private async countRows(dimensions: number): Promise<number> {
+    const { rows } = await this.db.query<{ count: number }>(
+      'SELECT COUNT(*)::int AS count FROM dashboard_chunks WHERE embedding_dim = $1',
+      [dimensions],
+    );
+    return rows[0].count;
+  }
+
+  private async buildState(dimensions: number): Promise<BuildState | null> {
+    const { rows } = await this.db.query<BuildState>(
+      `SELECT method, params, rows_at_build, build_ms, built_at
+       FROM vector_indexes WHERE dimensions = $1`,
+      [dimensions],
+    );
+    return rows[0] ?? null;
+  }
+
+  private async indexInfo(dimensions: number) {
+    const { rows } = await this.db.query<{
+      name: string;
+      method: string;
+      options: string[] | null;
+      size_bytes: string;
+      valid: boolean;
+    }>(
+      `SELECT i.relname AS name, am.amname AS method, i.reloptions AS options,
+              pg_relation_size(i.oid)::text AS size_bytes, x.indisvalid AS valid
+       FROM pg_class i
+       JOIN pg_index x ON x.indexrelid = i.oid
+       JOIN pg_am am ON am.oid = i.relam
+       WHERE i.relname = $1`,
+      [vectorIndexName(dimensions)],
+    );
+    return rows[0] ?? null;
+  }
+}
@@ -0,0 +1,77 @@
+import {
+  recallAtK,
+  resolveIndexSpec,
+  searchSettings,
+  shouldRebuild,
+  vectorIndexDdl,
+} from './vector-index';
+
+describe('vector index', () => {
+  it('fills in pgvector defaults', () => {
+    expect(resolveIndexSpec({ method: 'hnsw' }, 0)).toEqual({
+      method: 'hnsw',
+      m: 16,
+      efConstruction: 64,
+    });
+    expect(resolveIndexSpec({ method: 'hnsw', m: 32 }, 0).m).toBe(32);
+    expect(resolveIndexSpec({ method: 'ivfflat' }, 0).lists).toBe(1);
+    expect(resolveIndexSpec({ method: 'ivfflat' }, 250_000).lists).toBe(250);
+    expect(resolveIndexSpec({ method: 'ivfflat' }, 4_000_000).lists).toBe(2000);
+    expect(resolveIndexSpec({ method: 'ivfflat', lists: 7 }, 250_000)).toEqual({
+      method: 'ivfflat',
+      lists: 7,
+    });
+  });
+
+  it('builds a partial expression index per dimension', () => {
+    expect(
+      vectorIndexDdl('idx', 1536, {
+        method: 'hnsw',
+        m: 16,
+        efConstruction: 64,
+      }),
+    ).toBe(
+      'CREATE INDEX idx ON dashboard_chunks USING hnsw ' +
+        '((embedding::vector(1536)) vector_cosine_ops) ' +
+        'WITH (m = 16, ef_construction = 64) WHERE embedding_dim = 1536',
+    );
+    expect(vectorIndexDdl('idx', 8, { method: 'ivfflat', lists: 3 })).toContain(
+      'USING ivfflat ((embedding::vector(8)) vector_cosine_ops) WITH (lists = 3)',
+    );
+  });
+
+  it('never lets ef_search cut a search short', () => {
+    expect(searchSettings({ efSearch: 40, probes: 10 }, 20)).toEqual({
+      'hnsw.ef_search': '40',
+      'ivfflat.probes': '10',
+    });
+    expect(searchSettings({ efSearch: 40, probes: 10 }, 200)).toMatchObject({
+      'hnsw.ef_search': '200',
+    });
+  });
+
+  it('rebuilds once the table has grown enough', () => {
+    const options = { minRows: 1000, growth: 0.5 };
+    expect(shouldRebuild(null, 999, options)).toBe(false);
+    expect(shouldRebuild(null, 1000, options)).toBe(true);
+    expect(shouldRebuild(10_000, 14_000, options)).toBe(false);
+    expect(shouldRebuild(10_000, 15_000, options)).toBe(true);
+    expect(shouldRebuild(100, 600, options)).toBe(false);
+  });
+
+  it('averages the share of the exact top k found', () => {
+    expect(
+      recallAtK(
+        [
+          ['a', 'b', 'x'],
+          ['c', 'd', 'e'],
+        ],
+        [
+          ['a', 'b', 'c'],
+          ['c', 'd', 'e'],
+        ],
+      ),
+    ).toBeCloseTo(5 / 6);
+    expect(recallAtK([], [])).toBe(1);
+  });
+});
@@ -0,0 +1,139 @@
+export const VECTOR_INDEX_METHODS = ['hnsw', 'ivfflat'] as const;
+export type VectorIndexMethod = (typeof VECTOR_INDEX_METHODS)[number];
+
+/** Build parameters; unset ones are filled in by resolveIndexSpec. */
+export interface VectorIndexSpec {
+  method: VectorIndexMethod;
+  /** HNSW: links per node. */
+  m?: number;
+  /** HNSW: candidate list size while building. */
+  efConstruction?: number;
+  /** IVFFlat: number of clusters. */
+  lists?: number;
+}
+
+/** Query-time settings applied to every vector search. */
+export interface VectorSearchTuning {
+  efSearch: number;
+  probes: number;
+}
+
+export interface VectorIndexReport {
+  model: string;
+  dimensions: number;
+  /** Chunks of this dimension in all workspaces; one index covers them all. */
+  rows: number;
+  index: {
+    name: string;
+    method: string;
+    params: Record<string, string>;
+    sizeBytes: number;
+    /** False while a build is in progress or after one failed. */
+    valid: boolean;
+    builtAt: string | null;
+    rowsAtBuild: number | null;
+    buildMs: number | null;
+  } | null;
+  tuning: VectorSearchTuning;
+  /** Index search measured against an exact scan; null when not sampled. */
+  recall: {
+    k: number;
+    /** Queries taken from the caller's workspace's own chunks. */
+    samples: number;
+    recall: number;
+    latencyMs: { approximate: number; exact: number };
+  } | null;
+}
+
+// ivfflat and hnsw both top out at 2000 dimensions
+export const MAX_INDEXED_DIMENSIONS = 2000;
+
+/**
+ * Each dimension in use gets a partial expression index. Searches must use
+ * the same `embedding::vector(dim)` expression and `embedding_dim` predicate.
+ */
+export function vectorIndexName(dimensions: number): string {
+  return `dashboard_chunks_embedding_${dimensions}_idx`;
+}
+
+/**
+ * Fills in pgvector's recommended defaults: m 16 and ef_construction 64
+ * for HNSW; rows / 1000 lists for IVFFlat up to a million rows and
+ * sqrt(rows) beyond that.
+ */
+export function resolveIndexSpec(
+  spec: VectorIndexSpec,
+  rows: number,
+): VectorIndexSpec {
+  if (spec.method === 'hnsw') {
+    return {
+      method: 'hnsw',
+      m: spec.m ?? 16,
+      efConstruction: spec.efConstruction ?? 64,
+    };
+  }
+  const lists =
+    spec.lists ??
+    (rows <= 1_000_000 ? Math.ceil(rows / 1000) : Math.ceil(Math.sqrt(rows)));
+  return { method: 'ivfflat', lists: Math.max(1, lists) };
+}
+
+/** The CREATE INDEX statement for a resolved spec. */
+export function vectorIndexDdl(
+  name: string,
+  dimensions: number,
+  spec: VectorIndexSpec,
+): string {
+  const params =
+    spec.method === 'hnsw'
+      ? `m = ${spec.m}, ef_construction = ${spec.efConstruction}`
+      : `lists = ${spec.lists}`;
+  return (
+    `CREATE INDEX ${name} ON dashboard_chunks ` +
+    `USING ${spec.method} ((embedding::vector(${dimensions})) vector_cosine_ops) ` +
+    `WITH (${params}) WHERE embedding_dim = ${dimensions}`
+  );
+}
+
+/**
+ * HNSW's ef_search must be at least the number of rows asked for, or the
+ * index returns fewer.
+ */
+export function searchSettings(
+  tuning: VectorSearchTuning,
+  limit: number,
+): Record<'hnsw.ef_search' | 'ivfflat.probes', string> {
+  return {
+    'hnsw.ef_search': String(Math.min(1000, Math.max(tuning.efSearch, limit))),
+    'ivfflat.probes': String(tuning.probes),
+  };
+}
+
+/**
+ * A rebuild pays off once the table has grown well past the rows the index
+ * was built from: IVFFlat centroids stop describing the data, and HNSW
+ * graphs built incrementally from a small start are worse than a fresh
+ * build. `rowsAtBuild` is null when nothing recorded a build.
+ */
+export function shouldRebuild(
+  rowsAtBuild: number | null,
+  rows: number,
+  options: { minRows: number; growth: number },
+): boolean {
+  const base = rowsAtBuild ?? 0;
+  return rows - base >= options.minRows && rows >= base * (1 + options.growth);
+}
+
+/**
+ * Mean share of the exact top-k that the approximate search also found,
+ * one pair of id lists per sampled query.
+ */
+export function recallAtK(approximate: string[][], exact: string[][]): number {
+  if (exact.length === 0) return 1;
+  const total = exact.reduce((sum, ids, i) => {
+    if (ids.length === 0) return sum + 1;
+    const found = new Set(approximate[i] ?? []);
+    return sum + ids.filter((id) => found.has(id)).length / ids.length;
+  }, 0);
+  return total / exact.length;
+}
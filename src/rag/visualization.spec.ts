@@ -0,0 +1,61 @@
+import { inferSchema } from './chart-data';
+import { isChartQuestion, validateVisualization } from './visualization';
+
+describe('visualization', () => {
+  const tables = new Map([
+    [
+      't1',
+      inferSchema([
+        { Securities: 'AEUUU', Currency: 'EUR', 'Risk Contribution': '30.80%' },
+        { Securities: 'NUHGZ', Currency: 'USD', 'Risk Contribution': '11.80%' },
+      ]),
+    ],
+  ]);
+
+  it('detects chart requests', () => {
+    expect(isChartQuestion('show risk contribution by security')).toBe(true);
+    expect(isChartQuestion('what is AEUUU')).toBe(false);
+  });
+
+  it('normalizes a valid suggestion', () => {
+    expect(
+      validateVisualization(
+        {
+          chartType: 'bar',
+          tableId: 't1',
+          title: 'Risk by security',
+          x: 'Securities',
+          y: 'Risk Contribution',
+          filters: [{ column: 'Currency', op: 'eq', value: 'EUR' }],
+          sort: { column: 'Risk Contribution' },
+        },
+        tables,
+      ),
+    ).toEqual({
+      chartType: 'bar',
+      tableId: 't1',
+      title: 'Risk by security',
+      x: 'Securities',
+      y: ['Risk Contribution'],
+      aggregate: null,
+      filters: [{ column: 'Currency', op: 'eq', value: 'EUR' }],
+      sort: { column: 'Risk Contribution', direction: 'desc' },
+    });
+  });
+
+  it('rejects columns that do not exist or are not numeric', () => {
+    const base = { chartType: 'bar', tableId: 't1', x: 'Securities' };
+    expect(() =>
+      validateVisualization({ ...base, y: ['Sector Weight'] }, tables),
+    ).toThrow('Unknown column "Sector Weight"');
+    expect(() =>
+      validateVisualization({ ...base, y: ['Currency'] }, tables),
+    ).toThrow('is not numeric');
+    expect(() =>
+      validateVisualization(
+        { ...base, chartType: 'radar', y: ['Risk Contribution'] },
+        tables,
+      ),
+    ).toThrow('Unknown chart type');
+  });
+});
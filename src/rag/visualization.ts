@@ -0,0 +1,131 @@
+import { ChartFilter, ColumnSchema, MEASURE_TYPES } from './chart-data';
+import {
+  AGGREGATE_FNS,
+  FILTER_OPS,
+  TableAggregateFn,
+  TableFilterOp,
+} from './table-query';
+
+export const CHART_TYPES = ['bar', 'line', 'pie', 'table'] as const;
+export type ChartType = (typeof CHART_TYPES)[number];
+
+/**
+ * A chart over one graph_data table. The fields map onto the chart data
+ * API: x is the dimension, y the measures.
+ */
+export interface Visualization {
+  chartType: ChartType;
+  tableId: string;
+  title: string;
+  x: string;
+  y: string[];
+  aggregate: TableAggregateFn | null;
+  filters: ChartFilter[];
+  sort: { column: string; direction: 'asc' | 'desc' } | null;
+}
+
+const CHART_QUESTION_PATTERN =
+  /\b(show|chart|plot|graph|visuali[sz]e|draw|trend|over time|breakdown|distribution|compare|split|by)\b/i;
+
+/** Heuristic gate used when the caller does not ask for a chart explicitly. */
+export function isChartQuestion(question: string): boolean {
+  return CHART_QUESTION_PATTERN.test(question);
+}
+
+/**
+ * Checks a model-suggested chart against the inferred table schemas and
+ * returns a normalized copy, or throws with a message describing the first
+ * problem.
+ */
+export function validateVisualization(
+  raw: unknown,
+  tables: Map<string, ColumnSchema[]>,
+): Visualization {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Visualization is not an object');
+  }
+  const spec = raw as Record<string, unknown>;
+
+  const chartType = spec.chartType as ChartType;
+  if (!CHART_TYPES.includes(chartType)) {
+    throw new Error(`Unknown chart type "${String(spec.chartType)}"`);
+  }
+  const tableId = typeof spec.tableId === 'string' ? spec.tableId : '';
+  const schema = tables.get(tableId);
+  if (!schema) throw new Error(`Unknown table "${tableId}"`);
+  const assertColumn = (column: unknown): ColumnSchema => {
+    const found = schema.find((c) => c.name === column);
+    if (!found) throw new Error(`Unknown column "${String(column)}"`);
+    return found;
+  };
+
+  const x = assertColumn(spec.x).name;
+
+  let aggregate: TableAggregateFn | null = null;
+  if (spec.aggregate !== null && spec.aggregate !== undefined) {
+    aggregate = spec.aggregate as TableAggregateFn;
+    if (!AGGREGATE_FNS.includes(aggregate)) {
+      throw new Error(`Unknown aggregate "${aggregate}"`);
+    }
+  }
+
+  const rawY = Array.isArray(spec.y) ? (spec.y as unknown[]) : [spec.y];
+  const y =
+    aggregate === 'count'
+      ? []
+      : rawY.map((column) => {
+          const found = assertColumn(column);
+          if (chartType !== 'table' && !MEASURE_TYPES.includes(found.type)) {
+            throw new Error(`Column "${found.name}" is not numeric`);
+          }
+          return found.name;
+        });
+  if (aggregate !== 'count' && y.length === 0) {
+    throw new Error('At least one y column is required');
+  }
+  if (chartType === 'pie' && y.length > 1) {
+    throw new Error('A pie chart takes a single y column');
+  }
+
+  const filters = (Array.isArray(spec.filters) ? spec.filters : []).map(
+    (f: Record<string, unknown>): ChartFilter => {
+      const op = f?.op as TableFilterOp;
+      if (!FILTER_OPS.includes(op)) throw new Error(`Unknown operator "${op}"`);
+      if (typeof f.value !== 'string' && typeof f.value !== 'number') {
+        throw new Error('Filter value must be a string or number');
+      }
+      return {
+        column: assertColumn(f.column).name,
+        op,
+        value: String(f.value),
+      };
+    },
+  );
+
+  let sort: Visualization['sort'] = null;
+  const rawSort = spec.sort as Record<string, unknown> | null | undefined;
+  if (rawSort) {
+    const sortable = [x, ...y, ...(aggregate === 'count' ? ['count'] : [])];
+    if (
+      typeof rawSort.column !== 'string' ||
+      !sortable.includes(rawSort.column)
+    ) {
+      throw new Error(`Cannot sort by "${String(rawSort.column)}"`);
+    }
+    sort = {
+      column: rawSort.column,
+      direction: rawSort.direction === 'asc' ? 'asc' : 'desc',
+    };
+  }
+
+  return {
+    chartType,
+    tableId,
+    title: typeof spec.title === 'string' ? spec.title : '',
+    x,
+    y,
+    aggregate,
+    filters,
+    sort,
+  };
+}
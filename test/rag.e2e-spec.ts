@@ -0,0 +1,310 @@
+import { randomUUID } from 'crypto';
+import { INestApplication } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { NextFunction, Response } from 'express';
+import OpenAI from 'openai';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { configureApp } from './../src/app.setup';
+import { AuthenticatedRequest } from './../src/auth/auth.types';
+import { DatabaseService } from './../src/database/database.service';
+import { IngestJobsService } from './../src/rag/ingest-jobs.service';
+import { parseDocument } from './../src/rag/ingest-parser';
+import { AnswerCacheService } from './../src/rag/answer-cache.service';
+import { RagModule } from './../src/rag/rag.module';
+import { RagService } from './../src/rag/rag.service';
+import { RetrieverService } from './../src/rag/retriever.service';
+import { VectorIndexService } from './../src/rag/vector-index.service';
+
+describe('RagController errors (e2e)', () => {
+  let app: INestApplication<App>;
+  const ragService = {
+    query: jest.fn(),
+    createConversation: jest.fn(),
+    deleteConversation: jest.fn(),
+    getChatHistory: jest.fn(),
+  };
+  const ingestJobs = { enqueue: jest.fn(), list: jest.fn() };
+
+  beforeAll(async () => {
+    const moduleFixture = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [() => ({ MAX_UPLOAD_MB: '0.01' })],
+        }),
+        RagModule,
+      ],
+    })
+      .overrideProvider(DatabaseService)
+      .useValue({ query: () => Promise.resolve({ rows: [] }) })
+      .overrideProvider(RetrieverService)
+      .useValue({})
+      .overrideProvider(RagService)
+      .useValue(ragService)
+      .overrideProvider(IngestJobsService)
+      .useValue(ingestJobs)
+      .overrideProvider(AnswerCacheService)
+      .useValue({})
+      .overrideProvider(VectorIndexService)
+      .useValue({})
+      .compile();
+
+    app = moduleFixture.createNestApplication({ logger: false });
+    app.use((req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+      req.auth = { workspaceId: 'ws-1', keyId: null, scopes: ['admin'] };
+      next();
+    });
+    configureApp(app);
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => jest.resetAllMocks());
+
+  describe('request validation', () => {
+    it('rejects a missing question', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/rag/query')
+        .expect(400);
+      expect(res.body).toMatchObject({
+        statusCode: 400,
+        code: 'VALIDATION_FAILED',
+        path: '/rag/query',
+      });
+      const { details } = res.body as { details: Array<{ field: string }> };
+      expect(details.map((d) => d.field)).toContain('q');
+      expect(ragService.query).not.toHaveBeenCalled();
+    });
+
+    it('rejects k outside 1..50 and non-numeric k', async () => {
+      for (const k of ['abc', '0', '500']) {
+        const res = await request(app.getHttpServer())
+          .get('/rag/query')
+          .query({ q: 'risk', k })
+          .expect(400);
+        expect(res.body).toMatchObject({ code: 'VALIDATION_FAILED' });
+      }
+    });
+
+    it('rejects malformed conversation ids and filter dates', async () => {
+      await request(app.getHttpServer())
+        .get('/rag/query')
+        .query({ q: 'risk', conversationId: 'abc' })
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/rag/query')
+        .query({ q: 'risk', after: 'yesterday' })
+        .expect(400);
+      const res = await request(app.getHttpServer())
+        .delete('/rag/conversations/abc')
+        .expect(400);
+      expect(res.body).toMatchObject({ code: 'VALIDATION_FAILED' });
+    });
+
+    it('passes typed, defaulted values to the service', async () => {
+      ragService.query.mockResolvedValue({ answer: 'ok' });
+      await request(app.getHttpServer())
+        .get('/rag/query')
+        .query({ q: '  top risk  ' })
+        .expect(200);
+      expect(ragService.query).toHaveBeenCalledWith(
+        'ws-1',
+        'top risk',
+        expect.objectContaining({ k: 5, debug: false }),
+      );
+
+      ragService.getChatHistory.mockResolvedValue([]);
+      await request(app.getHttpServer())
+        .get('/rag/chat-history')
+        .query({ page: '2', limit: '5' })
+        .expect(200);
+      expect(ragService.getChatHistory).toHaveBeenCalledWith(
+        'ws-1',
+        2,
+        5,
+        undefined,
+      );
+    });
+
+    it('rejects paging out of bounds', async () => {
+      for (const query of [
+        { page: '0' },
+        { limit: 'abc' },
+        { limit: '1000' },
+      ]) {
+        await request(app.getHttpServer())
+          .get('/rag/chat-history')
+          .query(query)
+          .expect(400);
+      }
+    });
+
+    it('rejects malformed chart parameters before looking up the table', async () => {
+      const chart = `/rag/data/tables/${randomUUID()}/chart`;
+      for (const query of [
+        { aggregate: 'median' },
+        { order: 'up' },
+        { page: '1.5' },
+        { limit: '5000' },
+      ]) {
+        await request(app.getHttpServer()).get(chart).query(query).expect(400);
+      }
+      await request(app.getHttpServer())
+        .get(chart)
+        .query({ aggregate: 'sum', order: 'desc', limit: '10' })
+        .expect(404);
+    });
+
+    it('validates export formats and days, and sends files as attachments', async () => {
+      for (const query of [
+        { format: 'pdf' },
+        { from: '2026-10-01T00:00:00Z' },
+        { to: 'yesterday' },
+      ]) {
+        await request(app.getHttpServer())
+          .get('/rag/chat-history/export')
+          .query(query)
+          .expect(400);
+      }
+      const res = await request(app.getHttpServer())
+        .get('/rag/chat-history/export')
+        .query({ from: '2026-10-01', to: '2026-10-31' })
+        .expect(200);
+      expect(res.headers['content-type']).toBe('text/csv; charset=utf-8');
+      expect(res.headers['content-disposition']).toBe(
+        'attachment; filename="answers-2026-10-01-to-2026-10-31.csv"',
+      );
+      expect(res.text).toBe(
+        'asked_at,conversation_id,chat_history_id,question,answer,sources\r\n',
+      );
+    });
+  });
+
+  describe('uploads', () => {
+    it('rejects a request without a file', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/rag/ingest/file')
+        .expect(400);
+      expect(res.body).toMatchObject({ code: 'VALIDATION_FAILED' });
+      expect(ingestJobs.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('rejects files over the size limit', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/rag/ingest/file')
+        .attach('file', Buffer.alloc(20 * 1024, 'a'), 'big.csv')
+        .expect(413);
+      expect(res.body).toMatchObject({ code: 'PAYLOAD_TOO_LARGE' });
+    });
+
+    it('rejects unsupported file types', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/rag/ingest/file')
+        .attach('file', Buffer.from('MZ'), {
+          filename: 'setup.exe',
+          contentType: 'application/x-msdownload',
+        })
+        .expect(415);
+      expect(res.body).toMatchObject({ code: 'UNSUPPORTED_MEDIA_TYPE' });
+    });
+
+    it('rejects unknown modes and chunking options', async () => {
+      for (const query of [{ mode: 'merge' }, { maxTokens: 'many' }]) {
+        await request(app.getHttpServer())
+          .post('/rag/ingest/file')
+          .query(query)
+          .attach('file', Buffer.from('a,b\n1,2\n'), 'ok.csv')
+          .expect(400);
+      }
+    });
+
+    it('maps csv-parse errors to PARSE_FAILED', async () => {
+      ingestJobs.enqueue.mockImplementation(
+        (_ws: string, _source: string, file: Express.Multer.File) =>
+          parseDocument({
+            fileName: file.originalname,
+            mimeType: file.mimetype,
+            buffer: file.buffer,
+          }),
+      );
+      const res = await request(app.getHttpServer())
+        .post('/rag/ingest/file')
+        .attach('file', Buffer.from('a,b\n"1,2\n'), 'broken.csv')
+        .expect(422);
+      expect(res.body).toMatchObject({
+        code: 'PARSE_FAILED',
+        details: { format: 'csv', reason: 'CSV_QUOTE_NOT_CLOSED' },
+      });
+    });
+  });
+
+  describe('upstream failures', () => {
+    it('maps OpenAI rate limits and auth errors', async () => {
+      ragService.query.mockRejectedValueOnce(
+        new OpenAI.RateLimitError(429, undefined, 'Rate limit', {}),
+      );
+      const limited = await request(app.getHttpServer())
+        .get('/rag/query')
+        .query({ q: 'risk' })
+        .expect(429);
+      expect(limited.body).toMatchObject({ code: 'LLM_RATE_LIMITED' });
+
+      ragService.query.mockRejectedValueOnce(
+        new OpenAI.AuthenticationError(401, undefined, 'Bad key', {}),
+      );
+      const auth = await request(app.getHttpServer())
+        .get('/rag/query')
+        .query({ q: 'risk' })
+        .expect(502);
+      expect(auth.body).toMatchObject({ code: 'LLM_AUTH_FAILED' });
+    });
+
+    it('maps pg errors by SQLSTATE and connection failures', async () => {
+      ragService.createConversation.mockRejectedValueOnce(
+        Object.assign(new Error('duplicate key value'), {
+          code: '23505',
+          severity: 'ERROR',
+        }),
+      );
+      const conflict = await request(app.getHttpServer())
+        .post('/rag/conversations')
+        .send({ title: 'Risk' })
+        .expect(409);
+      expect(conflict.body).toMatchObject({
+        code: 'DB_CONFLICT',
+        details: { sqlState: '23505' },
+      });
+
+      ragService.createConversation.mockRejectedValueOnce(
+        Object.assign(new Error('connect ECONNREFUSED'), {
+          code: 'ECONNREFUSED',
+        }),
+      );
+      const down = await request(app.getHttpServer())
+        .post('/rag/conversations')
+        .send({})
+        .expect(503);
+      expect(down.body).toMatchObject({ code: 'DB_UNAVAILABLE' });
+    });
+
+    it('hides the message of unexpected errors', async () => {
+      ragService.query.mockRejectedValueOnce(
+        new TypeError("Cannot read properties of undefined (reading 'x')"),
+      );
+      const res = await request(app.getHttpServer())
+        .get('/rag/query')
+        .query({ q: 'risk' })
+        .expect(500);
+      expect(res.body).toMatchObject({
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+      });
+    });
+  });
+});